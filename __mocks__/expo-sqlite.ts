@@ -0,0 +1,89 @@
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+
+/**
+ * expo-sqlite for Jest, backed by sql.js. Each database file is kept in
+ * memory as bytes between close and reopen; `__resetDatabases` forgets them.
+ */
+
+type Params = SqlValue[] | Record<string, SqlValue>;
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+const files = new Map<string, Uint8Array>();
+
+function toParams(params: unknown[]): Params {
+  const values = params.length === 1 && typeof params[0] === 'object' && params[0] !== null ? params[0] : params;
+  if (Array.isArray(values)) return values.map(v => (v === undefined ? null : v)) as SqlValue[];
+  return values as Record<string, SqlValue>;
+}
+
+class MockSQLiteDatabase {
+  constructor(private readonly name: string, private db: Database | null) {}
+
+  private open(): Database {
+    if (!this.db) throw new Error(`Database ${this.name} is closed`);
+    return this.db;
+  }
+
+  async execAsync(source: string): Promise<void> {
+    this.open().exec(source);
+  }
+
+  async runAsync(source: string, ...params: unknown[]): Promise<{ changes: number; lastInsertRowId: number }> {
+    const db = this.open();
+    db.run(source, toParams(params));
+    const lastInsertRowId = Number(db.exec('SELECT last_insert_rowid()')[0]?.values[0][0] ?? 0);
+    return { changes: db.getRowsModified(), lastInsertRowId };
+  }
+
+  async getAllAsync<T>(source: string, ...params: unknown[]): Promise<T[]> {
+    const statement = this.open().prepare(source);
+    try {
+      statement.bind(toParams(params));
+      const rows: T[] = [];
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async getFirstAsync<T>(source: string, ...params: unknown[]): Promise<T | null> {
+    return (await this.getAllAsync<T>(source, ...params))[0] ?? null;
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    const db = this.open();
+    db.exec('BEGIN');
+    try {
+      await task();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async closeAsync(): Promise<void> {
+    const db = this.open();
+    files.set(this.name, db.export());
+    db.close();
+    this.db = null;
+  }
+}
+
+export type SQLiteDatabase = MockSQLiteDatabase;
+
+export async function openDatabaseAsync(name: string): Promise<MockSQLiteDatabase> {
+  // The asm.js build: the wasm one can't open databases under the React Native test environment
+  if (!sqlPromise) sqlPromise = require('sql.js/dist/sql-asm.js')() as Promise<SqlJsStatic>;
+  const SQL = await sqlPromise;
+  return new MockSQLiteDatabase(name, new SQL.Database(files.get(name)));
+}
+
+export async function deleteDatabaseAsync(name: string): Promise<void> {
+  files.delete(name);
+}
+
+export function __resetDatabases(): void {
+  files.clear();
+}
@@ -7,6 +7,7 @@ import { useAuthStore } from '@/utils/authStore';
 import { useDashboardStore } from '@/utils/dashboardStore';
 import { useMobileReportStore } from '@/utils/mobileReportStore';
 import { useDraftReportsStore } from '@/utils/draftReportsStore';
+import { LEAK_TYPE_LABELS } from '@/services/leakReportsService';
 
 export default function DashboardScreen() {
   const insets = useSafeAreaInsets();
@@ -149,6 +150,21 @@ export default function DashboardScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* See Report History button */}
+        <View style={{ marginHorizontal: 16, marginTop: 12 }}>
+          <TouchableOpacity
+            style={styles.seeDraftsBtn}
+            activeOpacity={0.85}
+            onPress={() => {
+              router.push('/screens/reportHistory' as any);
+            }}
+          >
+            <Ionicons name="time-outline" size={20} color="#1f3a8a" style={{ marginRight: 8 }} />
+            <Text style={styles.seeDraftsBtnText}>See Report History</Text>
+            <Ionicons name="chevron-forward" size={18} color="#1f3a8a" style={{ marginLeft: 'auto' }} />
+          </TouchableOpacity>
+        </View>
+
         {/* Loading / Error */}
         {isLoading && (
           <View style={styles.statusRow}>
@@ -195,19 +211,15 @@ export default function DashboardScreen() {
             const statusText = isSynced ? 'Synced' : 'Not Synced';
 
             // Get leak type label
-            const leakTypeLabels: { [key: number]: string } = {
-              38: 'Serviceline',
-              39: 'Mainline',
-              40: 'Others',
-              61: 'Valve',
-              64: 'Blow-off',
-              65: 'Fire Hydrant',
-              66: 'Air Release'
-            };
-            const leakTypeLabel = leakTypeLabels[report.leakTypeId] || 'Unknown';
+            const leakTypeLabel = LEAK_TYPE_LABELS[report.leakTypeId] || 'Unknown';
 
             return (
-              <View key={report.id} style={styles.activityCard}>
+              <TouchableOpacity
+                key={report.id}
+                style={styles.activityCard}
+                activeOpacity={0.85}
+                onPress={() => router.push({ pathname: '/screens/reportDetail', params: { id: report.id } })}
+              >
                 <View style={styles.activityHeader}>
                   <View style={[styles.activityIcon, { backgroundColor: `${statusColor}20`, borderColor: statusColor }]}>
                     <Ionicons name={statusIcon} size={20} color={statusColor} />
@@ -241,7 +253,7 @@ export default function DashboardScreen() {
                     </View>
                   )}
                 </View>
-              </View>
+              </TouchableOpacity>
             );
           })
         )}
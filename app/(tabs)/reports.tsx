@@ -1,20 +1,27 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, ScrollView, BackHandler, TextInput } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router, useFocusEffect, useNavigation } from 'expo-router';
 import * as Location from 'expo-location';
-import LeafletMap from '@/components/ui/maps';
+import LeafletMap, { LatLng, LeafletMapHandle } from '@/components/ui/maps';
 import { useReportsStore } from '@/utils/reportsStore';
+import { Meter } from '@/hooks/nearestMeter';
 import { useMapStore } from '@/utils/mapStore';
 import { useSettingsStore } from '@/utils/settingsStore';
+import { useAuthStore } from '@/utils/authStore';
+import { useDashboardStore } from '@/utils/dashboardStore';
+import { useMobileReportStore } from '@/utils/mobileReportStore';
+import { ReportPoint, REPORT_MARKER_PREFIX, cachedReportsToPoints, leakReportsToPoints } from '@/hooks/reportMarkers';
 
 export default function NearestMetersScreen() {
   const insets = useSafeAreaInsets();
-  const mapKey = useRef(0);
+  const mapRef = useRef<LeafletMapHandle>(null);
   const navigation = useNavigation();
   const locationSubscription = useRef<Location.LocationSubscription | null>(null);
   const isInitialLocation = useRef(true);
+  // Last map view center, where the pin button drops a new pin
+  const mapViewCenter = useRef<LatLng | null>(null);
 
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
@@ -37,16 +44,42 @@ export default function NearestMetersScreen() {
     findNearestMeters,
     recheckCustomerData,
     searchMeter,
+    searchResults,
+    selectSearchResult,
+    clearSearchResults,
+    pin,
+    pinReference,
+    isFindingPinReference,
+    dropPin,
+    clearPin,
   } = useReportsStore();
 
   // Offline map state
   const mapReady = useMapStore((s) => s.isReady);
-  const mapTilesPath = useMapStore((s) => s.mapTilesPath);
-  const offlineTilesPath = mapReady ? mapTilesPath : null;
+  const mapRegions = useMapStore((s) => s.regions);
+  const offlineRegions = mapReady ? mapRegions : undefined;
 
   // Compute selected meter from subscribed state (this ensures re-render when selectedId changes)
   const selected = selectedId ? meters.find(m => m.id === selectedId) || null : null;
 
+  // Existing reports layer: submitted reports from the dashboard plus ones still queued on the device
+  const user = useAuthStore((s) => s.user);
+  const serverReports = useDashboardStore((s) => s.reports);
+  const isLoadingReports = useDashboardStore((s) => s.isLoading);
+  const fetchDashboard = useDashboardStore((s) => s.fetchDashboard);
+  const cachedReports = useMobileReportStore((s) => s.cachedReports);
+  const loadCachedReports = useMobileReportStore((s) => s.loadCachedReports);
+  const [showReportLayer, setShowReportLayer] = useState(false);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+
+  const reportPoints = useMemo(() => {
+    const serverIds = new Set(serverReports.map(r => r.id));
+    return [...leakReportsToPoints(serverReports), ...cachedReportsToPoints(cachedReports, serverIds)];
+  }, [serverReports, cachedReports]);
+  const selectedReport: ReportPoint | null = showReportLayer
+    ? reportPoints.find(r => r.id === selectedReportId) ?? null
+    : null;
+
   // Initialize on mount only if not already initialized
   // The splash screen should have already initialized the store
   // Do NOT auto-load customer data here - only initialize location
@@ -145,23 +178,24 @@ export default function NearestMetersScreen() {
     });
   }, [navigation, insets.bottom]);
 
-  // Handle Android back button press when meter is selected
+  // Handle Android back button press when meter is selected or a pin is dropped
   useEffect(() => {
-    if (!selected) return;
+    if (!selected && !pin) return;
 
     // Handle hardware back button on Android
     const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
-      setSelectedId(null);
+      if (selected) setSelectedId(null);
+      else clearPin();
       return true; // Prevent default back behavior
     });
 
     return () => backHandler.remove();
-  }, [selected, setSelectedId]);
+  }, [selected, pin, setSelectedId, clearPin]);
 
   const handleRefreshLocation = async () => {
     const success = await refreshLocation();
     if (success) {
-      mapKey.current += 1; // Force map re-render with new location
+      // The store moved `center` to the new location; the map flies there by itself
       Alert.alert('Success', 'Location updated successfully.');
     } else {
       Alert.alert('Location unavailable', 'Unable to fetch your current location.');
@@ -192,7 +226,8 @@ export default function NearestMetersScreen() {
     if (userLocation) {
       setCenter(userLocation);
       isInitialLocation.current = false; // User manually centered, don't auto-update
-      mapKey.current += 1; // Force map re-render with new center
+      // `center` may already equal the location after the user panned away, so fly explicitly
+      mapRef.current?.flyTo(userLocation);
     } else {
       Alert.alert('Location unavailable', 'Please enable location services.');
     }
@@ -220,9 +255,8 @@ export default function NearestMetersScreen() {
       const result = await searchMeter(searchQuery.trim());
       if (!result.found) {
         Alert.alert('Not Found', result.message);
-      } else {
-        // Center map on found meter
-        mapKey.current += 1;
+      } else if (useReportsStore.getState().searchResults.length === 0) {
+        // Single match was selected; the map flies to it
         setSearchQuery('');
       }
     } finally {
@@ -230,18 +264,63 @@ export default function NearestMetersScreen() {
     }
   };
 
+  const handlePickSearchResult = (meter: Meter) => {
+    selectSearchResult(meter);
+    setSearchQuery('');
+  };
+
+  const handleToggleReportLayer = () => {
+    const show = !showReportLayer;
+    setShowReportLayer(show);
+    setSelectedReportId(null);
+    if (show) {
+      loadCachedReports();
+      if (user?.empId && !isLoadingReports) fetchDashboard(user.empId);
+    }
+  };
+
+  // Drop the pin in the middle of the visible map; the user then drags it onto the leak
+  const handleDropPin = () => {
+    dropPin(mapViewCenter.current ?? userLocation ?? center);
+  };
+
+  const handleReportAtPin = () => {
+    if (!pin) return;
+    router.push({
+      pathname: '/screens/reportForm',
+      params: {
+        pinned: '1',
+        coords: `${pin.lat.toFixed(6)}, ${pin.lng.toFixed(6)}`,
+        // The nearest meter only goes along as an optional reference
+        ...(pinReference && {
+          id: pinReference.id,
+          address: pinReference.address,
+          account: pinReference.account,
+          dma: pinReference.dma,
+          wss: pinReference.wss,
+        }),
+      }
+    });
+  };
+
   return (
     <View style={styles.page}>
       {/* Header */}
       <View style={[styles.header, { paddingTop: Math.max(insets.top, 12) }]}> 
-        {selected && (
-          <TouchableOpacity style={styles.backBtn} onPress={() => setSelectedId(null)}>
+        {(selected || pin) && (
+          <TouchableOpacity style={styles.backBtn} onPress={() => (selected ? setSelectedId(null) : clearPin())}>
             <Ionicons name="arrow-back" size={22} color="#000" />
           </TouchableOpacity>
         )}
         <View style={{ flex: 1 }}>
-          <Text style={styles.headerTitle}>{selected ? 'Report & Map' : 'Nearest Meters'}</Text>
-          <Text style={styles.headerSubtitle}>{selected ? 'Search meter or pick location' : 'Tap a marker or select from list'}</Text>
+          <Text style={styles.headerTitle}>{selected ? 'Report & Map' : pin ? 'Report at Location' : 'Nearest Meters'}</Text>
+          <Text style={styles.headerSubtitle}>
+            {selected
+              ? 'Search meter or pick location'
+              : pin
+                ? 'Drag the pin onto the leak'
+                : 'Tap a marker, select from list or long-press the map'}
+          </Text>
         </View>
       </View>
 
@@ -251,7 +330,7 @@ export default function NearestMetersScreen() {
           <Ionicons name="search-outline" size={18} color="#9ca3af" style={{ marginRight: 6 }} />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search meter or account number..."
+            placeholder="Search meter, account, address or name..."
             placeholderTextColor="#9ca3af"
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -284,16 +363,29 @@ export default function NearestMetersScreen() {
       {/* Map - Fixed at top */}
       <View style={[styles.mapCard, selected && { marginBottom: 0 }]}>
         <LeafletMap
-          key={mapKey.current}
+          ref={mapRef}
           center={selected ? { lat: selected.lat, lng: selected.lng } : center}
           zoom={16}
-          markers={
-            selected 
+          markers={[
+            ...(selected
               ? [{ id: selected.id, position: { lat: selected.lat, lng: selected.lng }, title: selected.title }]
-              : meters.map(m => ({ id: m.id, position: { lat: m.lat, lng: m.lng }, title: `#${m.rank} ${m.id}` }))
-          }
+              : meters.map(m => ({ id: m.id, position: { lat: m.lat, lng: m.lng }, title: `#${m.rank} ${m.id}` }))),
+            ...(showReportLayer
+              ? reportPoints.map(r => ({ id: `${REPORT_MARKER_PREFIX}${r.id}`, position: { lat: r.lat, lng: r.lng }, color: r.color }))
+              : []),
+          ]}
           userLocation={userLocation ?? undefined}
-          offlineTilesPath={offlineTilesPath}
+          pin={selected ? null : pin}
+          offlineRegions={offlineRegions}
+          onMarkerPress={id => {
+            if (id.startsWith(REPORT_MARKER_PREFIX)) setSelectedReportId(id.slice(REPORT_MARKER_PREFIX.length));
+            else if (!selected) setSelectedId(id);
+          }}
+          onLongPress={position => {
+            if (!selected) dropPin(position);
+          }}
+          onPinMove={dropPin}
+          onMoveEnd={view => { mapViewCenter.current = view.center; }}
           style={{ flex: 1, width: '100%' }}
         />
         
@@ -307,9 +399,33 @@ export default function NearestMetersScreen() {
           >
             <Ionicons name="locate" size={20} color="#1f3a8a" />
           </TouchableOpacity>
+
+          {/* Show or hide existing leak reports */}
+          <TouchableOpacity
+            style={[styles.fab, showReportLayer && styles.fabActive]}
+            onPress={handleToggleReportLayer}
+            activeOpacity={0.7}
+          >
+            {showReportLayer && isLoadingReports ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="layers-outline" size={20} color={showReportLayer ? '#fff' : '#1f3a8a'} />
+            )}
+          </TouchableOpacity>
+
+          {/* Drop a pin to report a leak away from any meter */}
+          {!selected && !pin && (
+            <TouchableOpacity
+              style={styles.fab}
+              onPress={handleDropPin}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="pin-outline" size={20} color="#1f3a8a" />
+            </TouchableOpacity>
+          )}
           
           {/* Reload nearest meters button - only show when meters exist and not selected */}
-          {!selected && meters.length > 0 && (
+          {!selected && !pin && meters.length > 0 && (
             <TouchableOpacity 
               style={[styles.fab, isFindingMeters && styles.fabDisabled]} 
               onPress={handleFindMeters}
@@ -332,6 +448,88 @@ export default function NearestMetersScreen() {
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={true}
       >
+        {/* Tapped report from the reports layer */}
+        {selectedReport && (
+          <View style={[styles.sheet, { marginBottom: 12 }]}>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.sheetTitle}>{selectedReport.leakType} Leak</Text>
+              <TouchableOpacity onPress={() => setSelectedReportId(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Ionicons name="close" size={20} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+            <View style={[styles.statusChip, { backgroundColor: `${selectedReport.color}20` }]}>
+              <View style={[styles.legendDot, { backgroundColor: selectedReport.color }]} />
+              <Text style={[styles.statusChipText, { color: selectedReport.color }]}>{selectedReport.status}</Text>
+            </View>
+            {selectedReport.refNo !== '' && <Text style={styles.itemTitle}>Ref: {selectedReport.refNo}</Text>}
+            {selectedReport.meterNumber !== '' && <Text style={styles.itemTitle}>Meter: {selectedReport.meterNumber}</Text>}
+            {selectedReport.location !== '' && <Text style={styles.itemSubtitle} numberOfLines={2}>{selectedReport.location}</Text>}
+            {selectedReport.landmark !== '' && <Text style={styles.itemSubtitle} numberOfLines={2}>Landmark: {selectedReport.landmark}</Text>}
+            <Text style={styles.itemDistance}>
+              Reported {new Date(selectedReport.reportedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </Text>
+            {selectedReport.source === 'server' && (
+              <TouchableOpacity
+                style={styles.reportBtn}
+                activeOpacity={0.85}
+                onPress={() => router.push({ pathname: '/screens/reportDetail', params: { id: selectedReport.serverId } })}
+              >
+                <Ionicons name="document-text-outline" size={18} color="#fff" style={{ marginRight: 8 }} />
+                <Text style={styles.reportBtnText}>View Details</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* Reports layer legend */}
+        {showReportLayer && !selectedReport && (
+          <View style={[styles.sheet, { marginBottom: 12, paddingVertical: 12 }]}>
+            <Text style={styles.itemSubtitle}>
+              {reportPoints.length === 0
+                ? (isLoadingReports ? 'Loading reports...' : 'No reports with a location to show')
+                : `${reportPoints.length} report${reportPoints.length !== 1 ? 's' : ''} on the map. Tap a dot for details.`}
+            </Text>
+            <View style={styles.legendRow}>
+              {Array.from(new Map(reportPoints.map(r => [r.status, r.color])).entries()).map(([status, color]) => (
+                <View key={status} style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: color }]} />
+                  <Text style={styles.itemDistance}>{status}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Search results picker */}
+        {searchResults.length > 0 && (
+          <View style={styles.sheet}>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.sheetTitle}>Search Results</Text>
+              <TouchableOpacity onPress={clearSearchResults} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Ionicons name="close" size={20} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.sheetSubtitle}>{searchResults.length} matches, best first. Choose the meter to report.</Text>
+
+            {searchResults.map((m, index) => (
+              <TouchableOpacity key={`${m.id}-${m.account}-${index}`} style={styles.itemCard} activeOpacity={0.8} onPress={() => handlePickSearchResult(m)}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.itemId}>{m.id}</Text>
+                  <Text style={styles.itemTitle} numberOfLines={1}>{m.title}</Text>
+                  <Text style={styles.itemSubtitle} numberOfLines={1}>{m.account} · {m.address}</Text>
+                  {m.distance !== '' && (
+                    <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                      <Ionicons name="pin" size={14} color="#ef4444" style={{ marginRight: 4 }} />
+                      <Text style={styles.itemDistance}>{m.distance}</Text>
+                    </View>
+                  )}
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* If a meter is selected, show details sheet; else show selection list */}
         {selected ? (
           <View style={styles.sheet}>
@@ -381,6 +579,46 @@ export default function NearestMetersScreen() {
               <Text style={styles.reportBtnText}>Report Meter</Text>
             </TouchableOpacity>
           </View>
+        ) : pin ? (
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>Report at Location</Text>
+            <Text style={styles.sheetSubtitle}>For mainline, hydrant, blow-off and valve leaks away from a customer meter.</Text>
+
+            <View style={styles.detailRow}>
+              <View style={styles.detailIcon}><Ionicons name="pin-outline" size={18} color="#1f3a8a" /></View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.detailLabel}>Pin Location</Text>
+                <Text style={styles.detailValue}>{pin.lat.toFixed(6)}, {pin.lng.toFixed(6)}</Text>
+              </View>
+            </View>
+
+            <View style={styles.detailRow}>
+              <View style={styles.detailIcon}><Ionicons name="speedometer-outline" size={18} color="#1f3a8a" /></View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.detailLabel}>Nearest Meter (reference)</Text>
+                {isFindingPinReference ? (
+                  <ActivityIndicator size="small" color="#1f3a8a" style={{ alignSelf: 'flex-start', marginTop: 2 }} />
+                ) : pinReference ? (
+                  <>
+                    <Text style={styles.detailValue}>{pinReference.id}</Text>
+                    <Text style={styles.itemSubtitle} numberOfLines={1}>{pinReference.address} · {pinReference.distance}</Text>
+                  </>
+                ) : (
+                  <Text style={styles.itemSubtitle}>No meter nearby</Text>
+                )}
+              </View>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.reportBtn, isFindingPinReference && styles.loadBtnDisabled]}
+              activeOpacity={0.85}
+              onPress={handleReportAtPin}
+              disabled={isFindingPinReference}
+            >
+              <Ionicons name="create-outline" size={18} color="#fff" style={{ marginRight: 8 }} />
+              <Text style={styles.reportBtnText}>Report at This Location</Text>
+            </TouchableOpacity>
+          </View>
         ) : (
           <View style={styles.sheet}>
             <Text style={styles.sheetTitle}>Select a nearest meter</Text>
@@ -584,6 +822,7 @@ const styles = StyleSheet.create({
   rankText: { color: '#fff', fontWeight: '700' },
   itemId: { fontWeight: '700', color: '#111827' },
   itemTitle: { color: '#374151' },
+  itemSubtitle: { color: '#6b7280', fontSize: 12, marginBottom: 2 },
   itemDistance: { color: '#6b7280', fontSize: 12 },
 
   detailRow: {
@@ -673,6 +912,27 @@ const styles = StyleSheet.create({
   fabDisabled: {
     opacity: 0.6,
   },
+  fabActive: {
+    backgroundColor: '#1f3a8a',
+  },
+  legendRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: { flexDirection: 'row', alignItems: 'center' },
+  legendDot: { width: 10, height: 10, borderRadius: 5, marginRight: 6 },
+  statusChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginVertical: 8,
+  },
+  statusChipText: { fontSize: 12, fontWeight: '700' },
   loadingOverlay: {
     position: 'absolute',
     top: -100, // Extend above the screen
@@ -713,6 +973,11 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  resultsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   searchRow: {
     flexDirection: 'row',
     alignItems: 'center',
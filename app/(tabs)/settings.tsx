@@ -1,11 +1,49 @@
 import React, { useEffect, useState } from 'react';
-import { ScrollView, View, Text, TouchableOpacity, StyleSheet, Alert, Switch, ActivityIndicator, Linking } from 'react-native';
+import { ScrollView, View, Text, TouchableOpacity, StyleSheet, Alert, Switch, ActivityIndicator, Linking, TextInput } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useSettingsStore } from '@/utils/settingsStore';
 import { useMapStore } from '@/utils/mapStore';
+import { formatMapSize } from '@/utils/mapRegions';
+import { LEAFLET_VERSION } from '@/assets/leaflet/leafletBundle';
 import { requestNotificationPermissions, getNotificationPermissions } from '@/services/notificationService';
+import { verifyOfflineData, repairOfflineData, OfflineDataProblem } from '@/services/offlineDataCheck';
+import { useAuthStore } from '@/utils/authStore';
+import { ENVIRONMENTS, EnvironmentId, canSwitchEnvironment, normalizeApiUrl, useEnvironmentStore } from '@/utils/environment';
+import { MockFailure, useMockServerStore } from '@/utils/mockServerStore';
+import { advanceMockReports, expireMockAccessTokens, resetMockData, revokeMockSession } from '@/services/mockTransport';
+
+// Choices for the duplicate report check
+const DUPLICATE_RADIUS_OPTIONS = [25, 50, 100, 200];
+const DUPLICATE_WINDOW_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+  { hours: 720, label: '30 days' },
+];
+
+// Taps on App Version that reveal the environment switch (for privileged users)
+const ENVIRONMENT_SWITCH_TAPS = 7;
+
+// Mock server controls; the last latency exceeds the 30s request timeout
+const MOCK_LATENCY_OPTIONS = [
+  { ms: 0, label: 'None' },
+  { ms: 400, label: '0.4s' },
+  { ms: 3000, label: '3s' },
+  { ms: 35000, label: 'Timeout' },
+];
+const MOCK_FAILURE_OPTIONS: { failure: MockFailure; label: string }[] = [
+  { failure: 'none', label: 'None' },
+  { failure: 'offline', label: 'Offline' },
+  { failure: 'serverError', label: '500 Error' },
+  { failure: 'validation', label: 'Validation' },
+];
+
+const ENVIRONMENT_OPTIONS: { id: EnvironmentId; label: string }[] = [
+  ...Object.values(ENVIRONMENTS).map(({ id, label }) => ({ id, label })),
+  { id: 'custom', label: 'Custom' },
+];
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
@@ -14,11 +52,18 @@ export default function SettingsScreen() {
   const {
     customerDataStatus,
     customerCount,
+    lastCustomerSync,
+    pendingImport,
     downloading,
+    updatingCustomers,
     downloadProgress,
     loadOfflineMapPreference,
+    duplicateCheck,
+    setDuplicateCheck,
+    loadDuplicateCheckPreference,
     checkCustomerData,
     downloadCustomerData,
+    updateCustomerData,
     clearCustomerDataAction,
   } = useSettingsStore();
 
@@ -26,17 +71,85 @@ export default function SettingsScreen() {
   const {
     isDownloading: mapDownloading,
     isUnzipping: mapUnzipping,
+    isPaused: mapPaused,
     isReady: mapReady,
     downloadProgress: mapDownloadProgress,
+    extractProgress: mapExtractProgress,
     statusMessage: mapStatusMessage,
     error: mapError,
+    regions: mapRegions,
+    mapEngineStatus,
     checkExistingMap,
-    initializeMap,
+    pauseMapDownload,
+    resumeMapDownload,
+    cancelMapInstall,
     clearMapData,
     setError: setMapError,
   } = useMapStore();
 
   const [isEnabled, setIsEnabled] = useState(false);
+  const [checkMessage, setCheckMessage] = useState<string | null>(null);
+
+  // Hidden environment switch
+  const user = useAuthStore((s) => s.user);
+  const switchEnvironment = useAuthStore((s) => s.switchEnvironment);
+  const environment = useEnvironmentStore((s) => s.environment);
+  const [versionTaps, setVersionTaps] = useState(0);
+  const [showEnvironmentSwitch, setShowEnvironmentSwitch] = useState(false);
+  const [selectedEnvironment, setSelectedEnvironment] = useState<EnvironmentId>(environment.id);
+  const [customApiUrl, setCustomApiUrl] = useState(environment.id === 'custom' ? environment.apiUrl : '');
+
+  const handleVersionTap = () => {
+    if (showEnvironmentSwitch || !canSwitchEnvironment(user?.accesslevel)) return;
+    const taps = versionTaps + 1;
+    setVersionTaps(taps);
+    if (taps >= ENVIRONMENT_SWITCH_TAPS) {
+      setSelectedEnvironment(environment.id);
+      setShowEnvironmentSwitch(true);
+    }
+  };
+
+  const handleSwitchEnvironment = () => {
+    const target = selectedEnvironment === 'custom' ? 'Custom server' : ENVIRONMENTS[selectedEnvironment]?.label ?? selectedEnvironment;
+    Alert.alert(
+      `Switch to ${target}?`,
+      `You will be signed out. Your session and queued reports for ${environment.label} stay on this device and come back if you switch back.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          onPress: async () => {
+            try {
+              await switchEnvironment(selectedEnvironment, customApiUrl);
+            } catch (error: any) {
+              Alert.alert('Cannot Switch', error?.message || 'Could not switch environment.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const mockServer = useMockServerStore((s) => s.settings);
+  const setMockServer = useMockServerStore((s) => s.setMockServer);
+  const loadMockServer = useMockServerStore((s) => s.loadMockServer);
+
+  useEffect(() => {
+    if (environment.id === 'mock') loadMockServer();
+  }, [environment.id, loadMockServer]);
+
+  /** Run a mock server action and show the message it resolves with */
+  const runMockAction = async (action: () => Promise<string>) => {
+    try {
+      Alert.alert('Mock Server', await action());
+    } catch (error: any) {
+      Alert.alert('Mock Server', error?.message || 'Action failed.');
+    }
+  };
+
+  const environmentUnchanged =
+    selectedEnvironment === environment.id &&
+    (selectedEnvironment !== 'custom' || normalizeApiUrl(customApiUrl) === environment.apiUrl);
   /**
    * Handle toggle: when enabling, request notification permission; when disabling, open app settings
    * since apps cannot programmatically revoke permissions on behalf of the user.
@@ -83,6 +196,7 @@ export default function SettingsScreen() {
     checkCustomerData();
     checkExistingMap();
     loadOfflineMapPreference();
+    loadDuplicateCheckPreference();
 
     // Initialize notification toggle state from current permissions
     (async () => {
@@ -113,6 +227,19 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleUpdateClientData = async () => {
+    if (mapDownloading || mapUnzipping) {
+      Alert.alert(
+        'Download in Progress',
+        'Please wait for the map download to complete before updating customer data.'
+      );
+      return;
+    }
+
+    const result = await updateCustomerData();
+    Alert.alert(result.success ? 'Customer Data Updated' : 'Update Failed', result.message);
+  };
+
   const handleClearClientData = async () => {
     Alert.alert(
       'Clear Client Data',
@@ -141,29 +268,16 @@ export default function SettingsScreen() {
 
   // ─── Offline Map handlers ───────────────────────────────────────
 
-  const handleDownloadMap = () => {
+  const handleManageMaps = () => {
     // Prevent downloading if customer data is being downloaded
-    if (downloading) {
+    if (downloading || updatingCustomers) {
       Alert.alert(
         'Download in Progress',
         'Please wait for the customer data download to complete before downloading the map.'
       );
       return;
     }
-
-    Alert.alert(
-      'Download Map',
-      'This will download the offline map. You can continue using the app while it downloads.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Download',
-          onPress: () => {
-            initializeMap();
-          },
-        },
-      ],
-    );
+    router.push('/screens/mapRegions');
   };
 
   const handleClearMap = () => {
@@ -189,11 +303,62 @@ export default function SettingsScreen() {
     );
   };
 
+  // ─── Offline data check ─────────────────────────────────────────
+
+  const describeProblem = (problem: OfflineDataProblem) =>
+    problem.kind === 'customers' ? `• Customer data: ${problem.message}` : `• ${problem.regionName}: ${problem.message}`;
+
+  const handleRepair = async (problems: OfflineDataProblem[]) => {
+    setCheckMessage('Repairing...');
+    try {
+      const failures = await repairOfflineData(problems, setCheckMessage);
+      if (failures.length === 0) {
+        Alert.alert('Repair Complete', 'Offline data has been repaired.');
+      } else {
+        Alert.alert('Repair Incomplete', `Some problems could not be fixed:\n\n${failures.join('\n')}`);
+      }
+    } catch (error: any) {
+      console.error('Error repairing offline data:', error);
+      Alert.alert('Error', error?.message || 'Failed to repair offline data. Please try again.');
+    } finally {
+      setCheckMessage(null);
+    }
+  };
+
+  const handleVerifyOfflineData = async () => {
+    if (downloading || updatingCustomers || mapDownloading || mapUnzipping) {
+      Alert.alert('Download in Progress', 'Please wait for the current download to finish before checking offline data.');
+      return;
+    }
+
+    setCheckMessage('Checking...');
+    try {
+      const problems = await verifyOfflineData(setCheckMessage);
+      if (problems.length === 0) {
+        Alert.alert('Offline Data OK', 'Customer data and offline maps passed every check.');
+        return;
+      }
+      Alert.alert(
+        'Problems Found',
+        `${problems.map(describeProblem).join('\n')}\n\nRepair downloads the affected data again.`,
+        [
+          { text: 'Not Now', style: 'cancel' },
+          { text: 'Repair', onPress: () => handleRepair(problems) },
+        ],
+      );
+    } catch (error: any) {
+      console.error('Error verifying offline data:', error);
+      Alert.alert('Error', error?.message || 'Failed to check offline data. Please try again.');
+    } finally {
+      setCheckMessage(null);
+    }
+  };
+
   // Show map error
   useEffect(() => {
     if (mapError) {
       Alert.alert('Map Error', mapError, [
-        { text: 'Retry', onPress: handleDownloadMap },
+        { text: 'Manage Maps', onPress: () => { setMapError(null); handleManageMaps(); } },
         { text: 'OK', onPress: () => setMapError(null) },
       ]);
     }
@@ -219,10 +384,20 @@ export default function SettingsScreen() {
 
           <View style={{ marginTop: 8 }}>
             <Row label="Map Status:" value={mapReady ? 'Downloaded' : 'Not Downloaded'} />
+            <Row
+              label="Map Engine:"
+              value={mapEngineStatus === 'checking' ? 'Checking...' : mapEngineStatus === 'ok' ? `Leaflet ${LEAFLET_VERSION} (offline ready)` : 'Failed to load'}
+            />
+            {mapReady && (
+              <>
+                <Row label="Regions:" value={mapRegions.map(r => r.name).join(', ')} />
+                <Row label="Storage Used:" value={formatMapSize(mapRegions.reduce((sum, r) => sum + r.sizeBytes, 0))} />
+              </>
+            )}
           </View>
 
           {/* Download / Extraction progress */}
-          {mapDownloading && (
+          {(mapDownloading || mapPaused) && (
             <View style={styles.progressSection}>
               <Text style={styles.progressLabel}>{mapStatusMessage}</Text>
               <View style={styles.progressBar}>
@@ -234,23 +409,48 @@ export default function SettingsScreen() {
 
           {mapUnzipping && (
             <View style={styles.progressSection}>
-              <ActivityIndicator size="small" color="#1f3a8a" style={{ marginBottom: 6 }} />
               <Text style={styles.progressLabel}>{mapStatusMessage}</Text>
+              <View style={styles.progressBar}>
+                <View style={[styles.progressFill, { width: `${mapExtractProgress}%` }]} />
+              </View>
+              <Text style={styles.progressText}>{mapExtractProgress}%</Text>
+            </View>
+          )}
+
+          {(mapDownloading || mapUnzipping || mapPaused) && (
+            <View style={{ marginTop: 12 }}>
+              {(mapDownloading || mapPaused) && (
+                <>
+                  <TouchableOpacity
+                    style={styles.primaryBtn}
+                    activeOpacity={0.85}
+                    onPress={mapPaused ? resumeMapDownload : pauseMapDownload}
+                  >
+                    <Ionicons name={mapPaused ? 'play-outline' : 'pause-outline'} size={18} color="#fff" style={{ marginRight: 8 }} />
+                    <Text style={styles.primaryBtnText}>{mapPaused ? 'Resume Map Download' : 'Pause Map Download'}</Text>
+                  </TouchableOpacity>
+                  <View style={{ height: 8 }} />
+                </>
+              )}
+              <TouchableOpacity style={styles.clearBtn} activeOpacity={0.85} onPress={cancelMapInstall}>
+                <Ionicons name="close-circle-outline" size={18} color="#ef4444" style={{ marginRight: 8 }} />
+                <Text style={styles.clearBtnText}>Cancel Map Download</Text>
+              </TouchableOpacity>
             </View>
           )}
 
           {/* Action buttons */}
-          {!mapDownloading && !mapUnzipping && !mapReady && (
+          {!mapDownloading && !mapUnzipping && !mapPaused && (
             <View style={{ marginTop: 12 }}>
               <TouchableOpacity
                 style={[styles.primaryBtn, downloading && styles.primaryBtnDisabled]}
                 activeOpacity={0.85}
-                onPress={handleDownloadMap}
+                onPress={handleManageMaps}
                 disabled={downloading}
               >
-                <Ionicons name="download-outline" size={18} color="#fff" style={{ marginRight: 8 }} />
+                <Ionicons name={mapReady ? 'layers-outline' : 'download-outline'} size={18} color="#fff" style={{ marginRight: 8 }} />
                 <Text style={styles.primaryBtnText}>
-                  {downloading ? 'Download Offline Map (Waiting...)' : 'Download Offline Map'}
+                  {downloading ? 'Download Offline Map (Waiting...)' : mapReady ? 'Manage Map Regions' : 'Download Offline Map'}
                 </Text>
               </TouchableOpacity>
               {downloading && (
@@ -270,7 +470,7 @@ export default function SettingsScreen() {
                 onPress={handleClearMap}
               >
                 <Ionicons name="trash-outline" size={18} color="#ef4444" style={{ marginRight: 8 }} />
-                <Text style={styles.clearBtnText}>Clear Map Data</Text>
+                <Text style={styles.clearBtnText}>Clear All Map Data</Text>
               </TouchableOpacity>
             </View>
           )}
@@ -296,7 +496,19 @@ export default function SettingsScreen() {
             {customerDataStatus === 'downloaded' && (
               <Row label="Records:" value={customerCount.toLocaleString()} />
             )}
-            {downloading && downloadProgress.total > 0 && (
+            {customerDataStatus === 'downloaded' && (
+              <Row
+                label="Last Updated:"
+                value={lastCustomerSync ? new Date(lastCustomerSync).toLocaleString() : 'Unknown'}
+              />
+            )}
+            {!downloading && pendingImport && (
+              <Row
+                label="Interrupted:"
+                value={`${pendingImport.current.toLocaleString()} / ${pendingImport.total.toLocaleString()}`}
+              />
+            )}
+            {(downloading || updatingCustomers) && downloadProgress.total > 0 && (
               <Row
                 label="Progress:"
                 value={`${downloadProgress.current.toLocaleString()} / ${downloadProgress.total.toLocaleString()}`}
@@ -304,13 +516,27 @@ export default function SettingsScreen() {
             )}
           </View>
 
-          {downloading ? (
+          {downloading || updatingCustomers ? (
             <View style={styles.loadingRow}>
               <ActivityIndicator size="small" color="#1f3a8a" />
-              <Text style={styles.loadingText}>Downloading...</Text>
+              <Text style={styles.loadingText}>{updatingCustomers ? 'Updating...' : 'Downloading...'}</Text>
             </View>
           ) : (
             <>
+              {customerDataStatus === 'downloaded' && lastCustomerSync && (
+                <>
+                  <TouchableOpacity 
+                    style={[styles.primaryBtn, (mapDownloading || mapUnzipping) && styles.primaryBtnDisabled]} 
+                    activeOpacity={0.85} 
+                    onPress={handleUpdateClientData}
+                    disabled={mapDownloading || mapUnzipping}
+                  >
+                    <Ionicons name="sync-outline" size={18} color="#fff" style={{ marginRight: 8 }} />
+                    <Text style={styles.primaryBtnText}>Update Customer Data</Text>
+                  </TouchableOpacity>
+                  <View style={{ height: 8 }} />
+                </>
+              )}
               <TouchableOpacity 
                 style={[styles.primaryBtn, (mapDownloading || mapUnzipping) && styles.primaryBtnDisabled]} 
                 activeOpacity={0.85} 
@@ -319,7 +545,9 @@ export default function SettingsScreen() {
               >
                 <Ionicons name="download-outline" size={18} color="#fff" style={{ marginRight: 8 }} />
                 <Text style={styles.primaryBtnText}>
-                  {(mapDownloading || mapUnzipping) ? 'Download Client Data (Waiting...)' : 'Download Client Data'}
+                  {(mapDownloading || mapUnzipping)
+                    ? 'Download Client Data (Waiting...)'
+                    : pendingImport ? 'Resume Client Data Download' : 'Download Client Data'}
                 </Text>
               </TouchableOpacity>
               {(mapDownloading || mapUnzipping) && (
@@ -340,6 +568,81 @@ export default function SettingsScreen() {
           )}
         </View>
 
+        {/* Offline Data Check Card */}
+        <View style={styles.sheet}>
+          <View style={styles.cardHeaderRow}>
+            <View style={styles.detailIcon}>
+              <Ionicons name="shield-checkmark-outline" size={18} color="#1f3a8a" />
+            </View>
+            <Text style={styles.sheetTitle}>Offline Data Check</Text>
+          </View>
+
+          {checkMessage ? (
+            <View style={styles.loadingRow}>
+              <ActivityIndicator size="small" color="#1f3a8a" />
+              <Text style={styles.loadingText}>{checkMessage}</Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.primaryBtn, { marginTop: 8 }]}
+              activeOpacity={0.85}
+              onPress={handleVerifyOfflineData}
+            >
+              <Ionicons name="checkmark-done-outline" size={18} color="#fff" style={{ marginRight: 8 }} />
+              <Text style={styles.primaryBtnText}>Verify Offline Data</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Duplicate Report Check Card */}
+        <View style={styles.sheet}>
+          <View style={styles.cardHeaderRow}>
+            <View style={styles.detailIcon}>
+              <Ionicons name="copy-outline" size={18} color="#1f3a8a" />
+            </View>
+            <Text style={styles.sheetTitle}>Duplicate Report Check</Text>
+          </View>
+          <Text style={styles.choiceHint}>
+            Before sending, warn about reports of the same meter or leak type this close and this recent.
+          </Text>
+
+          <View style={styles.itemRow}>
+            <Text style={[styles.itemLabel, { width: 90 }]}>Radius</Text>
+            <View style={styles.choiceRow}>
+              {DUPLICATE_RADIUS_OPTIONS.map(meters => {
+                const active = duplicateCheck.radiusMeters === meters;
+                return (
+                  <TouchableOpacity
+                    key={meters}
+                    style={[styles.choiceChip, active && styles.choiceChipActive]}
+                    onPress={() => setDuplicateCheck({ radiusMeters: meters })}
+                  >
+                    <Text style={[styles.choiceChipText, active && styles.choiceChipTextActive]}>{meters}m</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.itemRow}>
+            <Text style={[styles.itemLabel, { width: 90 }]}>Time Window</Text>
+            <View style={styles.choiceRow}>
+              {DUPLICATE_WINDOW_OPTIONS.map(({ hours, label }) => {
+                const active = duplicateCheck.windowHours === hours;
+                return (
+                  <TouchableOpacity
+                    key={hours}
+                    style={[styles.choiceChip, active && styles.choiceChipActive]}
+                    onPress={() => setDuplicateCheck({ windowHours: hours })}
+                  >
+                    <Text style={[styles.choiceChipText, active && styles.choiceChipTextActive]}>{label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+
         {/* `Notification` Settings Card */}
         <View style={styles.sheet}>
           <View style={styles.cardHeaderRow}>
@@ -373,10 +676,154 @@ export default function SettingsScreen() {
             <Text style={styles.sheetTitle}>General Settings</Text>
           </View>
           <View style={{ marginTop: 8 }}>
-            <Row label="App Version" value="1.4" />
+            <TouchableOpacity activeOpacity={1} onPress={handleVersionTap}>
+              <Row label="App Version" value="1.4" />
+            </TouchableOpacity>
+            {environment.id !== 'production' && <Row label="Environment" value={environment.label} />}
           </View>
         </View>
 
+        {/* Mock Server Card (mock environment only) */}
+        {environment.id === 'mock' && (
+          <View style={styles.sheet}>
+            <View style={styles.cardHeaderRow}>
+              <View style={styles.detailIcon}>
+                <Ionicons name="flask-outline" size={18} color="#1f3a8a" />
+              </View>
+              <Text style={styles.sheetTitle}>Mock Server</Text>
+            </View>
+            <Text style={styles.choiceHint}>Requests are answered on this device from fixture data.</Text>
+
+            <View style={styles.itemRow}>
+              <Text style={[styles.itemLabel, { width: 90 }]}>Latency</Text>
+              <View style={styles.choiceRow}>
+                {MOCK_LATENCY_OPTIONS.map(({ ms, label }) => {
+                  const active = mockServer.latencyMs === ms;
+                  return (
+                    <TouchableOpacity
+                      key={ms}
+                      style={[styles.choiceChip, active && styles.choiceChipActive]}
+                      onPress={() => setMockServer({ latencyMs: ms })}
+                    >
+                      <Text style={[styles.choiceChipText, active && styles.choiceChipTextActive]}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={styles.itemRow}>
+              <Text style={[styles.itemLabel, { width: 90 }]}>Failure</Text>
+              <View style={styles.choiceRow}>
+                {MOCK_FAILURE_OPTIONS.map(({ failure, label }) => {
+                  const active = mockServer.failure === failure;
+                  return (
+                    <TouchableOpacity
+                      key={failure}
+                      style={[styles.choiceChip, active && styles.choiceChipActive]}
+                      onPress={() => setMockServer({ failure })}
+                    >
+                      <Text style={[styles.choiceChipText, active && styles.choiceChipTextActive]}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={[styles.choiceRow, { marginTop: 12 }]}>
+              <TouchableOpacity
+                style={styles.choiceChip}
+                onPress={() => runMockAction(async () => {
+                  await expireMockAccessTokens();
+                  return 'Access token expired; the next request refreshes it.';
+                })}
+              >
+                <Text style={styles.choiceChipText}>Expire Token (401)</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.choiceChip}
+                onPress={() => runMockAction(async () => {
+                  await revokeMockSession();
+                  return 'Session revoked; the next request signs you out.';
+                })}
+              >
+                <Text style={styles.choiceChipText}>Revoke Session</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.choiceChip}
+                onPress={() => runMockAction(async () => {
+                  const advanced = await advanceMockReports();
+                  return `${advanced} reports moved to their next status. Pull to refresh, or wait for the next status check.`;
+                })}
+              >
+                <Text style={styles.choiceChipText}>Advance Report Statuses</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.choiceChip}
+                onPress={() => runMockAction(async () => {
+                  await resetMockData();
+                  return 'Mock reports reset to the fixtures.';
+                })}
+              >
+                <Text style={styles.choiceChipText}>Reset Mock Data</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Environment Card (hidden; privileged users only) */}
+        {showEnvironmentSwitch && (
+          <View style={styles.sheet}>
+            <View style={styles.cardHeaderRow}>
+              <View style={styles.detailIcon}>
+                <Ionicons name="server-outline" size={18} color="#1f3a8a" />
+              </View>
+              <Text style={styles.sheetTitle}>Environment</Text>
+            </View>
+            <Text style={styles.choiceHint}>Currently using {environment.apiUrl}</Text>
+
+            <View style={styles.itemRow}>
+              <View style={styles.choiceRow}>
+                {ENVIRONMENT_OPTIONS.map(({ id, label }) => {
+                  const active = selectedEnvironment === id;
+                  return (
+                    <TouchableOpacity
+                      key={id}
+                      style={[styles.choiceChip, active && styles.choiceChipActive]}
+                      onPress={() => setSelectedEnvironment(id)}
+                    >
+                      <Text style={[styles.choiceChipText, active && styles.choiceChipTextActive]}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {selectedEnvironment === 'custom' && (
+              <TextInput
+                style={styles.urlInput}
+                placeholder="https://mock-server.local:8080"
+                placeholderTextColor="#9ca3af"
+                value={customApiUrl}
+                onChangeText={setCustomApiUrl}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryBtn, environmentUnchanged && styles.primaryBtnDisabled]}
+              activeOpacity={0.85}
+              disabled={environmentUnchanged}
+              onPress={handleSwitchEnvironment}
+            >
+              <Ionicons name="swap-horizontal-outline" size={18} color="#fff" style={{ marginRight: 8 }} />
+              <Text style={styles.primaryBtnText}>Switch Environment</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Logout button at bottom */}
         <View style={{ paddingHorizontal: 16, marginTop: 12 }}>
           <TouchableOpacity
@@ -450,6 +897,30 @@ const styles = StyleSheet.create({
   itemLabel: { color: '#6b7280', width: 140, fontSize: 12 },
   itemValue: { color: '#111827', fontWeight: '700' },
 
+  choiceHint: { color: '#6b7280', fontSize: 12, marginTop: 8 },
+  choiceRow: { flex: 1, flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  choiceChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  choiceChipActive: { backgroundColor: '#1f3a8a', borderColor: '#1f3a8a' },
+  choiceChipText: { color: '#374151', fontSize: 12, fontWeight: '600' },
+  choiceChipTextActive: { color: '#fff' },
+  urlInput: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#111827',
+  },
+
   detailIcon: {
     width: 34,
     height: 34,
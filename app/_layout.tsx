@@ -1,41 +1,62 @@
 import { useEffect, useState } from "react";
-import { Stack, Redirect, usePathname } from "expo-router";
+import { Stack, Redirect, usePathname, router } from "expo-router";
 import { View, ActivityIndicator } from "react-native";
 import { useAuthStore } from "../utils/authStore";
-
-// Dynamically import notifications to handle Expo Go limitations
-let Notifications: any = null;
-try {
-  Notifications = require('expo-notifications');
-  
-  // Configure notification handler only if available
-  // All foreground alerts/banners/sounds are suppressed — progress notifications
-  // should only appear silently in the notification shade, not as pop-ups.
-  Notifications.setNotificationHandler({
-    handleNotification: async () => ({
-      shouldShowAlert: false,
-      shouldPlaySound: false,
-      shouldSetBadge: false,
-      shouldShowBanner: false,
-      shouldShowList: false,
-    }),
-  });
-} catch (error) {
-  console.warn('[App] expo-notifications not available. Notifications disabled in Expo Go.');
-}
+// Defines the background sync task; must be imported at startup
+import { registerBackgroundSync, startConnectivitySync } from "../services/backgroundSync";
+import MapSelfCheck from "../components/ui/mapSelfCheck";
+// Also configures how notifications are shown while the app is open
+import { addReportStatusOpenedListener } from "../services/notificationService";
+import { startDashboardPolling } from "../utils/dashboardStore";
 
 export default function Layout() {
   const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
+  const empId = useAuthStore((s) => s.user?.empId);
   const pathname = usePathname();
+  // Report opened from a status notification, shown once past splash/login
+  const [pendingReportId, setPendingReportId] = useState<string | null>(null);
+
+  // Keep queued reports flowing once signed in: periodic background task + reconnect listener
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    registerBackgroundSync();
+    return startConnectivitySync();
+  }, [isAuthenticated]);
+
+  // Report status updates: poll the dashboard and open a report when its notification is tapped
+  useEffect(() => {
+    if (!isAuthenticated || !empId) return;
+
+    const removeOpened = addReportStatusOpenedListener(({ reportId }) => setPendingReportId(reportId));
+    const stopPolling = startDashboardPolling(empId);
+
+    return () => {
+      removeOpened();
+      stopPolling();
+    };
+  }, [isAuthenticated, empId]);
 
   // Allow access to splash screen and login without authentication check
   const publicRoutes = ['/screens/splashLoading', '/login', '/'];
   const isPublicRoute = publicRoutes.includes(pathname);
 
+  // Splash replaces the stack when it finishes, so wait until it has
+  useEffect(() => {
+    if (!pendingReportId || !isAuthenticated || isPublicRoute) return;
+    router.push({ pathname: "/screens/reportDetail", params: { id: pendingReportId } });
+    setPendingReportId(null);
+  }, [pendingReportId, isAuthenticated, isPublicRoute]);
+
   // Redirect to splash if not authenticated and not on a public route
   if (!isAuthenticated && !isPublicRoute) {
     return <Redirect href="/screens/splashLoading" />;
   }
 
-  return <Stack screenOptions={{ headerShown: false }} />;
+  return (
+    <>
+      <Stack screenOptions={{ headerShown: false }} />
+      {/* Confirms once per launch that the bundled map engine renders offline */}
+      <MapSelfCheck />
+    </>
+  );
 }
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
-import { View, Text, StyleSheet, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ScrollView, Alert } from 'react-native';
 import { router } from 'expo-router';
 import { useAuthStore } from '@/utils/authStore';
 import { useSettingsStore } from '@/utils/settingsStore';
 import { useMapStore } from '@/utils/mapStore';
 import { useReportsStore } from '@/utils/reportsStore';
+import { BUILD_ENVIRONMENT, useEnvironmentStore } from '@/utils/environment';
 
 export default function LoginPage() {
     const [username, setUsername] = useState('');
@@ -14,7 +15,8 @@ export default function LoginPage() {
     const [showPassword, setShowPassword] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const { login, isLoading } = useAuthStore();
+    const { login, isLoading, sessionExpired, resetEnvironment } = useAuthStore();
+    const { environment, isOverridden } = useEnvironmentStore();
     const { checkCustomerData, loadOfflineMapPreference } = useSettingsStore();
     const { checkExistingMap } = useMapStore();
     const { initialize: initializeReports } = useReportsStore();
@@ -34,7 +36,13 @@ export default function LoginPage() {
         try {
             console.log('[login] attempting', { username });
             await login(username, password);
-            
+
+            // Session expired mid-task: return to the screen the user was on
+            if (sessionExpired && router.canGoBack()) {
+                router.back();
+                return;
+            }
+
             // Navigate to splash loading screen instead of loading data here
             router.replace("/screens/splashLoading");
         } catch (error) {
@@ -43,6 +51,18 @@ export default function LoginPage() {
         }
     };
 
+    // The override is only reachable from Settings, so a server nobody can sign in to needs a way back here
+    const onResetEnvironment = () => {
+        Alert.alert(
+            `Use ${BUILD_ENVIRONMENT.label}?`,
+            `This app is set to ${environment.apiUrl}. Switch back to ${BUILD_ENVIRONMENT.apiUrl}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Reset', onPress: () => { resetEnvironment(); } },
+            ]
+        );
+    };
+
     return (
         <KeyboardAvoidingView 
             style={styles.page}
@@ -66,6 +86,12 @@ export default function LoginPage() {
 
                     <Text style={styles.title}>LEAK ALERT</Text>
 
+                    {sessionExpired && (
+                        <Text style={styles.sessionNotice}>
+                            Your session has expired. Log in again to continue where you left off.
+                        </Text>
+                    )}
+
                     {/* Native form */}
                     <View style={{ gap: 12 }}>
                         <View style={styles.inputRow}>
@@ -121,6 +147,13 @@ export default function LoginPage() {
                         <Text style={{ color: '#6c6c6c' }}>© DAVAO CITY WATER DISTRICT</Text>
                         <Text style={{ fontSize: 12, marginTop: 4, color: '#999' }}>ver. 1.3</Text>
                     </View>
+
+                    {isOverridden && (
+                        <TouchableOpacity onPress={onResetEnvironment} style={styles.environmentNotice}>
+                            <Text style={styles.environmentNoticeText}>Server: {environment.label} ({environment.apiUrl})</Text>
+                            <Text style={styles.environmentResetText}>Reset to {BUILD_ENVIRONMENT.label}</Text>
+                        </TouchableOpacity>
+                    )}
                 </View>
             </ScrollView>
         </KeyboardAvoidingView>
@@ -155,6 +188,13 @@ const styles = StyleSheet.create({
         fontSize: 20,
         fontWeight: '600',
     },
+    sessionNotice: {
+        textAlign: 'center',
+        color: '#b45309',
+        marginTop: -12,
+        marginBottom: 16,
+        fontSize: 13,
+    },
     inputRow: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -197,4 +237,18 @@ const styles = StyleSheet.create({
         marginTop: 36,
         alignItems: 'center',
     },
+    environmentNotice: {
+        marginTop: 16,
+        alignItems: 'center',
+    },
+    environmentNoticeText: {
+        fontSize: 12,
+        color: '#b45309',
+    },
+    environmentResetText: {
+        fontSize: 13,
+        marginTop: 4,
+        color: '#1f3a8a',
+        fontWeight: '600',
+    },
 });
\ No newline at end of file
@@ -52,7 +52,8 @@ export default function DraftReportsScreen() {
               const payload = createLeakReportPayload({
                 meterNumber: draft.meterNumber,
                 accountNumber: draft.accountNumber,
-                address: draft.address,
+                // A pinned report without a meter reference is reported at its landmark
+                address: draft.pinned && !draft.address ? draft.landmark : draft.address,
                 dma: draft.dma,
                 wss: draft.wss ?? 0,
                 coordinates: draft.coordinates,
@@ -107,6 +108,7 @@ export default function DraftReportsScreen() {
         wss: draft.wss ?? 0,
         coords: draft.coordinates,
         draftId: draft.id, // Pass the draft ID so form knows it's an edit
+        ...(draft.pinned && { pinned: '1' }),
       }
     });
   };
@@ -174,12 +176,12 @@ export default function DraftReportsScreen() {
                 <View style={styles.draftDetails}>
                   <View style={styles.detailRow}>
                     <Ionicons name="speedometer-outline" size={14} color="#6b7280" />
-                    <Text style={styles.detailText}>Meter: {draft.meterNumber}</Text>
+                    <Text style={styles.detailText}>Meter: {draft.meterNumber || 'None (pinned location)'}</Text>
                   </View>
                   <View style={styles.detailRow}>
                     <Ionicons name="location-outline" size={14} color="#6b7280" />
                     <Text style={styles.detailText} numberOfLines={1}>
-                      {draft.address}
+                      {draft.pinned && !draft.address ? draft.coordinates : draft.address}
                     </Text>
                   </View>
                   {draft.landmark && (
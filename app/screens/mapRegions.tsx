@@ -0,0 +1,345 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useMapStore } from '@/utils/mapStore';
+import { InstalledMapRegion, MapManifestEntry, formatMapSize, hasRegionUpdate } from '@/utils/mapRegions';
+
+const STATUS_CONFIG = {
+  installed: { label: 'Installed', color: '#10b981', bg: '#d1fae5', icon: 'checkmark-circle-outline' as const },
+  update: { label: 'Update available', color: '#f59e0b', bg: '#fef3c7', icon: 'arrow-up-circle-outline' as const },
+  available: { label: 'Not installed', color: '#6b7280', bg: '#f3f4f6', icon: 'cloud-download-outline' as const },
+  installing: { label: 'Installing', color: '#3b82f6', bg: '#dbeafe', icon: 'sync-outline' as const },
+  paused: { label: 'Paused', color: '#f59e0b', bg: '#fef3c7', icon: 'pause-circle-outline' as const },
+};
+
+type RegionRow = {
+  id: string;
+  name: string;
+  entry: MapManifestEntry | null;  // Null if the region is no longer in the manifest
+  installed: InstalledMapRegion | null;
+};
+
+/** Manifest regions first (in manifest order), then installed regions the manifest no longer lists */
+function buildRows(manifest: MapManifestEntry[], regions: InstalledMapRegion[]): RegionRow[] {
+  const rows: RegionRow[] = manifest.map(entry => ({
+    id: entry.id,
+    name: entry.name,
+    entry,
+    installed: regions.find(r => r.id === entry.id) ?? null,
+  }));
+  for (const region of regions) {
+    if (!rows.some(row => row.id === region.id)) {
+      rows.push({ id: region.id, name: region.name, entry: null, installed: region });
+    }
+  }
+  return rows;
+}
+
+export default function MapRegionsScreen() {
+  const insets = useSafeAreaInsets();
+  const {
+    regions,
+    manifest,
+    isLoadingManifest,
+    manifestError,
+    installingRegionId,
+    isDownloading,
+    isUnzipping,
+    isPaused,
+    downloadProgress,
+    extractProgress,
+    statusMessage,
+    freeSpaceBytes,
+    checkExistingMap,
+    refreshManifest,
+    installRegion,
+    removeRegion,
+    pauseMapDownload,
+    resumeMapDownload,
+    cancelMapInstall,
+  } = useMapStore();
+
+  // A paused download holds its place until it is resumed or cancelled
+  const busy = isDownloading || isUnzipping || isPaused;
+  const rows = buildRows(manifest, regions);
+  const usedBytes = regions.reduce((sum, r) => sum + r.sizeBytes, 0);
+
+  // Store actions, so these never change and the effect runs once
+  useEffect(() => {
+    checkExistingMap().then(refreshManifest);
+  }, [checkExistingMap, refreshManifest]);
+
+  const handleInstall = (entry: MapManifestEntry, isUpdate: boolean) => {
+    if (busy) {
+      Alert.alert('Download in Progress', 'Please wait for the current map download to finish.');
+      return;
+    }
+    if (freeSpaceBytes != null && entry.sizeBytes > 0 && entry.sizeBytes * 2 > freeSpaceBytes) {
+      // A zip needs room for itself and its extracted tiles
+      Alert.alert(
+        'Not Enough Storage',
+        `${entry.name} needs about ${formatMapSize(entry.sizeBytes * 2)} free; ${formatMapSize(freeSpaceBytes)} is available.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      isUpdate ? 'Update Map' : 'Download Map',
+      `${isUpdate ? 'Download the latest version of' : 'Download'} ${entry.name}${entry.sizeBytes > 0 ? ` (${formatMapSize(entry.sizeBytes)})` : ''}? You can continue using the app while it downloads.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: isUpdate ? 'Update' : 'Download', onPress: () => installRegion(entry) },
+      ],
+    );
+  };
+
+  const handleRemove = (region: InstalledMapRegion) => {
+    Alert.alert(
+      'Remove Map',
+      `Delete ${region.name} (${formatMapSize(region.sizeBytes)}) from this device?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => removeRegion(region.id) },
+      ],
+    );
+  };
+
+  return (
+    <View style={styles.page}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: Math.max(insets.top, 12) }]}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color="#000" />
+        </TouchableOpacity>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.headerTitle}>Offline Map Regions</Text>
+          <Text style={styles.headerSubtitle}>
+            {formatMapSize(usedBytes)} used
+            {freeSpaceBytes != null ? ` · ${formatMapSize(freeSpaceBytes)} free` : ''}
+          </Text>
+        </View>
+      </View>
+
+      {manifestError && (
+        <View style={styles.warningBanner}>
+          <Ionicons name="cloud-offline-outline" size={16} color="#92400e" />
+          <Text style={styles.warningText}>{manifestError}. Showing the last known map list.</Text>
+        </View>
+      )}
+
+      <ScrollView
+        contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+        refreshControl={<RefreshControl refreshing={isLoadingManifest} onRefresh={refreshManifest} />}
+      >
+        {rows.map(row => {
+          const installing = installingRegionId === row.id;
+          const update = !!row.installed && !!row.entry && hasRegionUpdate(row.installed, row.entry);
+          const status = STATUS_CONFIG[installing ? (isPaused ? 'paused' : 'installing') : update ? 'update' : row.installed ? 'installed' : 'available'];
+          const progress = isUnzipping ? extractProgress : downloadProgress;
+
+          return (
+            <View key={row.id} style={styles.regionCard}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.regionName}>{row.name}</Text>
+                <View style={[styles.statusBadge, { backgroundColor: status.bg }]}>
+                  <Ionicons name={status.icon} size={14} color={status.color} />
+                  <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+                </View>
+              </View>
+
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Version:</Text>
+                <Text style={styles.infoValue}>
+                  {row.installed?.version ?? (row.installed ? 'Unknown' : '—')}
+                  {update && row.entry?.version ? ` → ${row.entry.version}` : ''}
+                </Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>{row.installed ? 'On device:' : 'Download:'}</Text>
+                <Text style={styles.infoValue}>
+                  {row.installed
+                    ? formatMapSize(row.installed.sizeBytes)
+                    : row.entry?.sizeBytes ? formatMapSize(row.entry.sizeBytes) : '—'}
+                </Text>
+              </View>
+              {row.entry && (
+                <View style={styles.infoRow}>
+                  <Text style={styles.infoLabel}>Zoom:</Text>
+                  <Text style={styles.infoValue}>{row.entry.minZoom}–{row.entry.maxZoom}</Text>
+                </View>
+              )}
+
+              {installing && (
+                <View style={styles.progressSection}>
+                  <Text style={styles.progressLabel}>{statusMessage}</Text>
+                  <View style={styles.progressBar}>
+                    <View style={[styles.progressFill, { width: `${progress}%` }]} />
+                  </View>
+                  <View style={[styles.actionRow, { marginTop: 0 }]}>
+                    {!isUnzipping && (
+                      <TouchableOpacity
+                        style={styles.primaryBtn}
+                        activeOpacity={0.85}
+                        onPress={isPaused ? resumeMapDownload : pauseMapDownload}
+                      >
+                        <Ionicons name={isPaused ? 'play-outline' : 'pause-outline'} size={16} color="#fff" style={{ marginRight: 6 }} />
+                        <Text style={styles.primaryBtnText}>{isPaused ? 'Resume' : 'Pause'}</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.secondaryBtn} activeOpacity={0.85} onPress={cancelMapInstall}>
+                      <Ionicons name="close-circle-outline" size={16} color="#ef4444" style={{ marginRight: 6 }} />
+                      <Text style={styles.removeBtnText}>Cancel</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              {!installing && (
+                <View style={styles.actionRow}>
+                  {row.entry && (!row.installed || update) && (
+                    <TouchableOpacity
+                      style={[styles.primaryBtn, busy && styles.primaryBtnDisabled]}
+                      activeOpacity={0.85}
+                      disabled={busy}
+                      onPress={() => handleInstall(row.entry!, update)}
+                    >
+                      <Ionicons name={update ? 'arrow-up-circle-outline' : 'download-outline'} size={16} color="#fff" style={{ marginRight: 6 }} />
+                      <Text style={styles.primaryBtnText}>{update ? 'Update' : 'Download'}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {row.installed && (
+                    <TouchableOpacity style={styles.secondaryBtn} activeOpacity={0.85} onPress={() => handleRemove(row.installed!)}>
+                      <Ionicons name="trash-outline" size={16} color="#ef4444" style={{ marginRight: 6 }} />
+                      <Text style={styles.removeBtnText}>Remove</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        {isLoadingManifest && rows.length === 0 && (
+          <ActivityIndicator size="small" color="#1f3a8a" style={{ marginTop: 24 }} />
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  page: { flex: 1, backgroundColor: '#f3f4f6' },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.18)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  headerTitle: { color: '#000', fontWeight: '700', fontSize: 18 },
+  headerSubtitle: { color: '#6b7280', fontSize: 13 },
+
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef3c7',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  warningText: { flex: 1, color: '#92400e', fontSize: 13 },
+
+  regionCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  regionName: { fontSize: 16, fontWeight: '700', color: '#111827', flex: 1, marginRight: 8 },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: { fontSize: 12, fontWeight: '600' },
+
+  infoRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 2 },
+  infoLabel: { width: 90, color: '#6b7280', fontSize: 13 },
+  infoValue: { flex: 1, color: '#111827', fontSize: 13, fontWeight: '500' },
+
+  progressSection: {
+    marginTop: 10,
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    padding: 12,
+  },
+  progressLabel: { fontSize: 13, color: '#6b7280', marginBottom: 8, fontWeight: '500' },
+  progressBar: {
+    height: 8,
+    backgroundColor: '#e5e7eb',
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  progressFill: { height: '100%', backgroundColor: '#1f3a8a', borderRadius: 4 },
+
+  actionRow: { flexDirection: 'row', gap: 8, marginTop: 10 },
+  primaryBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#1f3a8a',
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  primaryBtnDisabled: { opacity: 0.5 },
+  primaryBtnText: { color: '#fff', fontWeight: '700' },
+  secondaryBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  removeBtnText: { color: '#ef4444', fontWeight: '700' },
+});
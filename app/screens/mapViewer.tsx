@@ -8,7 +8,7 @@ import { useMapStore } from '@/utils/mapStore';
 
 export default function MapViewerScreen() {
   const insets = useSafeAreaInsets();
-  const mapTilesPath = useMapStore((s) => s.mapTilesPath);
+  const regions = useMapStore((s) => s.regions);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -23,7 +23,7 @@ export default function MapViewerScreen() {
       </View>
 
       <MapViewer
-        tilesPath={mapTilesPath}
+        regions={regions}
         useOfflineMap={true}
       />
     </SafeAreaView>
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import LeafletMap from '@/components/ui/maps';
+import { useAuthStore } from '@/utils/authStore';
+import { useDashboardStore } from '@/utils/dashboardStore';
+import { useMapStore } from '@/utils/mapStore';
+import {
+  LEAK_TYPE_LABELS,
+  REPORT_STATUSES,
+  getReportStatusKey,
+  getStatusTimeline,
+  parseReportGeometry,
+  reportImageUrl,
+} from '@/services/leakReportsService';
+
+function formatDate(dateStr: string): string {
+  const d = new Date(dateStr);
+  if (isNaN(d.getTime())) return dateStr;
+  return d.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function ReportDetailScreen() {
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const user = useAuthStore((s) => s.user);
+  const report = useDashboardStore((s) => s.reports.find(r => r.id === id) ?? null);
+  const isLoading = useDashboardStore((s) => s.isLoading);
+  const error = useDashboardStore((s) => s.error);
+  const fetchDashboard = useDashboardStore((s) => s.fetchDashboard);
+  const mapReady = useMapStore((s) => s.isReady);
+  const mapRegions = useMapStore((s) => s.regions);
+  const [previewImage, setPreviewImage] = useState<string | null>(null);
+
+  // Refresh on open so the status is current
+  useEffect(() => {
+    if (user?.empId) fetchDashboard(user.empId);
+  }, [user?.empId, fetchDashboard]);
+
+  const header = (
+    <View style={[styles.header, { paddingTop: Math.max(insets.top, 12) }]}>
+      <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+        <Ionicons name="arrow-back" size={22} color="#000" />
+      </TouchableOpacity>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.headerTitle}>Report Details</Text>
+        {report?.refNo ? <Text style={styles.headerSubtitle}>Ref: {report.refNo}</Text> : null}
+      </View>
+      {isLoading && <ActivityIndicator size="small" color="#1f3a8a" />}
+    </View>
+  );
+
+  if (!report) {
+    return (
+      <View style={styles.page}>
+        {header}
+        <View style={styles.emptyState}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#1f3a8a" />
+          ) : (
+            <>
+              <Ionicons name="document-outline" size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>Report not found</Text>
+              <Text style={styles.emptyText}>{error || 'It may have been removed, or the list has not loaded yet.'}</Text>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  const status = REPORT_STATUSES[getReportStatusKey(report.dispatchStat)];
+  const timeline = getStatusTimeline(report.dispatchStat);
+  const position = parseReportGeometry(report.geometry);
+  const images = [
+    { label: 'Leak Photo 1', uri: reportImageUrl(report.leakImage1) },
+    { label: 'Leak Photo 2', uri: reportImageUrl(report.leakImage2) },
+    { label: 'Landmark Photo', uri: reportImageUrl(report.landmarkImage) },
+  ].filter((image): image is { label: string; uri: string } => !!image.uri);
+
+  const fields: { label: string; value: string }[] = [
+    { label: 'Reference No.', value: report.refNo },
+    { label: 'Leak Type', value: LEAK_TYPE_LABELS[report.leakTypeId] || 'Unknown' },
+    { label: 'JMS Code', value: report.jmsCode },
+    { label: 'DMA', value: report.dmaCode },
+    { label: 'Priority', value: String(report.priority ?? '') },
+    { label: 'Leak Covering', value: String(report.leakCovering ?? '') },
+    { label: 'Reported', value: formatDate(report.dtReported) },
+    { label: 'Meter', value: report.referenceMtr },
+    { label: 'Location', value: report.reportedLocation },
+    { label: 'Landmark', value: report.reportedLandmark },
+    { label: 'Reported By', value: report.reporterName },
+    { label: 'Contact Number', value: report.reportedNumber },
+    { label: 'Remarks', value: report.remarks },
+  ];
+
+  return (
+    <View style={styles.page}>
+      {header}
+
+      <ScrollView contentContainerStyle={{ paddingBottom: 24 }}>
+        {/* Status timeline */}
+        <View style={styles.sheet}>
+          <View style={styles.titleRow}>
+            <Text style={styles.sheetTitle}>{LEAK_TYPE_LABELS[report.leakTypeId] || 'Unknown'} Leak</Text>
+            <View style={[styles.statusBadge, { backgroundColor: `${status.color}20` }]}>
+              <Text style={[styles.statusBadgeText, { color: status.color }]}>{status.label}</Text>
+            </View>
+          </View>
+
+          {timeline.map((step, index) => {
+            const color = step.state === 'upcoming' ? '#d1d5db' : step.color;
+            return (
+              <View key={step.key} style={styles.timelineRow}>
+                <View style={styles.timelineRail}>
+                  <View style={[styles.timelineDot, { backgroundColor: step.state === 'upcoming' ? '#fff' : color, borderColor: color }]}>
+                    {step.state === 'done' && <Ionicons name="checkmark" size={10} color="#fff" />}
+                  </View>
+                  {index < timeline.length - 1 && <View style={[styles.timelineLine, step.state === 'done' && { backgroundColor: color }]} />}
+                </View>
+                <Text style={[styles.timelineLabel, step.state === 'current' && { color: step.color, fontWeight: '700' }, step.state === 'upcoming' && { color: '#9ca3af' }]}>
+                  {step.label}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Location */}
+        {position && (
+          <View style={[styles.sheet, { padding: 0, overflow: 'hidden' }]}>
+            <LeafletMap
+              center={position}
+              zoom={17}
+              markers={[{ id: report.id, position, title: report.reportedLandmark || report.refNo }]}
+              offlineRegions={mapReady ? mapRegions : undefined}
+              style={{ height: 180, borderRadius: 0 }}
+            />
+          </View>
+        )}
+
+        {/* Fields */}
+        <View style={styles.sheet}>
+          <Text style={styles.sheetTitle}>Details</Text>
+          {fields.filter(f => f.value && f.value.trim() !== '').map(f => (
+            <View key={f.label} style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>{f.label}</Text>
+              <Text style={styles.fieldValue}>{f.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Photos */}
+        {images.length > 0 && (
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>Photos</Text>
+            <View style={styles.photoRow}>
+              {images.map(image => (
+                <TouchableOpacity key={image.label} style={styles.photoItem} activeOpacity={0.85} onPress={() => setPreviewImage(image.uri)}>
+                  <Image source={{ uri: image.uri }} style={styles.photo} contentFit="cover" transition={150} />
+                  <Text style={styles.photoLabel}>{image.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Full-size photo */}
+      <Modal visible={!!previewImage} transparent animationType="fade" onRequestClose={() => setPreviewImage(null)}>
+        <TouchableOpacity style={styles.previewOverlay} activeOpacity={1} onPress={() => setPreviewImage(null)}>
+          {previewImage && <Image source={{ uri: previewImage }} style={styles.previewImage} contentFit="contain" />}
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  page: { flex: 1, backgroundColor: '#f3f4f6' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.18)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  headerTitle: { color: '#000', fontWeight: '700', fontSize: 18 },
+  headerSubtitle: { color: '#6b7280', fontSize: 12 },
+
+  sheet: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+  },
+  sheetTitle: { fontSize: 16, fontWeight: '700', color: '#111827' },
+  titleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 },
+  statusBadge: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12 },
+  statusBadgeText: { fontSize: 12, fontWeight: '700' },
+
+  timelineRow: { flexDirection: 'row', alignItems: 'flex-start' },
+  timelineRail: { width: 24, alignItems: 'center' },
+  timelineDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  timelineLine: { width: 2, height: 22, backgroundColor: '#e5e7eb' },
+  timelineLabel: { marginLeft: 8, color: '#374151', fontSize: 14, lineHeight: 16 },
+
+  fieldRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  fieldLabel: { width: 120, color: '#6b7280', fontSize: 12 },
+  fieldValue: { flex: 1, color: '#111827', fontWeight: '600' },
+
+  photoRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 12, marginTop: 12 },
+  photoItem: { width: 96 },
+  photo: { width: 96, height: 96, borderRadius: 12, backgroundColor: '#f3f4f6' },
+  photoLabel: { color: '#6b7280', fontSize: 11, marginTop: 4 },
+  previewOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  previewImage: { width: '100%', height: '80%' },
+
+  emptyState: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 32 },
+  emptyTitle: { marginTop: 12, fontSize: 16, fontWeight: '600', color: '#374151' },
+  emptyText: { marginTop: 4, color: '#6b7280', textAlign: 'center' },
+});
@@ -1,10 +1,12 @@
 import React, { useMemo, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, ActivityIndicator, Modal } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, ActivityIndicator, Modal, Switch } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 
 import Upload from '@/components/ui/upload';
+import DuplicateReportsModal from '@/components/ui/duplicateReportsModal';
+import { findDuplicateReports, attachRemarks, submitAnywayRemarks, DuplicateCandidate } from '@/services/duplicateReports';
 import { useReportForm } from '@/utils/reportFormStore';
 import { useLeakReport, createLeakReportPayload } from '@/hooks/mobileReportLeak';
 import { useAuthStore } from '@/utils/authStore';
@@ -20,9 +22,13 @@ export default function ReportScreen() {
     wss?: string;
     coords?: string;
     draftId?: string; // Add draftId to know if we're editing
+    pinned?: string; // '1' when reporting at a dropped pin; the meter fields are then an optional reference
   }>();
   const { user } = useAuthStore();
   const [showLeakTypeDropdown, setShowLeakTypeDropdown] = useState(false);
+  // Possible duplicates found when Send Report was pressed; the modal shows while non-empty
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
 
   const {
     leakType, setLeakType,
@@ -41,6 +47,11 @@ export default function ReportScreen() {
   // Check if we're editing an existing draft
   const isEditingDraft = !!params.draftId;
 
+  // Pin mode: the report is at `coords`, and the nearest meter can be left off
+  const isPinned = params.pinned === '1';
+  const hasReference = isPinned && !!params.id;
+  const [includeReference, setIncludeReference] = useState(true);
+
   // Leak type options with user-friendly display names (IDs are hidden from users)
 const leakTypeOptions = [
   { value: 'Air Release', label: 'Air Release' },
@@ -59,14 +70,30 @@ const leakTypeOptions = [
     return fullName || user.username || user.empId || 'Unknown User';
   }, [user]);
 
-  const selectedMeter = useMemo(() => ({
-    id: params.id ?? '—',
-    account: params.account ?? '—',
-    address: params.address ?? '—',
-    dma: params.dma ?? '—',
-    wss: parseInt(params.wss ?? '0', 10) || 0,
-    coords: params.coords ?? '—',
-  }), [params]);
+  const selectedMeter = useMemo(() => {
+    if (isPinned) {
+      const useReference = hasReference && includeReference;
+      return {
+        id: useReference ? params.id ?? '' : '',
+        account: useReference ? params.account ?? '' : '',
+        address: useReference ? params.address ?? '' : '',
+        dma: useReference ? params.dma ?? '' : '',
+        wss: useReference ? parseInt(params.wss ?? '0', 10) || 0 : 0,
+        coords: params.coords ?? '—',
+      };
+    }
+    return {
+      id: params.id ?? '—',
+      account: params.account ?? '—',
+      address: params.address ?? '—',
+      dma: params.dma ?? '—',
+      wss: parseInt(params.wss ?? '0', 10) || 0,
+      coords: params.coords ?? '—',
+    };
+  }, [params, isPinned, hasReference, includeReference]);
+
+  // Without a meter there's no meter address, so the landmark is the reported location
+  const reportedAddress = isPinned && !selectedMeter.address ? landmark : selectedMeter.address;
 
   const submit = async () => {
     // Validate required fields
@@ -95,13 +122,41 @@ const leakTypeOptions = [
       return;
     }
 
+    // Look for an existing report of the same leak before sending another one
+    setIsCheckingDuplicates(true);
+    let candidates: DuplicateCandidate[] = [];
+    try {
+      candidates = await findDuplicateReports({
+        coordinates: selectedMeter.coords,
+        meterNumber: selectedMeter.id,
+        leakType,
+        empId: user?.empId || '',
+        excludeDraftId: params.draftId,
+      });
+    } catch (error) {
+      console.warn('[ReportForm] Duplicate check failed, sending anyway:', error);
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+
+    if (candidates.length > 0) {
+      setDuplicates(candidates);
+      return;
+    }
+    await sendReport();
+  };
+
+  const sendReport = async (remarks?: string) => {
+    // Checked by `submit`; repeated so the types narrow
+    if (!leakType || !location) return;
+
     console.log('[ReportForm] User object:', user);
     console.log('[ReportForm] Creating payload...');
 
     const payload = createLeakReportPayload({
       meterNumber: selectedMeter.id,
       accountNumber: selectedMeter.account,
-      address: selectedMeter.address,
+      address: reportedAddress,
       dma: selectedMeter.dma,
       wss: selectedMeter.wss,
       coordinates: selectedMeter.coords,
@@ -113,6 +168,7 @@ const leakTypeOptions = [
       leakPhotos: leakPhotos,
       landmarkPhotos: landmarkPhotos,
       empId: user?.empId || '',
+      remarks,
     });
 
     console.log('[ReportForm] Payload created successfully');
@@ -145,6 +201,7 @@ const leakTypeOptions = [
         meterNumber: selectedMeter.id,
         accountNumber: selectedMeter.account,
         address: selectedMeter.address,
+        pinned: isPinned,
         dma: selectedMeter.dma,
         wss: selectedMeter.wss,
         coordinates: selectedMeter.coords,
@@ -189,25 +246,53 @@ const leakTypeOptions = [
 
       <ScrollView contentContainerStyle={{ paddingBottom: 24 }}>
         {/* Selected Meter - Compact View */}
-        <View style={styles.sheet}>
-          <View style={styles.compactMeterRow}>
-            <View style={styles.meterInfoLeft}>
-              <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
-                <Ionicons name="speedometer-outline" size={16} color="#6b7280" style={{ marginRight: 4 }} />
-                <Text style={styles.compactLabel}>Meter:</Text>
-              </View>
-              <Text style={styles.compactValue}>{selectedMeter.id}</Text>
+        {isPinned ? (
+          <View style={styles.sheet}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
+              <Ionicons name="pin-outline" size={16} color="#6b7280" style={{ marginRight: 4 }} />
+              <Text style={styles.compactLabel}>Pinned Location:</Text>
             </View>
-            
-            <View style={styles.meterInfoRight}>
-              <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
-                <Ionicons name="location-outline" size={16} color="#6b7280" style={{ marginRight: 4 }} />
-                <Text style={styles.compactLabel}>Address:</Text>
+            <Text style={styles.compactValue}>{selectedMeter.coords}</Text>
+
+            {hasReference ? (
+              <View style={styles.referenceRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.compactLabel}>Nearest Meter (optional reference)</Text>
+                  <Text style={[styles.compactValue, !includeReference && styles.referenceExcluded]}>{params.id}</Text>
+                  <Text style={[styles.referenceAddress, !includeReference && styles.referenceExcluded]} numberOfLines={1}>{params.address}</Text>
+                </View>
+                <Switch
+                  value={includeReference}
+                  onValueChange={setIncludeReference}
+                  trackColor={{ false: '#d1d5db', true: '#93c5fd' }}
+                  thumbColor={includeReference ? '#1f3a8a' : '#f9fafb'}
+                />
+              </View>
+            ) : (
+              <Text style={[styles.referenceAddress, { marginTop: 8 }]}>No meter reference. The landmark is sent as the reported location.</Text>
+            )}
+          </View>
+        ) : (
+          <View style={styles.sheet}>
+            <View style={styles.compactMeterRow}>
+              <View style={styles.meterInfoLeft}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
+                  <Ionicons name="speedometer-outline" size={16} color="#6b7280" style={{ marginRight: 4 }} />
+                  <Text style={styles.compactLabel}>Meter:</Text>
+                </View>
+                <Text style={styles.compactValue}>{selectedMeter.id}</Text>
+              </View>
+              
+              <View style={styles.meterInfoRight}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
+                  <Ionicons name="location-outline" size={16} color="#6b7280" style={{ marginRight: 4 }} />
+                  <Text style={styles.compactLabel}>Address:</Text>
+                </View>
+                <Text style={styles.compactValue} numberOfLines={2}>{selectedMeter.address}</Text>
               </View>
-              <Text style={styles.compactValue} numberOfLines={2}>{selectedMeter.address}</Text>
             </View>
           </View>
-        </View>
+        )}
 
         {/* Info note */}
         <View style={[styles.inlineInfo, { marginHorizontal: 16, marginTop: 12 }]}> 
@@ -350,12 +435,12 @@ const leakTypeOptions = [
             <Text style={[styles.inlineInfoText, { color: '#374151', marginLeft: 8 }]}>Report will be sent to our team</Text>
           </View>
           <TouchableOpacity 
-            style={[styles.reportBtn, isSubmitting && styles.reportBtnDisabled]} 
+            style={[styles.reportBtn, (isSubmitting || isCheckingDuplicates) && styles.reportBtnDisabled]} 
             activeOpacity={0.9} 
             onPress={submit}
-            disabled={isSubmitting}
+            disabled={isSubmitting || isCheckingDuplicates}
           >
-            {isSubmitting ? (
+            {isSubmitting || isCheckingDuplicates ? (
               <ActivityIndicator color="#fff" size="small" />
             ) : (
               <Text style={styles.reportBtnText}>Send Report</Text>
@@ -382,6 +467,20 @@ const leakTypeOptions = [
         </View>
       </ScrollView>
 
+      <DuplicateReportsModal
+        candidates={duplicates}
+        onCancel={() => setDuplicates([])}
+        onAttach={(candidate) => {
+          setDuplicates([]);
+          sendReport(attachRemarks(candidate));
+        }}
+        onSubmitAnyway={(reason) => {
+          const remarks = submitAnywayRemarks(duplicates, reason);
+          setDuplicates([]);
+          sendReport(remarks);
+        }}
+      />
+
       {/* Leak Type Dropdown Modal */}
       <Modal
         visible={showLeakTypeDropdown}
@@ -489,6 +588,23 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginTop: 2,
   },
+  referenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  referenceAddress: {
+    color: '#6b7280',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  referenceExcluded: {
+    color: '#9ca3af',
+    textDecorationLine: 'line-through',
+  },
 
   detailRow: {
     flexDirection: 'row',
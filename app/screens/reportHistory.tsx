@@ -0,0 +1,414 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, ActivityIndicator, RefreshControl, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuthStore } from '@/utils/authStore';
+import { useDashboardStore } from '@/utils/dashboardStore';
+import { LeakReport, LEAK_TYPE_LABELS, REPORT_STATUSES, ReportStatusKey, getReportStatusKey } from '@/services/leakReportsService';
+import { EMPTY_HISTORY_FILTERS, HistoryFilters, HistorySort, filterReportHistory, parseDateInput, reportDmas } from '@/hooks/reportHistory';
+
+const PAGE_SIZE = 20;
+
+type DateRange = 'all' | '7' | '30' | '90' | 'custom';
+
+const DATE_RANGES: { value: DateRange; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const SORTS: { value: HistorySort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'status', label: 'Status' },
+  { value: 'leakType', label: 'Leak type' },
+];
+
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatDate(dateStr: string): string {
+  const d = new Date(dateStr);
+  if (isNaN(d.getTime())) return dateStr;
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/** One labelled row of single-choice chips; tapping the active chip clears it when `clearable` */
+function ChipRow<T extends string | number>({ label, options, value, onChange, clearable = true }: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T | null;
+  onChange: (value: T | null) => void;
+  clearable?: boolean;
+}) {
+  return (
+    <View style={{ marginTop: 10 }}>
+      <Text style={styles.filterLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 6 }}>
+        {options.map(option => {
+          const active = option.value === value;
+          return (
+            <TouchableOpacity
+              key={String(option.value)}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange(active && clearable ? null : option.value)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+export default function ReportHistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const user = useAuthStore((s) => s.user);
+  const { reports, isLoading, error, lastUpdated, isFromCache, fetchDashboard } = useDashboardStore();
+
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [pageCount, setPageCount] = useState(1);
+
+  useEffect(() => {
+    if (user?.empId) fetchDashboard(user.empId);
+  }, [user?.empId, fetchDashboard]);
+
+  const updateFilters = (change: Partial<HistoryFilters>) => {
+    setFilters(current => ({ ...current, ...change }));
+    setPageCount(1);
+  };
+
+  const changeDateRange = (range: DateRange | null) => {
+    const value = range ?? 'all';
+    setDateRange(value);
+    if (value === 'all') {
+      updateFilters({ from: null, to: null });
+    } else if (value === 'custom') {
+      updateFilters({ from: parseDateInput(customFrom) ? customFrom : null, to: parseDateInput(customTo) ? customTo : null });
+    } else {
+      const from = new Date();
+      from.setDate(from.getDate() - Number(value) + 1);
+      updateFilters({ from: toDateInput(from), to: null });
+    }
+  };
+
+  const changeCustomDate = (end: 'from' | 'to', text: string) => {
+    if (end === 'from') setCustomFrom(text);
+    else setCustomTo(text);
+    // Apply once it's a whole date; an empty field leaves that end open
+    if (text === '' || parseDateInput(text)) updateFilters({ [end]: text || null });
+  };
+
+  const filtered = useMemo(() => filterReportHistory(reports, filters), [reports, filters]);
+  const visible = filtered.slice(0, pageCount * PAGE_SIZE);
+  const dmas = useMemo(() => reportDmas(reports), [reports]);
+  const activeFilterCount = [filters.status, filters.leakTypeId, filters.dma, filters.from || filters.to].filter(v => v != null && v !== '').length;
+
+  const renderReport = ({ item }: { item: LeakReport }) => {
+    const status = REPORT_STATUSES[getReportStatusKey(item.dispatchStat)];
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.85}
+        onPress={() => router.push({ pathname: '/screens/reportDetail', params: { id: item.id } })}
+      >
+        <View style={styles.cardHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.cardTitle}>{LEAK_TYPE_LABELS[item.leakTypeId] || 'Unknown'} Leak</Text>
+            <Text style={styles.cardSubtitle}>{formatDate(item.dtReported)}</Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: `${status.color}20` }]}>
+            <Text style={[styles.statusBadgeText, { color: status.color }]}>{status.label}</Text>
+          </View>
+        </View>
+        {!!item.refNo && <Text style={styles.cardText}>Ref: {item.refNo}</Text>}
+        {!!item.referenceMtr && <Text style={styles.cardText}>Meter: {item.referenceMtr}</Text>}
+        {!!item.reportedLandmark && <Text style={styles.cardText} numberOfLines={1}>Landmark: {item.reportedLandmark}</Text>}
+        {!!item.dmaCode && <Text style={styles.cardText}>DMA: {item.dmaCode}</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.page}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: Math.max(insets.top, 12) }]}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color="#000" />
+        </TouchableOpacity>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.headerTitle}>Report History</Text>
+          <Text style={styles.headerSubtitle}>
+            {filtered.length === reports.length ? `${reports.length} reports` : `${filtered.length} of ${reports.length} reports`}
+          </Text>
+        </View>
+      </View>
+
+      {/* Offline copy notice */}
+      {isFromCache && lastUpdated && (
+        <View style={styles.notice}>
+          <Ionicons name="cloud-offline-outline" size={16} color="#92400e" />
+          <Text style={styles.noticeText}>Offline copy from {formatDate(lastUpdated)}</Text>
+        </View>
+      )}
+
+      {/* Search + filter toggle */}
+      <View style={styles.searchRow}>
+        <View style={styles.searchInputWrap}>
+          <Ionicons name="search-outline" size={18} color="#9ca3af" style={{ marginRight: 6 }} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search ref no., meter or landmark..."
+            placeholderTextColor="#9ca3af"
+            value={filters.query}
+            onChangeText={query => updateFilters({ query })}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {filters.query.length > 0 && (
+            <TouchableOpacity onPress={() => updateFilters({ query: '' })} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Ionicons name="close-circle" size={18} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity style={[styles.filterBtn, showFilters && styles.filterBtnActive]} onPress={() => setShowFilters(v => !v)}>
+          <Ionicons name="options-outline" size={18} color={showFilters ? '#fff' : '#1f3a8a'} />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {showFilters && (
+        <View style={styles.filterPanel}>
+          <ChipRow<ReportStatusKey>
+            label="Status"
+            options={(Object.keys(REPORT_STATUSES) as ReportStatusKey[]).map(key => ({ value: key, label: REPORT_STATUSES[key].label }))}
+            value={filters.status}
+            onChange={status => updateFilters({ status })}
+          />
+          <ChipRow<number>
+            label="Leak Type"
+            options={Object.entries(LEAK_TYPE_LABELS).map(([id, label]) => ({ value: Number(id), label }))}
+            value={filters.leakTypeId}
+            onChange={leakTypeId => updateFilters({ leakTypeId })}
+          />
+          {dmas.length > 0 && (
+            <ChipRow<string>
+              label="DMA"
+              options={dmas.map(dma => ({ value: dma, label: dma }))}
+              value={filters.dma}
+              onChange={dma => updateFilters({ dma })}
+            />
+          )}
+          <ChipRow<DateRange> label="Date" options={DATE_RANGES} value={dateRange} onChange={changeDateRange} clearable={false} />
+          {dateRange === 'custom' && (
+            <View style={styles.dateRow}>
+              <TextInput
+                style={styles.dateInput}
+                placeholder="From (YYYY-MM-DD)"
+                placeholderTextColor="#9ca3af"
+                value={customFrom}
+                onChangeText={text => changeCustomDate('from', text)}
+                keyboardType="numbers-and-punctuation"
+              />
+              <TextInput
+                style={styles.dateInput}
+                placeholder="To (YYYY-MM-DD)"
+                placeholderTextColor="#9ca3af"
+                value={customTo}
+                onChangeText={text => changeCustomDate('to', text)}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          )}
+          <ChipRow<HistorySort> label="Sort" options={SORTS} value={filters.sort} onChange={sort => updateFilters({ sort: sort ?? 'newest' })} clearable={false} />
+          {activeFilterCount > 0 && (
+            <TouchableOpacity
+              style={styles.clearFilters}
+              onPress={() => {
+                setDateRange('all');
+                updateFilters({ ...EMPTY_HISTORY_FILTERS, query: filters.query, sort: filters.sort });
+              }}
+            >
+              <Text style={styles.clearFiltersText}>Clear filters</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <FlatList
+        data={visible}
+        keyExtractor={item => item.id}
+        renderItem={renderReport}
+        contentContainerStyle={{ paddingBottom: 24 }}
+        onEndReached={() => {
+          if (visible.length < filtered.length) setPageCount(count => count + 1);
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isLoading}
+            onRefresh={() => user?.empId && fetchDashboard(user.empId)}
+            colors={['#1f3a8a']}
+          />
+        }
+        ListEmptyComponent={
+          isLoading ? null : (
+            <View style={styles.emptyState}>
+              <Ionicons name="document-outline" size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>{reports.length === 0 ? 'No reports yet' : 'No matching reports'}</Text>
+              <Text style={styles.emptyText}>
+                {reports.length === 0 ? error || 'Reports you submit will appear here.' : 'Try a different search or fewer filters.'}
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          visible.length < filtered.length ? (
+            <ActivityIndicator size="small" color="#1f3a8a" style={{ marginVertical: 16 }} />
+          ) : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  page: { flex: 1, backgroundColor: '#f3f4f6' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.18)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  headerTitle: { color: '#000', fontWeight: '700', fontSize: 18 },
+  headerSubtitle: { color: '#6b7280', fontSize: 12 },
+
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#fef3c7',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 10,
+    padding: 8,
+  },
+  noticeText: { color: '#92400e', fontSize: 12 },
+
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    gap: 8,
+  },
+  searchInputWrap: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+  },
+  searchInput: { flex: 1, fontSize: 14, color: '#111827' },
+  filterBtn: {
+    width: 42,
+    height: 42,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterBtnActive: { backgroundColor: '#1f3a8a' },
+  filterBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#ef4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterBadgeText: { color: '#fff', fontSize: 10, fontWeight: '700' },
+
+  filterPanel: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 16,
+    padding: 12,
+    paddingTop: 2,
+  },
+  filterLabel: { color: '#6b7280', fontSize: 12, marginBottom: 6 },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipActive: { backgroundColor: '#1f3a8a', borderColor: '#1f3a8a' },
+  chipText: { color: '#374151', fontSize: 12, fontWeight: '600' },
+  chipTextActive: { color: '#fff' },
+  dateRow: { flexDirection: 'row', gap: 8, marginTop: 8 },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 13,
+    color: '#111827',
+  },
+  clearFilters: { alignSelf: 'flex-end', marginTop: 10 },
+  clearFiltersText: { color: '#ef4444', fontWeight: '600', fontSize: 12 },
+
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 16,
+    padding: 14,
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 1,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
+  cardTitle: { color: '#111827', fontWeight: '700' },
+  cardSubtitle: { color: '#6b7280', fontSize: 12 },
+  cardText: { color: '#374151', fontSize: 12, marginTop: 2 },
+  statusBadge: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12 },
+  statusBadgeText: { fontSize: 12, fontWeight: '700' },
+
+  emptyState: { alignItems: 'center', justifyContent: 'center', padding: 32 },
+  emptyTitle: { marginTop: 12, fontSize: 16, fontWeight: '600', color: '#374151' },
+  emptyText: { marginTop: 4, color: '#6b7280', textAlign: 'center' },
+});
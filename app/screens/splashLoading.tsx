@@ -9,7 +9,7 @@ import { useReportsStore } from '@/utils/reportsStore';
 
 export default function SplashLoadingScreen() {
   const { restoreSession, isAuthenticated } = useAuthStore();
-  const { checkCustomerData, loadOfflineMapPreference } = useSettingsStore();
+  const { checkCustomerData, loadOfflineMapPreference, loadDuplicateCheckPreference } = useSettingsStore();
   const { checkExistingMap } = useMapStore();
   const { initialize: initializeReports } = useReportsStore();
   
@@ -74,6 +74,7 @@ export default function SplashLoadingScreen() {
         try {
           // Load offline map preference first
           await loadOfflineMapPreference();
+          await loadDuplicateCheckPreference();
           
           setLoadingStatus('Checking customer data...');
           
@@ -22,6 +22,7 @@ const STATUS_CONFIG = {
   syncing: { label: 'Syncing', color: '#3b82f6', bg: '#dbeafe', icon: 'sync-outline' as const },
   synced: { label: 'Synced', color: '#10b981', bg: '#d1fae5', icon: 'checkmark-circle-outline' as const },
   failed: { label: 'Failed', color: '#ef4444', bg: '#fee2e2', icon: 'close-circle-outline' as const },
+  rejected: { label: 'Rejected', color: '#b91c1c', bg: '#fee2e2', icon: 'ban-outline' as const },
 };
 
 function formatDate(dateStr: string): string {
@@ -39,6 +40,17 @@ function formatDate(dateStr: string): string {
   }
 }
 
+/** Describe when (or whether) a failed report will be retried automatically */
+function describeRetry(report: CachedLeakReport): string | null {
+  if (report.syncStatus === 'rejected') return 'Not retried automatically. Fix the report or retry manually.';
+  if (report.syncStatus !== 'failed') return null;
+  const attempts = report.attemptCount ?? 0;
+  if (!report.nextRetryAt) return `Gave up after ${attempts} attempt${attempts === 1 ? '' : 's'}. Retry manually.`;
+  const next = new Date(report.nextRetryAt);
+  const time = next.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  return `Attempt ${attempts} failed. Next retry ${next.getTime() <= Date.now() ? 'on next sync' : `after ${time}`}.`;
+}
+
 export default function SubmittedReportsScreen() {
   const insets = useSafeAreaInsets();
   const [activeTab, setActiveTab] = useState<FilterTab>('all');
@@ -50,11 +62,12 @@ export default function SubmittedReportsScreen() {
     isSyncing,
     loadCachedReports,
     syncAllPending,
-    syncReport,
+    retryNow,
     clearSyncedReports,
     getPendingCount,
     getSyncedCount,
     getFailedCount,
+    getRejectedCount,
   } = useMobileReportStore();
 
   useEffect(() => {
@@ -62,7 +75,7 @@ export default function SubmittedReportsScreen() {
   }, []);
 
   const pendingCount = getPendingCount();
-  const failedCount = getFailedCount();
+  const failedCount = getFailedCount() + getRejectedCount();
   const syncedCount = getSyncedCount();
   const unsyncedCount = pendingCount + failedCount;
 
@@ -71,7 +84,7 @@ export default function SubmittedReportsScreen() {
       if (activeTab === 'all') return true;
       if (activeTab === 'pending') return r.syncStatus === 'pending' || r.syncStatus === 'syncing';
       if (activeTab === 'synced') return r.syncStatus === 'synced';
-      if (activeTab === 'failed') return r.syncStatus === 'failed';
+      if (activeTab === 'failed') return r.syncStatus === 'failed' || r.syncStatus === 'rejected';
       return true;
     })
     .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -96,7 +109,8 @@ export default function SubmittedReportsScreen() {
         {
           text: 'Sync All',
           onPress: async () => {
-            const result = await syncAllPending();
+            // Manual sync ignores the backoff; rejected reports still need "Retry now"
+            const result = await syncAllPending({ force: true });
             Alert.alert(
               'Sync Complete',
               `${result.success} synced successfully${result.failed > 0 ? `, ${result.failed} failed` : ''}.`,
@@ -108,11 +122,12 @@ export default function SubmittedReportsScreen() {
   };
 
   const handleSyncOne = async (id: string) => {
-    const success = await syncReport(id);
+    const success = await retryNow(id);
     if (success) {
       Alert.alert('Success', 'Report synced successfully.');
     } else {
-      Alert.alert('Failed', 'Could not sync report. Please try again.');
+      const report = useMobileReportStore.getState().cachedReports.find(r => r.id === id);
+      Alert.alert('Failed', report?.syncError || 'Could not sync report. Please try again.');
     }
   };
 
@@ -232,6 +247,7 @@ export default function SubmittedReportsScreen() {
         ) : (
           filteredReports.map((report) => {
             const status = STATUS_CONFIG[report.syncStatus] || STATUS_CONFIG.pending;
+            const retryInfo = describeRetry(report);
             return (
               <View key={report.id} style={styles.reportCard}>
                 {/* Status badge + date */}
@@ -277,21 +293,22 @@ export default function SubmittedReportsScreen() {
                   {report.syncError && (
                     <View style={styles.errorRow}>
                       <Ionicons name="warning-outline" size={14} color="#ef4444" style={{ marginRight: 6 }} />
-                      <Text style={styles.errorText} numberOfLines={2}>{report.syncError}</Text>
+                      <Text style={styles.errorText} numberOfLines={3}>{report.syncError}</Text>
                     </View>
                   )}
+                  {retryInfo && <Text style={styles.retryText}>{retryInfo}</Text>}
                 </View>
 
                 {/* Actions */}
                 <View style={styles.cardActions}>
-                  {(report.syncStatus === 'pending' || report.syncStatus === 'failed') && (
+                  {(report.syncStatus === 'pending' || report.syncStatus === 'failed' || report.syncStatus === 'rejected') && (
                     <TouchableOpacity
                       style={styles.actionBtn}
                       onPress={() => handleSyncOne(report.id)}
                       disabled={isSyncing}
                     >
                       <Ionicons name="cloud-upload-outline" size={16} color="#1f3a8a" />
-                      <Text style={styles.actionBtnText}>Sync</Text>
+                      <Text style={styles.actionBtnText}>{report.syncStatus === 'pending' ? 'Sync' : 'Retry now'}</Text>
                     </TouchableOpacity>
                   )}
                 </View>
@@ -460,6 +477,7 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
   errorText: { color: '#ef4444', fontSize: 12, flex: 1 },
+  retryText: { color: '#6b7280', fontSize: 11, marginTop: 4 },
 
   cardActions: {
     flexDirection: 'row',
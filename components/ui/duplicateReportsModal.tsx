@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, TextInput, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { DuplicateCandidate } from '@/services/duplicateReports';
+
+export type DuplicateReportsModalProps = {
+  candidates: DuplicateCandidate[];
+  onCancel: () => void;
+  /** Send the new report as additional information on `candidate` */
+  onAttach: (candidate: DuplicateCandidate) => void;
+  /** Send it as a separate report; `reason` goes into its remarks */
+  onSubmitAnyway: (reason: string) => void;
+};
+
+const SOURCE_LABELS: Record<DuplicateCandidate['source'], string> = {
+  server: 'Submitted',
+  queued: 'On this device',
+  draft: 'Your draft',
+};
+
+/** Possible duplicates found before sending a report; visible while there are candidates */
+export default function DuplicateReportsModal({ candidates, onCancel, onAttach, onSubmitAnyway }: DuplicateReportsModalProps) {
+  const [reason, setReason] = useState('');
+
+  const close = (action: () => void) => {
+    setReason('');
+    action();
+  };
+
+  return (
+    <Modal visible={candidates.length > 0} transparent animationType="fade" onRequestClose={() => close(onCancel)}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Ionicons name="copy-outline" size={22} color="#f59e0b" />
+            <Text style={styles.title}>Possible Duplicate</Text>
+          </View>
+          <Text style={styles.subtitle}>
+            {candidates.length === 1 ? 'A report' : `${candidates.length} reports`} close to this location may already cover this leak.
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {candidates.map(c => (
+              <View key={`${c.source}-${c.id}`} style={styles.card}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle}>{c.leakType || 'Unknown'} Leak · {c.status}</Text>
+                  <Text style={styles.cardText}>
+                    {SOURCE_LABELS[c.source]} · {c.distanceMeters.toFixed(0)}m away · {new Date(c.reportedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </Text>
+                  {c.sameMeter && <Text style={[styles.cardText, styles.sameMeter]}>Same meter ({c.meterNumber})</Text>}
+                  {c.landmark !== '' && <Text style={styles.cardText} numberOfLines={1}>Landmark: {c.landmark}</Text>}
+                  {c.source !== 'draft' && <Text style={styles.cardText} numberOfLines={1}>Ref: {c.reference}</Text>}
+                </View>
+                {c.source !== 'draft' && (
+                  <TouchableOpacity style={styles.attachBtn} onPress={() => close(() => onAttach(c))}>
+                    <Ionicons name="link-outline" size={16} color="#1f3a8a" />
+                    <Text style={styles.attachBtnText}>Attach</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.reasonLabel}>Not a duplicate? Say why to submit anyway</Text>
+          <TextInput
+            style={styles.reasonInput}
+            placeholder="e.g. different leak on the same street"
+            placeholderTextColor="#9ca3af"
+            value={reason}
+            onChangeText={setReason}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelBtn} onPress={() => close(onCancel)}>
+              <Text style={styles.cancelBtnText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitBtn, !reason.trim() && styles.submitBtnDisabled]}
+              disabled={!reason.trim()}
+              onPress={() => close(() => onSubmitAnyway(reason))}
+            >
+              <Text style={styles.submitBtnText}>Submit Anyway</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    padding: 20,
+    shadowColor: '#000',
+    shadowOpacity: 0.25,
+    shadowRadius: 20,
+    shadowOffset: { width: 0, height: 10 },
+    elevation: 10,
+  },
+  header: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { fontSize: 18, fontWeight: '700', color: '#111827' },
+  subtitle: { color: '#6b7280', marginTop: 6 },
+  list: { marginTop: 8 },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+  },
+  cardTitle: { color: '#111827', fontWeight: '700' },
+  cardText: { color: '#6b7280', fontSize: 12, marginTop: 2 },
+  sameMeter: { color: '#b45309', fontWeight: '600' },
+  attachBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: '#eef2ff',
+    marginLeft: 8,
+  },
+  attachBtnText: { color: '#1f3a8a', fontWeight: '700', fontSize: 12 },
+  reasonLabel: { color: '#374151', fontWeight: '600', marginTop: 16 },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 6,
+    color: '#111827',
+  },
+  actions: { flexDirection: 'row', gap: 12, marginTop: 16 },
+  cancelBtn: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  cancelBtnText: { color: '#374151', fontWeight: '700' },
+  submitBtn: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 14,
+    backgroundColor: '#1f3a8a',
+  },
+  submitBtnDisabled: { opacity: 0.5 },
+  submitBtnText: { color: '#fff', fontWeight: '700' },
+});
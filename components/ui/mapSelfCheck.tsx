@@ -0,0 +1,92 @@
+import React, { useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { useMapStore } from '@/utils/mapStore';
+import { leafletHtml } from '@/utils/leafletHtml';
+
+// Give up if the page hasn't reported back by then
+const SELF_CHECK_TIMEOUT_MS = 15000;
+
+// A map with a locally drawn tile layer and a default marker: renders only if
+// the bundled Leaflet, its CSS and its marker images all load without a network
+const SELF_CHECK_HTML = leafletHtml({
+  script: `
+    var map = L.map('map', { zoomControl: false, attributionControl: false }).setView([7.1907, 125.4553], 13);
+    var marker = L.marker([7.1907, 125.4553]).addTo(map);
+    var layer = L.gridLayer({ tileSize: 256 });
+    layer.createTile = function() {
+      var tile = document.createElement('canvas');
+      tile.width = tile.height = 256;
+      tile.getContext('2d').fillRect(0, 0, 1, 1);
+      return tile;
+    };
+    layer.on('load', function() {
+      var tiles = document.querySelectorAll('.leaflet-tile-loaded').length;
+      var icon = marker.getElement();
+      var report = function(iconLoaded) {
+        postToApp({ type: 'selfCheck', ok: tiles > 0 && iconLoaded, version: L.version, tiles: tiles, iconLoaded: iconLoaded });
+      };
+      if (icon.complete) {
+        report(icon.naturalWidth > 0);
+      } else {
+        icon.addEventListener('load', function() { report(true); });
+        icon.addEventListener('error', function() { report(false); });
+      }
+    });
+    layer.addTo(map);
+  `,
+});
+
+/**
+ * Startup self-check that the map renders with no connectivity. A hidden
+ * WebView loads the shared Leaflet page with nothing but local resources and
+ * reports whether tiles and markers drew; the result is kept in `useMapStore`
+ * and shown in Settings. Renders nothing once the check has finished.
+ */
+export default function MapSelfCheck() {
+  const mapEngineStatus = useMapStore(s => s.mapEngineStatus);
+  const setMapEngineStatus = useMapStore(s => s.setMapEngineStatus);
+
+  useEffect(() => {
+    if (mapEngineStatus !== 'checking') return;
+    const timer = setTimeout(() => {
+      console.error('[MapSelfCheck] Map page did not report back; bundled Leaflet failed to load');
+      setMapEngineStatus('failed');
+    }, SELF_CHECK_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [mapEngineStatus, setMapEngineStatus]);
+
+  if (mapEngineStatus !== 'checking') return null;
+
+  const handleMessage = (event: any) => {
+    try {
+      const data = JSON.parse(event.nativeEvent.data);
+      if (data.type === 'selfCheck') {
+        console.log(`[MapSelfCheck] Leaflet ${data.version}: ${data.tiles} tile(s), marker icon ${data.iconLoaded ? 'loaded' : 'missing'}`);
+        setMapEngineStatus(data.ok ? 'ok' : 'failed');
+      } else if (data.type === 'mapError') {
+        console.error('[MapSelfCheck] Map page error:', data.message);
+        setMapEngineStatus('failed');
+      }
+    } catch (e) {
+      console.log('[MapSelfCheck] Error parsing message:', e);
+    }
+  };
+
+  return (
+    <View style={styles.hidden} pointerEvents="none">
+      <WebView
+        originWhitelist={['*']}
+        source={{ html: SELF_CHECK_HTML }}
+        javaScriptEnabled
+        onMessage={handleMessage}
+        style={{ flex: 1 }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  // Leaflet only lays out tiles in a map with a real size, so the view is sized but invisible
+  hidden: { position: 'absolute', left: 0, top: 0, width: 64, height: 64, opacity: 0 },
+});
@@ -1,85 +1,257 @@
-import React, { useMemo } from 'react';
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
 import { View, StyleSheet } from 'react-native';
 import { WebView } from 'react-native-webview';
+import type { OfflineTileSource } from '@/utils/mapRegions';
+import { offlineTileLayersScript, useMbtilesTileBridge } from '@/hooks/mbtilesTileBridge';
+import { leafletHtml } from '@/utils/leafletHtml';
 
 export type LatLng = { lat: number; lng: number };
-export type MapMarker = { id: string; position: LatLng; title?: string };
+/** A pin marker, or a coloured dot when `color` is set */
+export type MapMarker = { id: string; position: LatLng; title?: string; color?: string };
+export type MapView = { center: LatLng; zoom: number };
 
 export type LeafletMapProps = {
+  /** Where the map opens; later changes fly the map there without reloading it */
   center: LatLng;
   zoom?: number;
   markers?: MapMarker[];
   /** Optional user location; will show a person marker on the map when provided */
   userLocation?: LatLng;
-  /** Path to offline tiles directory. When set, tiles load from file:// */
-  offlineTilesPath?: string | null;
+  /** A draggable pin, e.g. where a leak away from any meter is being reported */
+  pin?: LatLng | null;
+  /** Installed offline map regions. When non-empty, tiles load from the device instead of OpenStreetMap */
+  offlineRegions?: OfflineTileSource[];
+  onMarkerPress?: (id: string) => void;
+  onMapPress?: (position: LatLng) => void;
+  onLongPress?: (position: LatLng) => void;
+  /** When the user drops `pin` somewhere else after dragging it */
+  onPinMove?: (position: LatLng) => void;
+  /** After every pan or zoom, with the new view */
+  onMoveEnd?: (view: MapView) => void;
   style?: any;
 };
 
-export default function LeafletMap({ center, zoom = 15, markers = [], userLocation, offlineTilesPath, style }: LeafletMapProps) {
-  const useOffline = !!offlineTilesPath;
-
-  const html = useMemo(() => `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8" />
-  <meta name="viewport" content="width=device-width, initial-scale=1" />
-  <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
-  <style>
-    html, body, #map { height: 100%; margin: 0; }
-    .leaflet-container { background: #fff; }
-  </style>
-</head>
-<body>
-  <div id="map"></div>
-  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
-  <script>
-    var center = [${center.lat}, ${center.lng}];
-    var map = L.map('map').setView(center, ${zoom});
-
-    var tileUrl = ${useOffline}
-      ? '${offlineTilesPath}{z}/{x}/{y}.png'
-      : 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
-
-    var attribution = ${useOffline}
-      ? 'Davao Roads &copy; DCWD'
-      : '&copy; OpenStreetMap';
-
-    L.tileLayer(tileUrl, {
-      maxZoom: 19,
-      maxNativeZoom: ${useOffline ? 17 : 19},
-      tileSize: 256,
-      attribution: attribution,
-      errorTileUrl: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
-    }).addTo(map);
+/** Imperative control through a ref, e.g. re-centering on a position the `center` prop already holds */
+export type LeafletMapHandle = {
+  flyTo: (position: LatLng, zoom?: number) => void;
+};
 
-    var markers = ${JSON.stringify(markers)};
-    markers.forEach(function(m) {
-      var mk = L.marker([m.position.lat, m.position.lng]).addTo(map);
-      if (m.title) mk.bindPopup(m.title);
-    });
+/** Commands sent into the page; see `window.__mapCommand` in the page script */
+type MapCommand =
+  | { type: 'setMarkers'; markers: MapMarker[] }
+  | { type: 'moveUser'; position: LatLng | null }
+  | { type: 'setPin'; position: LatLng | null }
+  | { type: 'flyTo'; position: LatLng; zoom?: number };
 
-    ${userLocation ? `
+const NO_REGIONS: OfflineTileSource[] = [];
+const NO_MARKERS: MapMarker[] = [];
+
+// Markers, user location and view changes arrive as commands; events go back as messages
+const BRIDGE_SCRIPT = `
+    var markerLayer = L.layerGroup().addTo(map);
+    var userMarker = null;
     var userIcon = L.divIcon({
       className: 'user-location-icon',
       html: '<div style="width:18px;height:18px;border-radius:50%;background:#2563eb;border:2px solid #ffffff;box-shadow:0 0 6px rgba(37,99,235,0.8);"></div>',
       iconSize: [18, 18],
       iconAnchor: [9, 9],
     });
-    L.marker([${userLocation.lat}, ${userLocation.lng}], { icon: userIcon }).addTo(map);
-    ` : ''}
+    var pinMarker = null;
+    var pinIcon = L.divIcon({
+      className: 'report-pin-icon',
+      html: '<div style="width:26px;height:26px;border-radius:50% 50% 50% 0;background:#ef4444;border:2px solid #ffffff;transform:rotate(-45deg);box-shadow:0 0 6px rgba(0,0,0,0.4);"></div>',
+      iconSize: [26, 26],
+      iconAnchor: [13, 30],
+    });
+
+    window.__mapCommand = function(command) {
+      if (command.type === 'setMarkers') {
+        markerLayer.clearLayers();
+        command.markers.forEach(function(m) {
+          var mk = m.color
+            ? L.circleMarker([m.position.lat, m.position.lng], { radius: 8, color: '#ffffff', weight: 2, fillColor: m.color, fillOpacity: 0.9 })
+            : L.marker([m.position.lat, m.position.lng]);
+          mk.addTo(markerLayer);
+          if (m.title) mk.bindPopup(m.title);
+          mk.on('click', function() { postToApp({ type: 'markerPress', id: m.id }); });
+        });
+      } else if (command.type === 'moveUser') {
+        if (!command.position) {
+          if (userMarker) { userMarker.remove(); userMarker = null; }
+        } else if (userMarker) {
+          userMarker.setLatLng([command.position.lat, command.position.lng]);
+        } else {
+          userMarker = L.marker([command.position.lat, command.position.lng], { icon: userIcon, interactive: false }).addTo(map);
+        }
+      } else if (command.type === 'setPin') {
+        if (!command.position) {
+          if (pinMarker) { pinMarker.remove(); pinMarker = null; }
+        } else if (pinMarker) {
+          pinMarker.setLatLng([command.position.lat, command.position.lng]);
+        } else {
+          pinMarker = L.marker([command.position.lat, command.position.lng], { icon: pinIcon, draggable: true, zIndexOffset: 1000 }).addTo(map);
+          pinMarker.on('dragend', function() {
+            var p = pinMarker.getLatLng();
+            postToApp({ type: 'pinMove', lat: p.lat, lng: p.lng });
+          });
+        }
+      } else if (command.type === 'flyTo') {
+        map.flyTo([command.position.lat, command.position.lng], command.zoom != null ? command.zoom : map.getZoom());
+      }
+    };
 
     map.on('click', function(e) {
-      var payload = { lat: e.latlng.lat, lng: e.latlng.lng };
-      window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'map-click', payload: payload }));
+      postToApp({ type: 'mapPress', lat: e.latlng.lat, lng: e.latlng.lng });
+    });
+    // Long press: native contextmenu on Android, simulated by Leaflet's tapHold on iOS
+    map.on('contextmenu', function(e) {
+      postToApp({ type: 'longPress', lat: e.latlng.lat, lng: e.latlng.lng });
     });
-  </script>
-</body>
-</html>`, [center.lat, center.lng, zoom, markers, userLocation?.lat, userLocation?.lng, offlineTilesPath, useOffline]);
+    map.on('moveend', function() {
+      var c = map.getCenter();
+      postToApp({ type: 'moveend', lat: c.lat, lng: c.lng, zoom: map.getZoom() });
+    });
+
+    postToApp({ type: 'mapReady' });
+`;
+
+/**
+ * Leaflet map in a WebView. The page is built once (and again only when the
+ * offline regions change); everything else is sent to it as commands, so
+ * updates keep the user's pan and zoom.
+ */
+const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(function LeafletMap({
+  center,
+  zoom = 15,
+  markers = NO_MARKERS,
+  userLocation,
+  pin = null,
+  offlineRegions = NO_REGIONS,
+  onMarkerPress,
+  onMapPress,
+  onLongPress,
+  onPinMove,
+  onMoveEnd,
+  style,
+}, ref) {
+  const webViewRef = useRef<WebView>(null);
+  const useOffline = offlineRegions.length > 0;
+  const handleTileRequest = useMbtilesTileBridge(webViewRef, offlineRegions);
+
+  // Commands are held until the page reports `mapReady`
+  const isPageReady = useRef(false);
+  const pendingFlyTo = useRef<MapCommand | null>(null);
+  // The current view, so a rebuilt page opens where the user left it
+  const view = useRef<MapView>({ center, zoom });
+  const latest = useRef({ markers, userLocation, pin });
+  useEffect(() => {
+    latest.current = { markers, userLocation, pin };
+  });
+
+  const send = useCallback((command: MapCommand) => {
+    if (!isPageReady.current) {
+      if (command.type === 'flyTo') pendingFlyTo.current = command;
+      return;
+    }
+    webViewRef.current?.injectJavaScript(`window.__mapCommand(${JSON.stringify(command)}); true;`);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    flyTo: (position, flyZoom) => send({ type: 'flyTo', position, zoom: flyZoom }),
+  }), [send]);
+
+  const html = useMemo(() => leafletHtml({
+    style: `
+    .leaflet-container { background: #fff; }
+    `,
+    script: `
+    var map = L.map('map').setView([${view.current.center.lat}, ${view.current.center.lng}], ${view.current.zoom});
+
+    ${useOffline ? offlineTileLayersScript(offlineRegions, 'map', 'Davao Roads &copy; DCWD') : `
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      maxZoom: 19,
+      maxNativeZoom: 19,
+      tileSize: 256,
+      attribution: '&copy; OpenStreetMap',
+      errorTileUrl: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+    }).addTo(map);
+    `}
+    ${BRIDGE_SCRIPT}
+    `,
+  }), [offlineRegions, useOffline]);
+
+  // Compared by content: callers usually build a new markers array on every render
+  const markersKey = JSON.stringify(markers);
+  useEffect(() => {
+    send({ type: 'setMarkers', markers: latest.current.markers });
+  }, [markersKey, send]);
+
+  useEffect(() => {
+    send({ type: 'moveUser', position: latest.current.userLocation ?? null });
+  }, [userLocation?.lat, userLocation?.lng, send]);
+
+  useEffect(() => {
+    send({ type: 'setPin', position: latest.current.pin });
+  }, [pin?.lat, pin?.lng, send]);
+
+  const isFirstCenter = useRef(true);
+  useEffect(() => {
+    if (isFirstCenter.current) {
+      isFirstCenter.current = false;
+      return;
+    }
+    send({ type: 'flyTo', position: { lat: center.lat, lng: center.lng }, zoom });
+  }, [center.lat, center.lng, zoom, send]);
+
+  const handlePageReady = () => {
+    isPageReady.current = true;
+    send({ type: 'setMarkers', markers: latest.current.markers });
+    send({ type: 'moveUser', position: latest.current.userLocation ?? null });
+    send({ type: 'setPin', position: latest.current.pin });
+    if (pendingFlyTo.current) {
+      send(pendingFlyTo.current);
+      pendingFlyTo.current = null;
+    }
+  };
+
+  const handleMessage = (event: any) => {
+    try {
+      const data = JSON.parse(event.nativeEvent.data);
+      if (handleTileRequest(data)) return;
+
+      switch (data.type) {
+        case 'mapReady':
+          handlePageReady();
+          break;
+        case 'markerPress':
+          onMarkerPress?.(String(data.id));
+          break;
+        case 'mapPress':
+          onMapPress?.({ lat: data.lat, lng: data.lng });
+          break;
+        case 'longPress':
+          onLongPress?.({ lat: data.lat, lng: data.lng });
+          break;
+        case 'pinMove':
+          onPinMove?.({ lat: data.lat, lng: data.lng });
+          break;
+        case 'moveend':
+          view.current = { center: { lat: data.lat, lng: data.lng }, zoom: data.zoom };
+          onMoveEnd?.(view.current);
+          break;
+        case 'mapError':
+          console.error('Map page error:', data.message);
+          break;
+      }
+    } catch (e) {
+      console.log('Error parsing message:', e);
+    }
+  };
 
   return (
     <View style={[styles.container, style]}>
       <WebView
+        ref={webViewRef}
         originWhitelist={["*"]}
         source={{ html }}
         javaScriptEnabled
@@ -87,11 +259,15 @@ export default function LeafletMap({ center, zoom = 15, markers = [], userLocati
         allowFileAccess={true}
         allowUniversalAccessFromFileURLs={true}
         allowingReadAccessToURL={'file://'}
+        onLoadStart={() => { isPageReady.current = false; }}
+        onMessage={handleMessage}
         style={{ flex: 1 }}
       />
     </View>
   );
-}
+});
+
+export default LeafletMap;
 
 const styles = StyleSheet.create({
   container: { height: 240, borderRadius: 16, overflow: 'hidden' },
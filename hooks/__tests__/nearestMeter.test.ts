@@ -0,0 +1,48 @@
+import { NearbyCustomer } from '@/utils/allCustomerData';
+import { distanceInMeters, formatDistance, nearbyCustomersToMeters } from '@/hooks/nearestMeter';
+
+function nearby(meterNumber: string, distanceMeters: number): NearbyCustomer {
+  return {
+    meterNumber,
+    accountNumber: `A-${meterNumber}`,
+    address: 'Bajada, Davao City',
+    dma: 'DMA-01',
+    latitude: 7.0731,
+    longitude: 125.6128,
+    name: 'Juan Dela Cruz',
+    wss: 'Davao',
+    wssCode: 1,
+    connectionClass: 'Residential',
+    status: 'Active',
+    distanceMeters,
+  };
+}
+
+describe('formatDistance', () => {
+  it('uses metres below a kilometre and kilometres above', () => {
+    expect(formatDistance(42.4)).toBe('42m away');
+    expect(formatDistance(999)).toBe('999m away');
+    expect(formatDistance(1000)).toBe('1.0km away');
+    expect(formatDistance(2449)).toBe('2.4km away');
+  });
+});
+
+describe('distanceInMeters', () => {
+  it('measures about 111 m per 0.001° of latitude', () => {
+    expect(distanceInMeters({ lat: 7.0731, lng: 125.6128 }, { lat: 7.0741, lng: 125.6128 })).toBeCloseTo(111.2, 0);
+  });
+});
+
+describe('nearbyCustomersToMeters', () => {
+  it('ranks the customers in order with a formatted distance', () => {
+    const meters = nearbyCustomersToMeters([nearby('M1', 12.3), nearby('M2', 480), nearby('M3', 1520), nearby('M4', 2100)]);
+
+    expect(meters.map(m => [m.rank, m.id, m.distance])).toEqual([
+      [1, 'M1', '12m away'],
+      [2, 'M2', '480m away'],
+      [3, 'M3', '1.5km away'],
+      [4, 'M4', '2.1km away'],
+    ]);
+    expect(meters[0]).toMatchObject({ account: 'A-M1', wss: 1, lat: 7.0731, lng: 125.6128 });
+  });
+});
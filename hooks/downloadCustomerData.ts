@@ -1,57 +1,101 @@
-import { useState, useCallback } from 'react';
 import { fetchCustomerPage, CustomerApiItem } from '@/services/customerData';
-import { encryptName } from '@/services/customerInterceptor';
+import { encryptField, nameSearchTokens } from '@/services/customerInterceptor';
 import { 
   Customer, 
-  clearForBatchImport, 
-  saveBatchCustomerData, 
   initializeDatabase,
-  getCustomerCount
+  getCustomerCount,
+  replaceCustomerAccounts,
+  getLastCustomerSync,
+  setLastCustomerSync,
+  beginStagedImport,
+  getStagedImport,
+  getStagedImportPages,
+  saveStagedPage,
+  commitStagedImport,
+  discardStagedImport,
 } from '@/utils/allCustomerData';
 
 export type FetchCustomerDataResult = {
   success: boolean;
   count: number;
-  error?: string;
-};
-
-export type DownloadProgress = {
-  isDownloading: boolean;
-  fetched: number;
-  saved: number;
-  total: number;
-  phase: 'idle' | 'initializing' | 'fetching' | 'saving' | 'complete' | 'error';
+  removed?: number;  // Delta sync only: accounts deleted locally because the server marked them removed
   error?: string;
 };
 
 /**
  * Convert API customer item to local Customer format
- * Encrypts the customer name before storing locally
+ * Encrypts the customer name and address before storing locally
  */
 function mapApiCustomerToLocal(apiCustomer: CustomerApiItem): Customer {
   return {
     meterNumber: apiCustomer.meterNumber || '',
     accountNumber: apiCustomer.accountNumber || '',
-    address: apiCustomer.address || '',
+    address: encryptField(apiCustomer.address || ''),
     dma: apiCustomer.dma || '',
     latitude: apiCustomer.latitude || 0,
     longitude: apiCustomer.longitude || 0,
-    name: encryptName(apiCustomer.name || ''),
+    name: encryptField(apiCustomer.name || ''),
     wss: apiCustomer.wss || '',
     wssCode: apiCustomer.wssCode ?? 0,
     connectionClass: apiCustomer.connectionClass || '',
     status: apiCustomer.status || '',
+    nameTokens: nameSearchTokens(apiCustomer.name || ''),
+    addressTokens: nameSearchTokens(apiCustomer.address || ''),
   };
 }
 
+// Account statuses that mean the meter no longer exists, from build config
+// (comma-separated, case-insensitive); these rows are dropped locally. Empty by
+// default: until the backend confirms its status values every account is kept,
+// so a meter can always still be reported.
+const REMOVED_STATUSES = String(process.env.EXPO_PUBLIC_REMOVED_ACCOUNT_STATUSES ?? '')
+  .split(',')
+  .map(status => status.trim().toLowerCase())
+  .filter(Boolean);
+
+function isRemovedAccount(customer: Customer): boolean {
+  return REMOVED_STATUSES.includes((customer.status || '').trim().toLowerCase());
+}
+
 // Number of concurrent requests for parallel downloading
 const CONCURRENT_REQUESTS = 10; // Fetch 10 pages in parallel
 const PAGE_SIZE = 2000;
-const INSERT_BATCH_SIZE = 5000; // Insert 5000 records per transaction
+
+// Per-page retry: 1s, 2s, 4s (+ jitter) before the download gives up and waits to be resumed
+const MAX_PAGE_ATTEMPTS = 4;
+const PAGE_RETRY_BASE_MS = 1000;
+
+// An unfinished import older than this is restarted rather than resumed
+const MAX_RESUME_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Fetch one page, retrying with exponential backoff */
+async function fetchPageWithRetry(pageIndex: number): Promise<CustomerApiItem[]> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const page = await fetchCustomerPage({ pageIndex, pageSize: PAGE_SIZE });
+      return page.data.data;
+    } catch (error: any) {
+      if (attempt >= MAX_PAGE_ATTEMPTS) throw error;
+      const delay = PAGE_RETRY_BASE_MS * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4);
+      console.warn(`[CustomerData] Page ${pageIndex} failed (attempt ${attempt}), retrying in ${Math.round(delay)}ms:`, error?.message);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/** Map, encrypt and checkpoint one page in the staging table */
+async function savePage(pageIndex: number, items: CustomerApiItem[]): Promise<void> {
+  const customers = items.map(mapApiCustomerToLocal).filter(c => !isRemovedAccount(c));
+  await saveStagedPage(pageIndex, customers, items.length);
+}
 
 /**
- * Fetch and save customer data from the API endpoint with parallel fetching
- * and batched inserts for optimal performance.
+ * Download the full customer list into a staging table and swap it in once complete.
+ *
+ * Every saved page is checkpointed, so an interrupted download (failed page,
+ * app killed) resumes from the missing pages on the next call. The existing
+ * customer data stays usable until the finished import has been verified
+ * against the server's `count` and swapped in.
  */
 export async function fetchAndSaveCustomerData(
   onProgress?: (current: number, total: number) => void
@@ -60,105 +104,95 @@ export async function fetchAndSaveCustomerData(
     // Pre-initialize the local database
     await initializeDatabase();
 
-    onProgress?.(0, 100);
-
-    // First, get the total count from the first page
-    const firstPage = await fetchCustomerPage({ pageIndex: 1, pageSize: PAGE_SIZE });
-    // Use 'count' field as totalCount seems to always be 0
-    const totalCount = firstPage.data.count || firstPage.data.totalCount;
-
-    if (totalCount === 0) {
-      return {
-        success: false,
-        count: 0,
-        error: 'No customer data available from the server.',
-      };
+    let staged = await getStagedImport();
+    if (staged && (staged.pageSize !== PAGE_SIZE || Date.now() - Date.parse(staged.startedAt) > MAX_RESUME_AGE_MS)) {
+      console.log('[CustomerData] Discarding stale unfinished import');
+      await discardStagedImport();
+      staged = null;
     }
 
-    onProgress?.(5, 100);
+    if (staged) {
+      console.log(`[CustomerData] Resuming import started ${staged.startedAt}`);
+    } else {
+      // Taken before the first request so changes made during the download are picked up by the next update
+      const startedAt = new Date().toISOString();
 
-    // Clear existing data before import
-    await clearForBatchImport();
+      // First, get the total count from the first page
+      const firstPage = await fetchCustomerPage({ pageIndex: 1, pageSize: PAGE_SIZE });
+      // Use 'count' field as totalCount seems to always be 0
+      const totalCount = firstPage.data.count || firstPage.data.totalCount;
 
-    onProgress?.(10, 100);
+      if (totalCount === 0) {
+        return {
+          success: false,
+          count: 0,
+          error: 'No customer data available from the server.',
+        };
+      }
 
-    // Calculate total pages
-    const totalPages = Math.ceil(totalCount / PAGE_SIZE);
-    
-    let totalFetched = 0;
-    let totalSaved = 0;
-    let pendingInserts: Customer[] = [];
-
-    // Save first page immediately
-    if (firstPage.data.data.length > 0) {
-      const customers = firstPage.data.data.map(mapApiCustomerToLocal);
-      pendingInserts.push(...customers);
-      totalFetched += customers.length;
+      staged = { startedAt, totalCount, pageSize: PAGE_SIZE };
+      await beginStagedImport(staged);
+      await savePage(1, firstPage.data.data);
     }
 
-    // Process remaining pages in parallel batches
-    if (totalPages > 1) {
-      const remainingPages = Array.from({ length: totalPages - 1 }, (_, i) => i + 2);
-      
-      // Process pages in parallel batches
-      for (let i = 0; i < remainingPages.length; i += CONCURRENT_REQUESTS) {
-        const batch = remainingPages.slice(i, i + CONCURRENT_REQUESTS);
-        
-        // Fetch all pages in this batch concurrently
-        const pagePromises = batch.map(pageIndex => 
-          fetchCustomerPage({ pageIndex, pageSize: PAGE_SIZE })
-            .then(page => ({ 
-              pageIndex, 
-              data: page.data.data.map(mapApiCustomerToLocal), // Map and encrypt immediately
-              error: null 
-            }))
-            .catch(error => ({ 
-              pageIndex, 
-              data: [], 
-              error 
-            }))
-        );
-        
-        const results = await Promise.all(pagePromises);
-        
-        // Collect all fetched data
-        for (const result of results) {
-          if (result.error) {
-            continue;
-          }
-          
-          if (result.data.length > 0) {
-            totalFetched += result.data.length;
-            pendingInserts.push(...result.data);
-          }
-        }
+    const { totalCount } = staged;
+    const totalPages = Math.ceil(totalCount / PAGE_SIZE);
 
-        // Insert when batch size reached or last batch
-        if (pendingInserts.length >= INSERT_BATCH_SIZE || (i + CONCURRENT_REQUESTS) >= remainingPages.length) {
-          await saveBatchCustomerData(pendingInserts, true);
-          totalSaved += pendingInserts.length;
-          
-          // Clear pending inserts
-          pendingInserts = [];
+    const donePages = await getStagedImportPages();
+    const done = new Set(donePages.map(p => p.pageIndex));
+    let received = donePages.reduce((sum, p) => sum + p.rowCount, 0);
+    onProgress?.(received, totalCount);
+
+    const remainingPages = Array.from({ length: totalPages }, (_, i) => i + 1).filter(p => !done.has(p));
+    let failedPages = 0;
+
+    // Process remaining pages in parallel batches; each page is saved as soon as it arrives
+    for (let i = 0; i < remainingPages.length; i += CONCURRENT_REQUESTS) {
+      const batch = remainingPages.slice(i, i + CONCURRENT_REQUESTS);
+
+      const results = await Promise.allSettled(
+        batch.map(async pageIndex => {
+          const items = await fetchPageWithRetry(pageIndex);
+          await savePage(pageIndex, items);
+          received += items.length;
+          onProgress?.(received, totalCount);
+        })
+      );
+
+      for (const [index, result] of results.entries()) {
+        if (result.status === 'rejected') {
+          failedPages++;
+          console.error(`[CustomerData] Page ${batch[index]} failed after ${MAX_PAGE_ATTEMPTS} attempts:`, result.reason?.message);
         }
-        
-        // Update progress (10-95% range for fetching and saving)
-        const progress = 10 + Math.floor((totalSaved / totalCount) * 85);
-        onProgress?.(Math.min(progress, 95), 100);
       }
     }
 
-    // Insert any remaining records
-    if (pendingInserts.length > 0) {
-      await saveBatchCustomerData(pendingInserts, true);
-      totalSaved += pendingInserts.length;
+    if (failedPages > 0) {
+      return {
+        success: false,
+        count: 0,
+        error: `Download interrupted (${failedPages} page${failedPages > 1 ? 's' : ''} failed). Tap download again to resume.`,
+      };
     }
 
-    onProgress?.(100, 100);
+    // Every row the server promised must have arrived before the old data is replaced
+    if (received !== totalCount) {
+      console.error(`[CustomerData] Count mismatch: received ${received}, server reported ${totalCount}`);
+      await discardStagedImport();
+      return {
+        success: false,
+        count: 0,
+        error: `Downloaded ${received.toLocaleString()} of ${totalCount.toLocaleString()} records; the server data changed during the download. Please try again.`,
+      };
+    }
+
+    await commitStagedImport(staged);
+    const count = await getCustomerCount();
+    console.log(`[CustomerData] Import complete: ${count} customers`);
 
     return { 
       success: true, 
-      count: totalSaved 
+      count,
     };
 
   } catch (error: any) {
@@ -172,186 +206,101 @@ export async function fetchAndSaveCustomerData(
 }
 
 /**
- * Get the current download status
+ * Fetch only customers changed since the last complete download/update and
+ * replace those accounts' rows. Accounts the server reports as removed are deleted locally.
+ * Any failed page aborts the update without moving the last-sync time, so the
+ * next update asks for the same window again.
  */
-export async function getCustomerDataStatus(): Promise<{ downloaded: boolean; count: number }> {
-  const count = await getCustomerCount();
-  return {
-    downloaded: count > 0,
-    count,
-  };
-}
-
-/**
- * React hook for downloading customer data with progress tracking (parallel download)
- */
-export function useDownloadCustomerData() {
-  const [progress, setProgress] = useState<DownloadProgress>({
-    isDownloading: false,
-    fetched: 0,
-    saved: 0,
-    total: 0,
-    phase: 'idle',
-  });
-
-  const downloadCustomerData = useCallback(async (): Promise<FetchCustomerDataResult> => {
-    setProgress({
-      isDownloading: true,
-      fetched: 0,
-      saved: 0,
-      total: 0,
-      phase: 'initializing',
-    });
+export async function syncCustomerDataChanges(
+  onProgress?: (current: number, total: number) => void
+): Promise<FetchCustomerDataResult> {
+  try {
+    await initializeDatabase();
 
-    try {
-      // Initialize database
-      await initializeDatabase();
+    const lastSync = await getLastCustomerSync();
+    if (!lastSync) {
+      return {
+        success: false,
+        count: 0,
+        error: 'No complete download to update from. Please download the customer data first.',
+      };
+    }
 
-      setProgress(prev => ({ ...prev, phase: 'fetching' }));
+    const syncStartedAt = new Date().toISOString();
+    const window = { startDate: lastSync, endDate: syncStartedAt };
+    console.log(`[CustomerData] Fetching changes since ${lastSync}`);
 
-      // Get total count first
-      const firstPage = await fetchCustomerPage({ pageIndex: 1, pageSize: PAGE_SIZE });
-      // Use 'count' field as totalCount seems to always be 0
-      const totalCount = firstPage.data.count || firstPage.data.totalCount;
-
-      if (totalCount === 0) {
-        setProgress({
-          isDownloading: false,
-          fetched: 0,
-          saved: 0,
-          total: 0,
-          phase: 'error',
-          error: 'No customer data available from the server.',
-        });
-        return { success: false, count: 0, error: 'No customer data available.' };
-      }
+    onProgress?.(0, 0);
+    const firstPage = await fetchCustomerPage({ pageIndex: 1, pageSize: PAGE_SIZE, ...window });
+    const totalCount = firstPage.data.count || firstPage.data.totalCount;
+    const totalPages = Math.ceil(totalCount / PAGE_SIZE);
 
-      setProgress(prev => ({ ...prev, total: totalCount }));
-
-      // Clear existing data
-      await clearForBatchImport();
-
-      // Save first page
-      let totalSaved = 0;
-      let totalFetched = 0;
-
-      if (firstPage.data.data.length > 0) {
-        const customers = firstPage.data.data.map(mapApiCustomerToLocal);
-        totalFetched += firstPage.data.data.length;
-        
-        setProgress(prev => ({ 
-          ...prev, 
-          fetched: totalFetched,
-          phase: 'saving' 
-        }));
-
-        await saveBatchCustomerData(customers, true);
-        totalSaved += customers.length;
-
-        setProgress(prev => ({ 
-          ...prev, 
-          saved: totalSaved,
-          phase: 'fetching'
-        }));
-      }
+    let updated = 0;
+    let removed = 0;
+    let processed = 0;
+    // An account's meters may span pages; only clear its old rows the first time it is seen
+    const replacedAccounts = new Set<string>();
+
+    const applyPage = async (items: CustomerApiItem[]) => {
+      const customers = items.map(mapApiCustomerToLocal);
+      const current = customers.filter(c => !isRemovedAccount(c));
+      const accounts = [...new Set(customers.map(c => c.accountNumber))].filter(a => !replacedAccounts.has(a));
+      accounts.forEach(a => replacedAccounts.add(a));
+
+      removed += await replaceCustomerAccounts(accounts, current);
+      updated += current.length;
+      processed += customers.length;
+      onProgress?.(processed, totalCount);
+    };
 
-      // Calculate remaining pages
-      const totalPages = Math.ceil(totalCount / PAGE_SIZE);
-      
-      if (totalPages > 1) {
-        // Create array of remaining page indices
-        const remainingPages = Array.from({ length: totalPages - 1 }, (_, i) => i + 2);
-        
-        // Process pages in parallel batches
-        for (let i = 0; i < remainingPages.length; i += CONCURRENT_REQUESTS) {
-          const batch = remainingPages.slice(i, i + CONCURRENT_REQUESTS);
-          
-          // Fetch all pages in this batch concurrently
-          const pagePromises = batch.map(pageIndex => 
-            fetchCustomerPage({ pageIndex, pageSize: PAGE_SIZE })
-              .then(page => ({ pageIndex, page, error: null }))
-              .catch(error => ({ pageIndex, page: null, error }))
-          );
-          
-          const results = await Promise.all(pagePromises);
-          
-          // Process results
-          for (const result of results) {
-            if (result.page && result.page.data.data.length > 0) {
-              totalFetched += result.page.data.data.length;
-            }
-          }
-          
-          setProgress(prev => ({ 
-            ...prev, 
-            fetched: totalFetched,
-            phase: 'saving'
-          }));
-          
-          // Save results
-          for (const result of results) {
-            if (result.error) {
-              console.error(`Error fetching page ${result.pageIndex}:`, result.error?.message);
-              continue;
-            }
-            
-            if (result.page && result.page.data.data.length > 0) {
-              const customers = result.page.data.data.map(mapApiCustomerToLocal);
-              await saveBatchCustomerData(customers, true);
-              totalSaved += customers.length;
-            }
-          }
-
-          setProgress(prev => ({ 
-            ...prev, 
-            saved: totalSaved,
-            phase: 'fetching'
-          }));
-        }
+    await applyPage(firstPage.data.data);
+
+    const remainingPages = Array.from({ length: Math.max(totalPages - 1, 0) }, (_, i) => i + 2);
+    for (let i = 0; i < remainingPages.length; i += CONCURRENT_REQUESTS) {
+      const batch = remainingPages.slice(i, i + CONCURRENT_REQUESTS);
+      // Any rejected page rejects the whole update
+      const pages = await Promise.all(
+        batch.map(pageIndex => fetchCustomerPage({ pageIndex, pageSize: PAGE_SIZE, ...window }))
+      );
+      for (const page of pages) {
+        await applyPage(page.data.data);
       }
+    }
 
-      setProgress({
-        isDownloading: false,
-        fetched: totalFetched,
-        saved: totalSaved,
-        total: totalCount,
-        phase: 'complete',
-      });
-
-      return { success: true, count: totalSaved };
+    await setLastCustomerSync(syncStartedAt);
+    console.log(`[CustomerData] Update complete: ${updated} updated, ${removed} removed`);
 
-    } catch (error: any) {
-      setProgress({
-        isDownloading: false,
-        fetched: 0,
-        saved: 0,
-        total: 0,
-        phase: 'error',
-        error: error?.message ?? 'Unknown error',
-      });
+    return { success: true, count: updated, removed };
+  } catch (error: any) {
+    console.error('[CustomerData] Failed to update customer data:', error);
+    return {
+      success: false,
+      count: 0,
+      error: error?.message ?? 'Unknown error occurred while updating customer data.',
+    };
+  }
+}
 
-      return {
-        success: false,
-        count: 0,
-        error: error?.message ?? 'Unknown error',
-      };
-    }
-  }, []);
-
-  const resetProgress = useCallback(() => {
-    setProgress({
-      isDownloading: false,
-      fetched: 0,
-      saved: 0,
-      total: 0,
-      phase: 'idle',
-    });
-  }, []);
+/**
+ * Progress of an unfinished full download that `fetchAndSaveCustomerData` would resume, or null
+ */
+export async function getPendingCustomerImport(): Promise<{ received: number; total: number } | null> {
+  const staged = await getStagedImport();
+  if (!staged) return null;
+  const pages = await getStagedImportPages();
+  return {
+    received: pages.reduce((sum, p) => sum + p.rowCount, 0),
+    total: staged.totalCount,
+  };
+}
 
+/**
+ * Get the current download status
+ */
+export async function getCustomerDataStatus(): Promise<{ downloaded: boolean; count: number }> {
+  const count = await getCustomerCount();
   return {
-    progress,
-    downloadCustomerData,
-    resetProgress,
-    isDownloading: progress.isDownloading,
+    downloaded: count > 0,
+    count,
   };
 }
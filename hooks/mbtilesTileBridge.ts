@@ -0,0 +1,112 @@
+import { RefObject, useCallback } from 'react';
+import type { WebView } from 'react-native-webview';
+import { getMbtilesTile } from '@/utils/mbtiles';
+import type { OfflineTileSource } from '@/utils/mapRegions';
+
+/**
+ * Offline tile layers and the tile bridge for MBTiles maps.
+ *
+ * The page adds one layer per installed region, each limited to that
+ * region's bounds and zoom range, so Leaflet only asks the region covering
+ * the current viewport. Folder regions load `file://` tiles directly; MBTiles
+ * regions post a `tileRequest` message per tile, which is read from the
+ * package with expo-sqlite and injected back into the page as a data URI.
+ */
+
+const ERROR_TILE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+// Defines `L.mbtilesLayer` and `window.__onMbtile` inside the WebView
+function mbtilesLayerScript(): string {
+  return `
+    var __mbtilePending = {};
+    var __mbtileSeq = 0;
+    window.__onMbtile = function(id, dataUri) {
+      var req = __mbtilePending[id];
+      if (!req) return;
+      delete __mbtilePending[id];
+      if (!dataUri) { req.done(null, req.tile); return; }
+      req.tile.onload = function() { req.done(null, req.tile); };
+      req.tile.onerror = function(e) { req.done(e, req.tile); };
+      req.tile.src = dataUri;
+    };
+    L.MbtilesLayer = L.GridLayer.extend({
+      createTile: function(coords, done) {
+        var tile = document.createElement('img');
+        tile.alt = '';
+        var id = ++__mbtileSeq;
+        __mbtilePending[id] = { tile: tile, done: done };
+        window.ReactNativeWebView.postMessage(JSON.stringify({
+          type: 'tileRequest', id: id, source: this.options.source, z: coords.z, x: coords.x, y: coords.y
+        }));
+        return tile;
+      }
+    });
+    L.mbtilesLayer = function(options) { return new L.MbtilesLayer(options); };
+  `;
+}
+
+/**
+ * Script that adds a layer per offline region to the Leaflet map `mapVar`.
+ * Outside every region's bounds nothing is drawn.
+ */
+export function offlineTileLayersScript(sources: OfflineTileSource[], mapVar: string, attribution: string): string {
+  const layers = sources.map(({ id, format, tilesPath, bounds, minZoom, maxZoom }) => ({
+    id, format, tilesPath, bounds, minZoom, maxZoom,
+  }));
+  return `
+    ${layers.some(l => l.format === 'mbtiles') ? mbtilesLayerScript() : ''}
+    ${JSON.stringify(layers)}.forEach(function(src) {
+      var options = {
+        attribution: ${JSON.stringify(attribution)},
+        maxZoom: 19,
+        minNativeZoom: src.minZoom,
+        maxNativeZoom: src.maxZoom,
+        tileSize: 256
+      };
+      if (src.bounds) {
+        options.bounds = L.latLngBounds([src.bounds[1], src.bounds[0]], [src.bounds[3], src.bounds[2]]);
+      }
+      var layer;
+      if (src.format === 'mbtiles') {
+        options.source = src.id;
+        layer = L.mbtilesLayer(options);
+      } else {
+        options.errorTileUrl = '${ERROR_TILE}';
+        layer = L.tileLayer(src.tilesPath + '{z}/{x}/{y}.png', options);
+      }
+      layer.addTo(${mapVar});
+    });
+  `;
+}
+
+/**
+ * Returns a handler for parsed WebView messages. It answers `tileRequest`
+ * messages from the matching MBTiles source and returns true for them, false
+ * for anything else so the caller can handle its own message types.
+ */
+export function useMbtilesTileBridge(
+  webViewRef: RefObject<WebView | null>,
+  sources: OfflineTileSource[],
+) {
+  return useCallback((message: any): boolean => {
+    if (message?.type !== 'tileRequest') return false;
+
+    const respond = (dataUri: string | null) => {
+      webViewRef.current?.injectJavaScript(`window.__onMbtile(${Number(message.id)}, ${JSON.stringify(dataUri)}); true;`);
+    };
+
+    const source = sources.find(s => s.id === message.source && s.format === 'mbtiles');
+    if (!source) {
+      respond(null);
+      return true;
+    }
+
+    getMbtilesTile(source.tilesPath, message.z, message.x, message.y)
+      .then(respond)
+      .catch(error => {
+        console.error('[MBTiles] Tile read failed:', error?.message);
+        respond(null);
+      });
+    return true;
+  }, [webViewRef, sources]);
+}
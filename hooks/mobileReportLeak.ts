@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect } from 'react';
 import { useMobileReportStore } from '@/utils/mobileReportStore';
 import { LeakReportPayload } from '@/services/mobileReport';
 import * as Network from 'expo-network';
+import { mockConnectivity } from '@/utils/mockServerStore';
 
 export interface UseLeakReportOptions {
   autoSync?: boolean;  // Automatically sync when online
@@ -19,6 +20,9 @@ export interface SubmitResult {
  * Check if device is online
  */
 async function checkIsOnline(): Promise<boolean> {
+  const mockOnline = mockConnectivity();
+  if (mockOnline !== null) return mockOnline;
+
   try {
     const networkState = await Network.getNetworkStateAsync();
     return networkState.isConnected ?? false;
@@ -159,7 +163,7 @@ export function useLeakReport(options: UseLeakReportOptions = {}) {
       console.log('[useLeakReport] Cannot retry sync while offline');
       return false;
     }
-    return syncReport(reportId);
+    return syncReport(reportId, { force: true });
   }, [isOnline, syncReport]);
   
   /**
@@ -170,7 +174,7 @@ export function useLeakReport(options: UseLeakReportOptions = {}) {
       console.log('[useLeakReport] Cannot retry sync while offline');
       return { success: 0, failed: 0 };
     }
-    return syncAllPending();
+    return syncAllPending({ force: true });
   }, [isOnline, syncAllPending]);
   
   /**
@@ -230,6 +234,7 @@ export function createLeakReportPayload(params: {
   empId: string;
   wss?: number;  // Water supply system code (integer)
   reportedAt?: string; // Optional — if provided (e.g. from a draft's savedAt), use that time
+  remarks?: string;
 }): LeakReportPayload {
   return {
     ...params,
@@ -1,4 +1,4 @@
-import { Customer } from '@/utils/allCustomerData';
+import { Customer, NearbyCustomer } from '@/utils/allCustomerData';
 
 export type LatLng = { lat: number; lng: number };
 
@@ -18,11 +18,16 @@ export type Meter = {
 
 const RANK_COLORS = ['#10b981', '#f59e0b', '#ef4444']; // green, yellow, red
 
+/** "350m away" / "2.4km away" */
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters.toFixed(0)}m away` : `${(meters / 1000).toFixed(1)}km away`;
+}
+
 function toRad(value: number) {
   return (value * Math.PI) / 180;
 }
 
-function distanceInMeters(a: LatLng, b: LatLng): number {
+export function distanceInMeters(a: LatLng, b: LatLng): number {
   const R = 6371000; // Earth radius in meters
   const dLat = toRad(b.lat - a.lat);
   const dLng = toRad(b.lng - a.lng);
@@ -52,83 +57,47 @@ export function getNearestMeters(center: LatLng, meters: Meter[], max = 3): Mete
   return withDistance.slice(0, max).map((m, index) => ({
     ...m,
     rank: index + 1,
-    distance: `${m.numericDistance.toFixed(0)}m away`,
+    distance: formatDistance(m.numericDistance),
     color: RANK_COLORS[index] || '#6b7280',
   }));
 }
 
 /**
- * Fast squared distance calculation (avoids expensive trig functions for comparison)
+ * Convert customers from `queryNearestCustomers` (already sorted by distance) to ranked meters
  */
-function quickDistanceSquared(a: LatLng, b: LatLng): number {
-  const dLat = b.lat - a.lat;
-  const dLng = b.lng - a.lng;
-  // Approximate correction for longitude at this latitude
-  const cosLat = Math.cos(toRad(a.lat));
-  return dLat * dLat + (dLng * cosLat) * (dLng * cosLat);
+export function nearbyCustomersToMeters(customers: NearbyCustomer[]): Meter[] {
+  return customers.map((c, index) => ({
+    rank: index + 1,
+    id: c.meterNumber,
+    title: c.address,
+    distance: formatDistance(c.distanceMeters),
+    color: RANK_COLORS[index] || '#6b7280',
+    account: c.accountNumber,
+    address: c.address,
+    dma: c.dma,
+    wss: c.wssCode ?? 0,
+    lat: c.latitude,
+    lng: c.longitude,
+  }));
 }
 
 /**
- * Find the nearest meters from customer data based on user's location
- * Optimized to avoid sorting the entire array
+ * Convert ranked search results to meters, with the distance from `from` when known
  */
-export function getNearestMetersFromCustomers(
-  center: LatLng,
-  customers: Customer[],
-  max = 3
-): Meter[] {
-  // Keep track of top N nearest customers using a simple array
-  const nearest: { customer: Customer; distSq: number }[] = [];
-  const seenMeterNumbers = new Set<string>();
-
-  for (const c of customers) {
-    // Skip invalid coordinates or empty meter numbers
-    if (c.latitude === 0 || c.longitude === 0 || !c.meterNumber) {
-      continue;
-    }
-
-    // Skip duplicates
-    if (seenMeterNumbers.has(c.meterNumber)) {
-      continue;
-    }
-
-    const distSq = quickDistanceSquared(center, { lat: c.latitude, lng: c.longitude });
-
-    // If we have fewer than max items, just add it
-    if (nearest.length < max) {
-      nearest.push({ customer: c, distSq });
-      seenMeterNumbers.add(c.meterNumber);
-      // Keep sorted
-      nearest.sort((a, b) => a.distSq - b.distSq);
-    } else if (distSq < nearest[max - 1].distSq) {
-      // Replace the farthest one if this is closer
-      seenMeterNumbers.delete(nearest[max - 1].customer.meterNumber);
-      nearest[max - 1] = { customer: c, distSq };
-      seenMeterNumbers.add(c.meterNumber);
-      // Re-sort
-      nearest.sort((a, b) => a.distSq - b.distSq);
-    }
-  }
-
-  // Convert to Meter format with actual distances
-  return nearest.map((item, index) => {
-    const actualDistance = distanceInMeters(center, { 
-      lat: item.customer.latitude, 
-      lng: item.customer.longitude 
-    });
-    
-    return {
-      rank: index + 1,
-      id: item.customer.meterNumber,
-      title: item.customer.address,
-      distance: `${actualDistance.toFixed(0)}m away`,
-      color: RANK_COLORS[index] || '#6b7280',
-      account: item.customer.accountNumber,
-      address: item.customer.address,
-      dma: item.customer.dma,
-      wss: item.customer.wssCode ?? 0,
-      lat: item.customer.latitude,
-      lng: item.customer.longitude,
-    };
-  });
+export function searchResultsToMeters(customers: Customer[], from: LatLng | null): Meter[] {
+  return customers.map((c, index) => ({
+    rank: index + 1,
+    id: c.meterNumber,
+    title: c.name || c.address,
+    distance: from && c.latitude && c.longitude
+      ? formatDistance(distanceInMeters(from, { lat: c.latitude, lng: c.longitude }))
+      : '',
+    color: '#1f3a8a',
+    account: c.accountNumber,
+    address: c.address,
+    dma: c.dma,
+    wss: c.wssCode ?? 0,
+    lat: c.latitude,
+    lng: c.longitude,
+  }));
 }
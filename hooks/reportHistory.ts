@@ -0,0 +1,78 @@
+import { LeakReport, LEAK_TYPE_LABELS, ReportStatusKey, getReportStatusKey } from '@/services/leakReportsService';
+
+export type HistorySort = 'newest' | 'oldest' | 'status' | 'leakType';
+
+export type HistoryFilters = {
+  status: ReportStatusKey | null;
+  leakTypeId: number | null;
+  dma: string | null;
+  /** Inclusive ISO dates (YYYY-MM-DD); null for an open end */
+  from: string | null;
+  to: string | null;
+  /** Matched against refNo, meter number and landmark */
+  query: string;
+  sort: HistorySort;
+};
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  status: null,
+  leakTypeId: null,
+  dma: null,
+  from: null,
+  to: null,
+  query: '',
+  sort: 'newest',
+};
+
+function reportTime(report: LeakReport): number {
+  const time = new Date(report.dtReported).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+/** Parse YYYY-MM-DD as a local date; null when it isn't one */
+export function parseDateInput(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** Reports matching every filter, in the chosen order */
+export function filterReportHistory(reports: LeakReport[], filters: HistoryFilters): LeakReport[] {
+  const from = filters.from ? parseDateInput(filters.from)?.getTime() ?? null : null;
+  const toDate = filters.to ? parseDateInput(filters.to) : null;
+  // Through the end of the `to` day
+  const to = toDate ? toDate.getTime() + 24 * 60 * 60 * 1000 - 1 : null;
+  const words = filters.query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = reports.filter(r => {
+    if (filters.status && getReportStatusKey(r.dispatchStat) !== filters.status) return false;
+    if (filters.leakTypeId != null && r.leakTypeId !== filters.leakTypeId) return false;
+    if (filters.dma && r.dmaCode !== filters.dma) return false;
+    const time = reportTime(r);
+    if (from != null && time < from) return false;
+    if (to != null && time > to) return false;
+    if (words.length > 0) {
+      const haystack = `${r.refNo ?? ''} ${r.referenceMtr ?? ''} ${r.reportedLandmark ?? ''}`.toLowerCase();
+      if (!words.every(word => haystack.includes(word))) return false;
+    }
+    return true;
+  });
+
+  switch (filters.sort) {
+    case 'oldest':
+      return matches.sort((a, b) => reportTime(a) - reportTime(b));
+    case 'status':
+      return matches.sort((a, b) => a.dispatchStat - b.dispatchStat || reportTime(b) - reportTime(a));
+    case 'leakType':
+      return matches.sort((a, b) =>
+        (LEAK_TYPE_LABELS[a.leakTypeId] ?? '').localeCompare(LEAK_TYPE_LABELS[b.leakTypeId] ?? '') || reportTime(b) - reportTime(a));
+    default:
+      return matches.sort((a, b) => reportTime(b) - reportTime(a));
+  }
+}
+
+/** DMA codes present in the reports, for the DMA filter */
+export function reportDmas(reports: LeakReport[]): string[] {
+  return Array.from(new Set(reports.map(r => r.dmaCode).filter(Boolean))).sort();
+}
@@ -0,0 +1,76 @@
+import { LeakReport, LEAK_TYPE_LABELS, REPORT_STATUSES, getReportStatusKey, parseReportGeometry } from '@/services/leakReportsService';
+import { CachedLeakReport } from '@/services/mobileReport';
+
+/** A leak report placed on the map: submitted (from the server) or still queued on the device */
+export type ReportPoint = {
+  id: string;
+  source: 'server' | 'queued';
+  /** The server report id, for opening its detail screen */
+  serverId?: string;
+  lat: number;
+  lng: number;
+  leakType: string;
+  status: string;
+  color: string;
+  refNo: string;
+  meterNumber: string;
+  location: string;
+  landmark: string;
+  reportedAt: string;
+};
+
+// Queued reports haven't reached the server, so they have no dispatch status yet
+const QUEUED_COLOR = '#64748b';
+const FAILED_COLOR = '#b91c1c';
+
+export const REPORT_MARKER_PREFIX = 'report:';
+
+export function leakReportsToPoints(reports: LeakReport[]): ReportPoint[] {
+  return reports.flatMap(r => {
+    const position = parseReportGeometry(r.geometry);
+    if (!position) return [];
+    const status = REPORT_STATUSES[getReportStatusKey(r.dispatchStat)];
+    return [{
+      id: `server-${r.id}`,
+      source: 'server' as const,
+      serverId: r.id,
+      ...position,
+      leakType: LEAK_TYPE_LABELS[r.leakTypeId] || 'Unknown',
+      status: status.label,
+      color: status.color,
+      refNo: r.refNo ?? '',
+      meterNumber: r.referenceMtr ?? '',
+      location: r.reportedLocation ?? '',
+      landmark: r.reportedLandmark ?? '',
+      reportedAt: r.dtReported,
+    }];
+  });
+}
+
+/**
+ * Reports saved on the device that the server list doesn't show yet. `serverIds`
+ * are the ids of the server's reports; a synced report is skipped once it appears there.
+ */
+export function cachedReportsToPoints(reports: CachedLeakReport[], serverIds: Set<string>): ReportPoint[] {
+  return reports.flatMap(r => {
+    if (serverIds.has(r.clientReportId)) return [];
+    const position = parseReportGeometry(r.coordinates);
+    if (!position) return [];
+
+    const failed = r.syncStatus === 'failed' || r.syncStatus === 'rejected';
+    const synced = r.syncStatus === 'synced';
+    return [{
+      id: `queued-${r.id}`,
+      source: 'queued' as const,
+      ...position,
+      leakType: r.leakType || 'Unknown',
+      status: synced ? REPORT_STATUSES.reported.label : failed ? 'Sync Failed' : 'Queued',
+      color: synced ? REPORT_STATUSES.reported.color : failed ? FAILED_COLOR : QUEUED_COLOR,
+      refNo: r.serverReferenceNumber ?? '',
+      meterNumber: r.meterNumber ?? '',
+      location: r.address ?? '',
+      landmark: r.landmark ?? '',
+      reportedAt: r.reportedAt,
+    }];
+  });
+}
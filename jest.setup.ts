@@ -0,0 +1,12 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The native module is not available under Jest; ids only need to be unique
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  randomUUID: () => require('crypto').randomUUID(),
+}));
+
+// The app builds multipart bodies with React Native's FormData, which the mock backend reads
+global.FormData = require('react-native/Libraries/Network/FormData').default;
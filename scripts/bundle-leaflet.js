@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Inlines Leaflet (JS, CSS and its marker/layer images) into
+ * assets/leaflet/leafletBundle.ts so the map WebViews never load anything
+ * from the network. The bundle is generated, not committed: this runs on
+ * `postinstall`, and fails the install if the installed leaflet is not the
+ * version pinned in package.json or its files don't look like that release.
+ *
+ * With --check it writes nothing and fails if the generated bundle is missing
+ * or differs from what the installed leaflet would generate
+ * (`npm run check-leaflet`, also run on EAS after dependencies install).
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const root = process.cwd();
+const dist = path.join(root, "node_modules", "leaflet", "dist");
+const outDir = path.join(root, "assets", "leaflet");
+const outFile = path.join(outDir, "leafletBundle.ts");
+
+const { version } = require(path.join(root, "node_modules", "leaflet", "package.json"));
+const pinned = require(path.join(root, "package.json")).dependencies.leaflet;
+
+function fail(message) {
+  console.error(`[bundle-leaflet] ${message}`);
+  process.exit(1);
+}
+
+if (pinned !== version) {
+  fail(`node_modules has leaflet ${version}, but package.json pins ${pinned}. Reinstall dependencies.`);
+}
+
+function dataUri(image) {
+  const bytes = fs.readFileSync(path.join(dist, "images", image));
+  return `data:image/png;base64,${bytes.toString("base64")}`;
+}
+
+// The page is loaded from an HTML string, so relative image URLs have nothing to resolve against
+const css = fs
+  .readFileSync(path.join(dist, "leaflet.css"), "utf8")
+  .replace(/url\(images\/([\w-]+\.png)\)/g, (_, image) => `url(${dataUri(image)})`);
+
+// Inlined inside a <script> element, so a closing tag in the source must not end it early
+const js = fs.readFileSync(path.join(dist, "leaflet.js"), "utf8").replace(/<\/script/gi, "<\\/script");
+
+const builtVersion = js.match(/version\s*=\s*"([^"]+)"/)?.[1];
+if (builtVersion !== version) {
+  fail(`leaflet/dist/leaflet.js reports version ${builtVersion ?? "(none)"}, expected ${version}.`);
+}
+if (!css.includes(".leaflet-container") || /url\(images\//.test(css)) {
+  fail("leaflet/dist/leaflet.css is missing its rules or has images that were not inlined.");
+}
+
+const icons = {
+  iconUrl: dataUri("marker-icon.png"),
+  iconRetinaUrl: dataUri("marker-icon-2x.png"),
+  shadowUrl: dataUri("marker-shadow.png"),
+};
+
+const source = `// Generated by scripts/bundle-leaflet.js from leaflet@${version}. Do not edit.
+
+export const LEAFLET_VERSION = ${JSON.stringify(version)};
+
+export const LEAFLET_CSS = ${JSON.stringify(css)};
+
+export const LEAFLET_JS = ${JSON.stringify(js)};
+
+/** Default marker images as data URIs */
+export const LEAFLET_MARKER_ICONS = ${JSON.stringify(icons, null, 2)};
+`;
+
+if (process.argv.includes("--check")) {
+  const generated = fs.existsSync(outFile) ? fs.readFileSync(outFile, "utf8") : "";
+  if (generated !== source) {
+    fail(`${path.relative(root, outFile)} is missing or does not match leaflet ${version} in node_modules. Run \`npm run bundle-leaflet\`.`);
+  }
+  console.log(`${path.relative(root, outFile)} matches leaflet ${version}`);
+  process.exit(0);
+}
+
+fs.mkdirSync(outDir, { recursive: true });
+fs.writeFileSync(outFile, source);
+if (fs.readFileSync(outFile, "utf8") !== source) {
+  fail(`${path.relative(root, outFile)} did not read back as written.`);
+}
+console.log(`Wrote ${path.relative(root, outFile)} (leaflet ${version}, ${(source.length / 1024).toFixed(0)} KB)`);
@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+
+/**
+ * Fails a build whose environment has no API URL, so a staging or production
+ * APK can never quietly talk to the development backend. Runs on EAS after
+ * dependencies install; mirrors BUILD_ENVIRONMENT in utils/environment.ts.
+ */
+
+const isUrl = (value) => /^https?:\/\/[^\s/]+/i.test((value || "").trim());
+
+const appEnv = process.env.EXPO_PUBLIC_APP_ENV || "";
+const required = {
+  staging: "EXPO_PUBLIC_STAGING_API_URL",
+  production: "EXPO_PUBLIC_PRODUCTION_API_URL",
+};
+
+if (isUrl(process.env.EXPO_PUBLIC_API_URL)) {
+  console.log(`Building against custom API ${process.env.EXPO_PUBLIC_API_URL}`);
+  process.exit(0);
+}
+
+const variable = required[appEnv];
+if (variable && !isUrl(process.env[variable])) {
+  console.error(`EXPO_PUBLIC_APP_ENV is "${appEnv}" but ${variable} is not set to an http(s) URL.`);
+  process.exit(1);
+}
+
+console.log(`Build environment: ${appEnv || "(not set)"}`);
@@ -0,0 +1,213 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DuplicateCandidate, attachRemarks, findDuplicateReports, submitAnywayRemarks } from '@/services/duplicateReports';
+import { LeakReport } from '@/services/leakReportsService';
+import { CachedLeakReport } from '@/services/mobileReport';
+import { useDashboardStore } from '@/utils/dashboardStore';
+import { DraftReport } from '@/utils/draftReportsStore';
+import { useMobileReportStore } from '@/utils/mobileReportStore';
+
+// New report at 7.0731, 125.6128; 0.0001° of latitude is about 11 m
+const query = { coordinates: '7.0731, 125.6128', meterNumber: 'M-1001', leakType: 'Serviceline', empId: '' };
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+function serverReport(id: string, overrides: Partial<LeakReport>): LeakReport {
+  return {
+    id,
+    reportedBy: 'EMP-001',
+    leakTypeId: 38,
+    refNo: `LR-${id}`,
+    reporterName: '',
+    jmsCode: '',
+    reportedLocation: '',
+    reportedLandmark: '',
+    referenceMtr: '',
+    reportedNumber: '',
+    dtReported: hoursAgo(1),
+    referenceRecaddrs: null,
+    dispatchStat: 0,
+    reportType: 54,
+    priority: 0,
+    dmaCode: '',
+    leakCovering: 0,
+    geometry: 'POINT (125.6128 7.0732)',
+    remarks: '',
+    leakImage1: '',
+    leakImage2: '',
+    landmarkImage: '',
+    ...overrides,
+  };
+}
+
+function queuedReport(id: string, overrides: Partial<CachedLeakReport>): CachedLeakReport {
+  return {
+    id,
+    clientReportId: `client-${id}`,
+    createdAt: hoursAgo(1),
+    syncStatus: 'pending',
+    meterNumber: '',
+    accountNumber: '',
+    address: '',
+    dma: '',
+    coordinates: '7.0732, 125.6128',
+    leakType: 'Serviceline',
+    location: 'Surface',
+    contactPerson: '',
+    contactNumber: '',
+    landmark: '',
+    leakPhotos: [],
+    landmarkPhotos: [],
+    reportedAt: hoursAgo(1),
+    empId: 'EMP-001',
+    wss: 1,
+    ...overrides,
+  };
+}
+
+function draft(id: string, overrides: Partial<DraftReport>): DraftReport {
+  return {
+    id,
+    meterNumber: '',
+    accountNumber: '',
+    address: '',
+    dma: '',
+    wss: 1,
+    coordinates: '7.0732, 125.6128',
+    leakType: 'Serviceline',
+    location: 'Surface',
+    contactPerson: '',
+    contactNumber: '',
+    landmark: '',
+    leakPhotos: [],
+    landmarkPhotos: [],
+    savedAt: hoursAgo(1),
+    empId: 'EMP-001',
+    ...overrides,
+  };
+}
+
+async function given({ server = [], queued = [], drafts = [] }: {
+  server?: LeakReport[];
+  queued?: CachedLeakReport[];
+  drafts?: DraftReport[];
+}) {
+  // No employee id, so the check uses the reports the dashboard last loaded
+  useDashboardStore.setState({ reports: server });
+  useMobileReportStore.setState({ cachedReports: queued });
+  await AsyncStorage.setItem('@leak_reports_drafts', JSON.stringify(drafts));
+}
+
+const ids = (candidates: DuplicateCandidate[]) => candidates.map(c => c.id);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('findDuplicateReports', () => {
+  it('lists nearby recent reports from the server, the queue and drafts', async () => {
+    await given({
+      server: [serverReport('s1', {})],
+      queued: [queuedReport('q1', {})],
+      drafts: [draft('d1', {})],
+    });
+
+    const candidates = await findDuplicateReports(query);
+
+    expect(candidates.map(c => [c.id, c.source])).toEqual(expect.arrayContaining([['s1', 'server'], ['q1', 'queued'], ['d1', 'draft']]));
+    expect(candidates).toHaveLength(3);
+    expect(candidates.find(c => c.id === 's1')).toMatchObject({ reference: 'LR-s1', leakType: 'Serviceline' });
+    expect(candidates.find(c => c.id === 'q1')).toMatchObject({ reference: 'client-q1', status: 'Waiting to sync' });
+  });
+
+  it('skips reports outside the radius or the time window', async () => {
+    await given({
+      server: [
+        serverReport('far', { geometry: 'POINT (125.6128 7.0741)' }), // ~110 m
+        serverReport('old', { dtReported: hoursAgo(73) }),
+        serverReport('near', {}),
+      ],
+    });
+
+    expect(ids(await findDuplicateReports(query))).toEqual(['near']);
+  });
+
+  it('matches on the meter or the leak type', async () => {
+    await given({
+      server: [
+        serverReport('sameMeter', { leakTypeId: 39, referenceMtr: 'M-1001' }),
+        serverReport('sameType', { referenceMtr: 'M-2002' }),
+        serverReport('neither', { leakTypeId: 39, referenceMtr: 'M-2002' }),
+      ],
+    });
+
+    const candidates = await findDuplicateReports(query);
+
+    // Same meter first
+    expect(ids(candidates)).toEqual(['sameMeter', 'sameType']);
+    expect(candidates[0].sameMeter).toBe(true);
+  });
+
+  it('sorts by distance after the meter', async () => {
+    await given({
+      server: [
+        serverReport('farther', { geometry: 'POINT (125.6128 7.0734)' }),
+        serverReport('closer', { geometry: 'POINT (125.6128 7.0732)' }),
+      ],
+    });
+
+    expect(ids(await findDuplicateReports(query))).toEqual(['closer', 'farther']);
+  });
+
+  it("doesn't list a queued report twice once the server has it", async () => {
+    await given({
+      server: [serverReport('client-q1', {})],
+      queued: [queuedReport('q1', { syncStatus: 'synced' })],
+    });
+
+    expect(ids(await findDuplicateReports(query))).toEqual(['client-q1']);
+  });
+
+  it('leaves out the draft being edited', async () => {
+    await given({ drafts: [draft('d1', {}), draft('d2', {})] });
+
+    expect(ids(await findDuplicateReports({ ...query, excludeDraftId: 'd1' }))).toEqual(['d2']);
+  });
+
+  it('finds nothing for a report without a location', async () => {
+    await given({ server: [serverReport('s1', {})] });
+
+    expect(await findDuplicateReports({ ...query, coordinates: '' })).toEqual([]);
+  });
+});
+
+describe('remarks', () => {
+  const candidate = (id: string, source: DuplicateCandidate['source'], reference: string): DuplicateCandidate => ({
+    id,
+    source,
+    reference,
+    leakType: 'Serviceline',
+    status: '',
+    meterNumber: '',
+    landmark: '',
+    reportedAt: hoursAgo(1),
+    distanceMeters: 10,
+    sameMeter: false,
+  });
+
+  it('names the sent reports a submission may duplicate, with the reason', () => {
+    const remarks = submitAnywayRemarks(
+      [candidate('s1', 'server', 'LR-0001'), candidate('q1', 'queued', 'client-q1'), candidate('d1', 'draft', 'draft saved')],
+      '  Second leak across the street ',
+    );
+
+    expect(remarks).toBe('Possible duplicate of LR-0001, client-q1. Submitted anyway: Second leak across the street');
+  });
+
+  it('keeps only the reason when every candidate is a draft', () => {
+    expect(submitAnywayRemarks([candidate('d1', 'draft', 'draft saved')], 'Different pipe')).toBe('Submitted anyway: Different pipe');
+  });
+
+  it('refers to the report a new one is attached to', () => {
+    expect(attachRemarks(candidate('s1', 'server', 'LR-0001'))).toBe('Attached to existing report LR-0001');
+  });
+});
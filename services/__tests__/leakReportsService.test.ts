@@ -0,0 +1,51 @@
+import { LeakReport, LeakReportCounts, confirmStatusCodes, getReportStatusKey } from '@/services/leakReportsService';
+
+const noCounts: LeakReportCounts = {
+  reportedCount: 0,
+  dispatchedCount: 0,
+  repairedCount: 0,
+  scheduledCount: 0,
+  turnoverCount: 0,
+  afterCount: 0,
+  notFoundCount: 0,
+  alreadyRepaired: 0,
+  totalCount: 0,
+};
+
+const reports = (...dispatchStats: number[]) =>
+  dispatchStats.map((dispatchStat, i) => ({ id: `r${i}`, dispatchStat }) as LeakReport);
+
+// The confirmation is module state, so these run in order
+describe('getReportStatusKey', () => {
+  it('shows every status as unknown until the codes are confirmed', () => {
+    expect(getReportStatusKey(0)).toBe('unknown');
+    expect(getReportStatusKey(2)).toBe('unknown');
+  });
+
+  it('stays unknown when the counts disagree with the assumed codes', () => {
+    const counts = { ...noCounts, reportedCount: 1, repairedCount: 1, totalCount: 2 };
+
+    expect(confirmStatusCodes(counts, reports(0, 1))).toBe(false);
+    expect(getReportStatusKey(0)).toBe('unknown');
+  });
+
+  it('stays unknown when a report has a code outside the mapping', () => {
+    expect(confirmStatusCodes({ ...noCounts, totalCount: 1 }, reports(9))).toBe(false);
+    expect(getReportStatusKey(0)).toBe('unknown');
+  });
+
+  it('maps the codes once the counts match them', () => {
+    const counts = { ...noCounts, reportedCount: 2, dispatchedCount: 1, repairedCount: 1, alreadyRepaired: 1, totalCount: 5 };
+
+    expect(confirmStatusCodes(counts, reports(0, 0, 1, 2, 7))).toBe(true);
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(getReportStatusKey)).toEqual([
+      'reported', 'dispatched', 'repaired', 'scheduled', 'turnover', 'after', 'notFound', 'alreadyRepaired',
+    ]);
+    expect(getReportStatusKey(8)).toBe('unknown');
+  });
+
+  it('goes back to unknown if a later list disagrees', () => {
+    expect(confirmStatusCodes({ ...noCounts, scheduledCount: 1, totalCount: 1 }, reports(1))).toBe(false);
+    expect(getReportStatusKey(1)).toBe('unknown');
+  });
+});
@@ -1,31 +1,128 @@
 import axios from "axios";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { router } from "expo-router";
+import { AppState } from "react-native";
 import * as Network from "expo-network";
+import { getToken, getTokenExpiry } from "../utils/tokenStorage";
+import { getEnvironment, useEnvironmentStore } from "../utils/environment";
+import { mockAdapter } from "./mockTransport";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Skip proactive refresh and 401 refresh/retry handling (login and refresh calls) */
+    skipAuthRefresh?: boolean;
+    /** Internal: set once a request has been replayed after a token refresh */
+    _retried?: boolean;
+    /** Internal: set once a request has been replayed after the user signed in again */
+    _resumed?: boolean;
+  }
+}
+
+// Refresh this long before the server expiry so in-flight requests don't race it
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+type AuthHandlers = {
+  /** Obtain a new access token using the stored refresh token. Resolves null on failure. */
+  refresh: () => Promise<string | null>;
+  /** Called once refresh has failed and the user must sign in again */
+  onSessionExpired: () => void | Promise<void>;
+};
+
+let authHandlers: AuthHandlers | null = null;
+
+// Single in-flight refresh shared by every request that needs it
+let refreshPromise: Promise<string | null> | null = null;
+
+// Requests that hit an expired session, waiting for the user to sign in again
+let signInWaiters: ((token: string | null) => void)[] = [];
+
+/**
+ * Register the token refresh and session-expired callbacks.
+ * Done by authStore so this module does not depend on it (avoids an import cycle).
+ */
+export function registerAuthHandlers(handlers: AuthHandlers) {
+  authHandlers = handlers;
+}
+
+/**
+ * Replay requests held by an expired session with the new token, or fail them
+ * with their original 401 when `token` is null (logout, environment switch).
+ */
+export function resumeAfterSignIn(token: string | null) {
+  const waiters = signInWaiters;
+  signInWaiters = [];
+  waiters.forEach((resume) => resume(token));
+}
+
+function waitForSignIn(): Promise<string | null> {
+  return new Promise((resolve) => signInWaiters.push(resolve));
+}
+
+/**
+ * Refresh the access token. Concurrent callers are queued on the same promise,
+ * so only one refresh request is ever sent at a time.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!authHandlers) return Promise.resolve(null);
+
+  if (!refreshPromise) {
+    console.log('[API] Refreshing access token...');
+    refreshPromise = authHandlers
+      .refresh()
+      .catch((error) => {
+        console.warn('[API] Token refresh failed:', error?.message);
+        return null;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
 
 export const api = axios.create({
-  baseURL: "https://dev-api.davao-water.gov.ph",
+  baseURL: useEnvironmentStore.getState().environment.apiUrl,
   timeout: 30000, // 30 second timeout
   headers: {
     "Content-Type": "application/json",
   },
 });
 
+// Keep the default in step with environment switches (used to build image URLs)
+useEnvironmentStore.subscribe((state) => {
+  api.defaults.baseURL = state.environment.apiUrl;
+});
+
 api.interceptors.request.use(
   async (config) => {
-    // Check network connectivity before making request
-    try {
-      const networkState = await Network.getNetworkStateAsync();
-      if (!networkState.isConnected || !networkState.isInternetReachable) {
-        console.warn('[API] No internet connection detected');
-        return Promise.reject(new Error('No internet connection. Please check your network settings.'));
+    // The stored environment override may not have been read yet at startup
+    const environment = await getEnvironment();
+    config.baseURL = environment.apiUrl;
+
+    if (environment.id === 'mock') {
+      // Answered on the device; the mock simulates connectivity problems itself
+      config.adapter = mockAdapter;
+    } else {
+      // Check network connectivity before making request
+      try {
+        const networkState = await Network.getNetworkStateAsync();
+        if (!networkState.isConnected || !networkState.isInternetReachable) {
+          console.warn('[API] No internet connection detected');
+          return Promise.reject(new Error('No internet connection. Please check your network settings.'));
+        }
+      } catch (netError) {
+        // If we can't check network status, continue anyway
+        console.warn('[API] Could not check network status:', netError);
+      }
+    }
+
+    // Proactively refresh when the server token is about to expire
+    if (!config.skipAuthRefresh) {
+      const expiry = await getTokenExpiry();
+      if (expiry && Date.now() >= expiry - REFRESH_MARGIN_MS) {
+        await refreshAccessToken();
       }
-    } catch (netError) {
-      // If we can't check network status, continue anyway
-      console.warn('[API] Could not check network status:', netError);
     }
 
-    const token = await AsyncStorage.getItem("access_token");
+    const token = await getToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -41,18 +138,38 @@ api.interceptors.request.use(
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
-    // Handle token expiration
-    if (error.response?.status === 401) {
-      console.log('[API] Token expired or invalid, redirecting to login...');
-      // Clear stored auth and expiry keys (use the same keys authStore uses)
+    // Handle token expiration: refresh once and replay the request
+    const config = error.config;
+    if (error.response?.status === 401 && config && !config.skipAuthRefresh) {
+      if (!config._retried) {
+        config._retried = true;
+        const newToken = await refreshAccessToken();
+        if (newToken) {
+          console.log('[API] Token refreshed, retrying request:', config.url);
+          config.headers.Authorization = `Bearer ${newToken}`;
+          return api(config);
+        }
+      }
+
+      console.log('[API] Token refresh failed, session expired');
       try {
-        await AsyncStorage.multiRemove(['access_token', 'auth_user', 'session_expiry']);
+        await authHandlers?.onSessionExpired();
       } catch (e) {
-        console.warn('[API] Error clearing auth storage on 401', e);
+        console.warn('[API] Error handling expired session', e);
+      }
+
+      // Hold a foreground request until the user signs in again, then replay it.
+      // Background work (e.g. the sync task) can't wait on the login screen, so it
+      // gets the 401 and retries on its next pass.
+      if (!config._resumed && AppState.currentState === 'active') {
+        config._resumed = true;
+        const newToken = await waitForSignIn();
+        if (newToken) {
+          console.log('[API] Signed in again, retrying request:', config.url);
+          config.headers.Authorization = `Bearer ${newToken}`;
+          return api(config);
+        }
       }
-      // Redirect to login screen
-      router.replace('/login');
-      // Reject so callers receive the error and can handle it (do not return a never-resolving promise)
       return Promise.reject(error);
     }
 
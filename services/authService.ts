@@ -1,5 +1,5 @@
 import { api } from "./api";
-import { LoginResponse } from "../utils/auth";
+import { LoginResponse, RefreshTokenResponse } from "../utils/auth";
 
 export const loginRequest = async (
   username: string,
@@ -11,6 +11,24 @@ export const loginRequest = async (
   const headers: Record<string, string> = { accept: "text/plain" };
   if (opts?.bearer) headers["Authorization"] = `Bearer ${opts.bearer}`;
 
-  const response = await api.post<LoginResponse>(url, payload, { headers });
+  const response = await api.post<LoginResponse>(url, payload, { headers, skipAuthRefresh: true });
+  return response.data;
+};
+
+/**
+ * Exchange a refresh token for a new access token.
+ * Marked `skipAuthRefresh` so a 401 here never triggers another refresh.
+ * The endpoint and `{ token, refreshToken }` body mirror the login API and
+ * are not yet confirmed by the backend; if the call fails the session simply
+ * expires and the user signs in again (see `resumeAfterSignIn`).
+ */
+export const refreshTokenRequest = async (token: string | null, refreshToken: string) => {
+  const url = "/dcwd-gis/api/v1/admin/userlogin/refresh-token";
+  const payload = { token, refreshToken };
+
+  const response = await api.post<RefreshTokenResponse>(url, payload, {
+    headers: { accept: "text/plain" },
+    skipAuthRefresh: true,
+  });
   return response.data;
 };
@@ -0,0 +1,123 @@
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundTask from 'expo-background-task';
+import * as Network from 'expo-network';
+import { useMobileReportStore } from '@/utils/mobileReportStore';
+import { getToken } from '@/utils/tokenStorage';
+import { checkNetworkConnection } from '@/utils/networkUtils';
+import { showSyncSummaryNotification } from '@/services/notificationService';
+
+/**
+ * Background sync of queued leak reports.
+ *
+ * The task is defined at module scope (required by expo-task-manager), so this
+ * file must be imported from the root layout before the app renders.
+ */
+
+export const BACKGROUND_SYNC_TASK = 'leak-report-background-sync';
+
+// Android/iOS won't run periodic work more often than every 15 minutes
+const MINIMUM_INTERVAL_MINUTES = 15;
+
+/**
+ * Send every pending/failed report in the outbox and post a summary notification.
+ * Safe to call from the background task, a connectivity listener or the UI.
+ */
+export async function drainReportQueue(source: 'background' | 'reconnect'): Promise<{ success: number; failed: number }> {
+  // Without a stored token the user is logged out; leave the queue for the next login
+  const token = await getToken();
+  if (!token) {
+    console.log(`[BackgroundSync] (${source}) No session, skipping`);
+    return { success: 0, failed: 0 };
+  }
+
+  const online = await checkNetworkConnection();
+  if (!online) {
+    console.log(`[BackgroundSync] (${source}) Offline, skipping`);
+    return { success: 0, failed: 0 };
+  }
+
+  const store = useMobileReportStore.getState();
+  if (store.isSyncing) {
+    console.log(`[BackgroundSync] (${source}) Sync already running, skipping`);
+    return { success: 0, failed: 0 };
+  }
+
+  // The background JS context starts empty; read the queue from the outbox
+  await store.loadCachedReports();
+  const result = await useMobileReportStore.getState().syncAllPending();
+
+  console.log(`[BackgroundSync] (${source}) ${result.success} sent, ${result.failed} failed`);
+  if (result.success + result.failed > 0) {
+    await showSyncSummaryNotification(result.success, result.failed);
+  }
+  return result;
+}
+
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+  try {
+    await drainReportQueue('background');
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('[BackgroundSync] Task failed:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Register the periodic background task (no-op if already registered or
+ * background execution is restricted on this device).
+ */
+export async function registerBackgroundSync(): Promise<void> {
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status === BackgroundTask.BackgroundTaskStatus.Restricted) {
+      console.warn('[BackgroundSync] Background tasks are restricted on this device');
+      return;
+    }
+
+    const registered = await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK);
+    if (!registered) {
+      await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+        minimumInterval: MINIMUM_INTERVAL_MINUTES,
+      });
+      console.log('[BackgroundSync] Task registered');
+    }
+  } catch (error) {
+    console.error('[BackgroundSync] Failed to register task:', error);
+  }
+}
+
+/** Stop periodic background sync */
+export async function unregisterBackgroundSync(): Promise<void> {
+  try {
+    const registered = await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK);
+    if (registered) {
+      await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+      console.log('[BackgroundSync] Task unregistered');
+    }
+  } catch (error) {
+    console.error('[BackgroundSync] Failed to unregister task:', error);
+  }
+}
+
+/**
+ * Drain the queue as soon as connectivity comes back while the app is alive
+ * (the periodic task covers the case where it is not).
+ * @returns Function that removes the listener
+ */
+export function startConnectivitySync(): () => void {
+  let wasConnected = true;
+
+  const subscription = Network.addNetworkStateListener((state) => {
+    const connected = !!state.isConnected && state.isInternetReachable !== false;
+    if (connected && !wasConnected) {
+      console.log('[BackgroundSync] Connectivity regained, draining queue...');
+      drainReportQueue('reconnect').catch(error => {
+        console.error('[BackgroundSync] Reconnect sync failed:', error);
+      });
+    }
+    wasConnected = connected;
+  });
+
+  return () => subscription.remove();
+}
@@ -1,24 +1,125 @@
 /**
  * Customer Data Encryption Interceptor
- * 
- * Encrypts sensitive customer fields (name) when saving to SQLite
- * and decrypts them when reading. Uses fast XOR cipher with hex encoding
- * for safe storage of encrypted data.
+ *
+ * Encrypts sensitive customer fields (name, address, contact details) when
+ * saving to SQLite and decrypts them when reading. Uses AES-256-GCM with a
+ * random per-install key kept in the platform secure store (Keychain /
+ * Android Keystore), so nothing needed to decrypt ships in the APK.
+ *
+ * Stored values look like `g1:<hex nonce + ciphertext + tag>`. Values without
+ * the prefix are legacy plaintext and are passed through unchanged.
  */
 
-const ENCRYPTION_KEY = 'dcwd-gis-fast-key-v1';
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
 
-// --- Hex encoding helpers (safe for SQLite TEXT columns) ---
+const KEY_STORE_NAME = 'customer_data_key_v1';
+const KEY_BYTES = 32;  // AES-256
+const NONCE_BYTES = 12;  // Standard GCM nonce
+const CIPHER_PREFIX = 'g1:';
 
-/** Convert a raw string to hex representation */
-function stringToHex(str: string): string {
-  let hex = '';
-  for (let i = 0; i < str.length; i++) {
-    hex += str.charCodeAt(i).toString(16).padStart(4, '0');
+// Loaded once per JS context by `initializeEncryption`
+let dataKey: Uint8Array | null = null;
+let tokenSeeds: [number, number] | null = null;
+let keyPromise: Promise<{ created: boolean }> | null = null;
+
+function setKey(key: Uint8Array) {
+  dataKey = key;
+  // Two 32-bit seeds for the name search token hash (see `hashToken`)
+  const view = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  tokenSeeds = [view.getUint32(0), view.getUint32(4)];
+}
+
+async function loadOrCreateKey(): Promise<{ created: boolean }> {
+  const stored = await SecureStore.getItemAsync(KEY_STORE_NAME);
+  if (stored) {
+    setKey(hexToBytes(stored));
+    return { created: false };
   }
-  return hex;
+
+  console.log('[CustomerCrypto] Generating data key for this install');
+  const key = getRandomBytes(KEY_BYTES);
+  // AFTER_FIRST_UNLOCK so background tasks can still read encrypted data while the phone is locked
+  await SecureStore.setItemAsync(KEY_STORE_NAME, bytesToHex(key), {
+    keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  });
+  setKey(key);
+  return { created: true };
 }
 
+/**
+ * Load (or on first run, create) the per-install data key.
+ * Must resolve before any encrypt/decrypt call; safe to call repeatedly.
+ * `created` is true when a new key was generated, i.e. anything encrypted
+ * under a previous key can no longer be read.
+ */
+export function initializeEncryption(): Promise<{ created: boolean }> {
+  if (!keyPromise) {
+    keyPromise = loadOrCreateKey();
+    keyPromise.catch(error => {
+      console.error('[CustomerCrypto] Failed to load data key:', error?.message);
+      keyPromise = null;
+    });
+  }
+  return keyPromise;
+}
+
+function requireKey(): Uint8Array {
+  if (!dataKey) {
+    throw new Error('Customer data encryption used before initializeEncryption()');
+  }
+  return dataKey;
+}
+
+/** Whether a stored value was produced by `encryptField` */
+export function isFieldEncrypted(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(CIPHER_PREFIX);
+}
+
+/**
+ * Encrypt a plaintext field for storage. Empty values stay empty.
+ *
+ * @example
+ * const stored = encryptField('Juan Dela Cruz'); // 'g1:5f0c...'
+ */
+export function encryptField(plain: string): string {
+  if (!plain) return '';
+  const nonce = getRandomBytes(NONCE_BYTES);
+  const sealed = gcm(requireKey(), nonce).encrypt(utf8ToBytes(plain));
+  return CIPHER_PREFIX + bytesToHex(nonce) + bytesToHex(sealed);
+}
+
+/**
+ * Decrypt a stored field. Legacy plaintext is returned as-is; a value that
+ * fails authentication (tampered, or encrypted under another install's key)
+ * comes back empty rather than as garbage.
+ */
+export function decryptField(stored: string | null | undefined): string {
+  return tryDecryptField(stored) ?? '';
+}
+
+/** Like `decryptField`, but null when the value can't be decrypted (e.g. the key was lost) */
+export function tryDecryptField(stored: string | null | undefined): string | null {
+  if (!stored) return '';
+  if (!isFieldEncrypted(stored)) return stored;
+  try {
+    const bytes = hexToBytes(stored.slice(CIPHER_PREFIX.length));
+    const nonce = bytes.subarray(0, NONCE_BYTES);
+    const sealed = bytes.subarray(NONCE_BYTES);
+    return bytesToUtf8(gcm(requireKey(), nonce).decrypt(sealed));
+  } catch (error: any) {
+    console.warn('[CustomerCrypto] Could not decrypt field:', error?.message);
+    return null;
+  }
+}
+
+// --- Legacy XOR format (migration only) ---
+
+// Key of the original XOR "encryption"; only used to read names saved by older versions
+const LEGACY_XOR_KEY = 'dcwd-gis-fast-key-v1';
+
 /** Convert hex representation back to a raw string */
 function hexToString(hex: string): string {
   let str = '';
@@ -28,11 +129,9 @@ function hexToString(hex: string): string {
   return str;
 }
 
-// --- XOR cipher ---
-
 /** Fast XOR encrypt/decrypt (symmetric – same function for both directions) */
 function xorProcess(input: string): string {
-  const key = ENCRYPTION_KEY;
+  const key = LEGACY_XOR_KEY;
   const kLen = key.length;
   const len = input.length;
   const result = new Array(len);
@@ -43,46 +142,78 @@ function xorProcess(input: string): string {
   return result.join('');
 }
 
-// --- Public API ---
-
 /**
- * Encrypt a plaintext customer name for storage.
- * Returns a hex-encoded string that is safe for SQLite TEXT columns.
- * 
- * @example
- * const encrypted = encryptName('Juan Dela Cruz');
- * // Store `encrypted` in the database
+ * Check whether a name looks like it was saved in the legacy XOR format
+ * (i.e. it is a valid hex string with length divisible by 4).
  */
-export function encryptName(plainName: string): string {
-  if (!plainName) return '';
-  const encrypted = stringToHex(xorProcess(plainName));
-  return encrypted;
+export function isEncrypted(value: string): boolean {
+  if (!value || value.length === 0 || value.length % 4 !== 0) return false;
+  return /^[0-9a-f]+$/i.test(value);
 }
 
-/**
- * Decrypt a previously encrypted customer name.
- * Expects the hex-encoded string produced by `encryptName`.
- * 
- * @example
- * const name = decryptName(row.name);
- * // name === 'Juan Dela Cruz'
- */
-export function decryptName(encryptedHex: string): string {
+/** Decode a name saved in the legacy XOR format */
+export function decryptLegacyName(encryptedHex: string): string {
   if (!encryptedHex) return '';
   try {
-    const decrypted = xorProcess(hexToString(encryptedHex));
-    return decrypted;
+    return xorProcess(hexToString(encryptedHex));
   } catch {
     // If decryption fails (e.g. data was never encrypted), return as-is
     return encryptedHex;
   }
 }
 
+// --- Name search tokens ---
+
+// Names and addresses are only stored encrypted, so the full-text index holds
+// hashed prefixes of each word instead of the words themselves. The hash is
+// seeded from the install key, so tokens differ per device and can't be matched
+// against a precomputed table.
+const NAME_TOKEN_MIN_PREFIX = 2;
+const NAME_TOKEN_MAX_PREFIX = 10;
+
+/** Lowercase and split into ASCII words (ñ folds to n, like the FTS tokenizer) */
+export function splitSearchWords(text: string): string[] {
+  return text.toLowerCase().replace(/ñ/g, 'n').split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Keyed FNV-1a over a prefix (two seeded 32-bit lanes), as an FTS-safe token */
+function hashToken(prefix: string): string {
+  if (!tokenSeeds) {
+    throw new Error('Customer data encryption used before initializeEncryption()');
+  }
+  let a = (0x811c9dc5 ^ tokenSeeds[0]) >>> 0;
+  let b = (0x811c9dc5 ^ tokenSeeds[1]) >>> 0;
+  for (let i = 0; i < prefix.length; i++) {
+    const c = prefix.charCodeAt(i);
+    a = Math.imul(a ^ c, 0x01000193);
+    b = Math.imul(b ^ c ^ 0x5c, 0x01000193);
+  }
+  return 'n' + (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+}
+
 /**
- * Check whether a string looks like it was encrypted by this module
- * (i.e. it is a valid hex string with length divisible by 4).
+ * Build the space-separated search tokens for plaintext text (customer name,
+ * address): one hashed token per prefix (2-10 chars) of every word.
+ *
+ * @example
+ * nameSearchTokens('Juan Dela Cruz'); // 'n1a2b... n3c4d... ...'
  */
-export function isEncrypted(value: string): boolean {
-  if (!value || value.length === 0 || value.length % 4 !== 0) return false;
-  return /^[0-9a-f]+$/i.test(value);
+export function nameSearchTokens(plainText: string): string {
+  const tokens = new Set<string>();
+  for (const word of splitSearchWords(plainText)) {
+    const max = Math.min(word.length, NAME_TOKEN_MAX_PREFIX);
+    for (let len = NAME_TOKEN_MIN_PREFIX; len <= max; len++) {
+      tokens.add(hashToken(word.slice(0, len)));
+    }
+  }
+  return Array.from(tokens).join(' ');
+}
+
+/**
+ * Token to look up for a typed search word, or null if it is too short to match.
+ * Words longer than the indexed prefix length match on their first 10 characters.
+ */
+export function nameQueryToken(word: string): string | null {
+  if (word.length < NAME_TOKEN_MIN_PREFIX) return null;
+  return hashToken(word.slice(0, NAME_TOKEN_MAX_PREFIX));
 }
@@ -0,0 +1,136 @@
+import { fetchLeakReports, LeakReport, LEAK_TYPE_LABELS, REPORT_STATUSES, getReportStatusKey, parseReportGeometry } from '@/services/leakReportsService';
+import { distanceInMeters, LatLng } from '@/hooks/nearestMeter';
+import { useDashboardStore } from '@/utils/dashboardStore';
+import { useMobileReportStore } from '@/utils/mobileReportStore';
+import { useDraftReportsStore } from '@/utils/draftReportsStore';
+import { useSettingsStore } from '@/utils/settingsStore';
+
+/**
+ * Duplicate check run before a leak report is sent: finds the user's server
+ * reports, queued reports and drafts close to the new one, recent enough, and
+ * for the same meter or leak type.
+ */
+
+export type DuplicateCandidate = {
+  id: string;
+  source: 'server' | 'queued' | 'draft';
+  /** How remarks refer to it: the server refNo, or the report id sent with it */
+  reference: string;
+  leakType: string;
+  status: string;
+  meterNumber: string;
+  landmark: string;
+  reportedAt: string;
+  distanceMeters: number;
+  sameMeter: boolean;
+};
+
+export type DuplicateQuery = {
+  coordinates: string;
+  meterNumber: string;
+  leakType: string;
+  empId: string;
+  /** The draft being edited, which is not a duplicate of itself */
+  excludeDraftId?: string;
+};
+
+// Placeholder the form shows when there is no meter
+const NO_METER = '—';
+
+/** Fresh server reports when online, otherwise the ones the dashboard last loaded */
+async function loadServerReports(empId: string): Promise<LeakReport[]> {
+  if (empId) {
+    try {
+      const res = await fetchLeakReports(empId);
+      if (res.statusCode === 200 && res.data) return res.data.reports;
+    } catch (error: any) {
+      console.log('[DuplicateReports] Using cached server reports:', error?.message);
+    }
+  }
+  return useDashboardStore.getState().reports;
+}
+
+export async function findDuplicateReports(query: DuplicateQuery): Promise<DuplicateCandidate[]> {
+  const position = parseReportGeometry(query.coordinates);
+  if (!position) return [];
+
+  const { radiusMeters, windowHours } = useSettingsStore.getState().duplicateCheck;
+  const since = Date.now() - windowHours * 60 * 60 * 1000;
+  const meter = query.meterNumber && query.meterNumber !== NO_METER ? query.meterNumber : '';
+  const leakType = query.leakType.toLowerCase();
+
+  const candidates: DuplicateCandidate[] = [];
+  const consider = (
+    entry: Omit<DuplicateCandidate, 'distanceMeters' | 'sameMeter'>,
+    at: LatLng | null,
+  ) => {
+    if (!at) return;
+    const time = new Date(entry.reportedAt).getTime();
+    if (isNaN(time) || time < since) return;
+    const distance = distanceInMeters(position, at);
+    if (distance > radiusMeters) return;
+    const sameMeter = !!meter && entry.meterNumber === meter;
+    if (!sameMeter && entry.leakType.toLowerCase() !== leakType) return;
+    candidates.push({ ...entry, distanceMeters: distance, sameMeter });
+  };
+
+  const serverReports = await loadServerReports(query.empId);
+  const serverIds = new Set(serverReports.map(r => r.id));
+  for (const r of serverReports) {
+    consider({
+      id: r.id,
+      source: 'server',
+      reference: r.refNo || r.id,
+      leakType: LEAK_TYPE_LABELS[r.leakTypeId] || 'Unknown',
+      status: REPORT_STATUSES[getReportStatusKey(r.dispatchStat)].label,
+      meterNumber: r.referenceMtr ?? '',
+      landmark: r.reportedLandmark ?? '',
+      reportedAt: r.dtReported,
+    }, parseReportGeometry(r.geometry));
+  }
+
+  for (const r of useMobileReportStore.getState().cachedReports) {
+    // Already counted from the server list
+    if (serverIds.has(r.clientReportId)) continue;
+    consider({
+      id: r.id,
+      source: 'queued',
+      reference: r.serverReferenceNumber || r.clientReportId,
+      leakType: r.leakType,
+      status: r.syncStatus === 'synced' ? 'Sent' : 'Waiting to sync',
+      meterNumber: r.meterNumber,
+      landmark: r.landmark,
+      reportedAt: r.reportedAt,
+    }, parseReportGeometry(r.coordinates));
+  }
+
+  await useDraftReportsStore.getState().loadDrafts();
+  for (const d of useDraftReportsStore.getState().drafts) {
+    if (d.id === query.excludeDraftId) continue;
+    consider({
+      id: d.id,
+      source: 'draft',
+      reference: `draft saved ${new Date(d.savedAt).toLocaleString()}`,
+      leakType: d.leakType ?? '',
+      status: 'Draft',
+      meterNumber: d.meterNumber,
+      landmark: d.landmark,
+      reportedAt: d.savedAt,
+    }, parseReportGeometry(d.coordinates));
+  }
+
+  console.log(`[DuplicateReports] ${candidates.length} possible duplicate(s) within ${radiusMeters}m / ${windowHours}h`);
+  return candidates.sort((a, b) => Number(b.sameMeter) - Number(a.sameMeter) || a.distanceMeters - b.distanceMeters);
+}
+
+/** Remarks for a report filed as extra information on an existing one */
+export function attachRemarks(candidate: DuplicateCandidate): string {
+  return `Attached to existing report ${candidate.reference}`;
+}
+
+/** Remarks for a report sent although it looked like a duplicate */
+export function submitAnywayRemarks(candidates: DuplicateCandidate[], reason: string): string {
+  const references = candidates.filter(c => c.source !== 'draft').map(c => c.reference);
+  const duplicateOf = references.length > 0 ? `Possible duplicate of ${references.join(', ')}. ` : '';
+  return `${duplicateOf}Submitted anyway: ${reason.trim()}`;
+}
@@ -37,6 +37,160 @@ export interface LeakReportCounts {
   totalCount: number;
 }
 
+/** Leak type names by `leakTypeId` (the ids `getLeakTypeMapping` in mobileReport.ts sends) */
+export const LEAK_TYPE_LABELS: Record<number, string> = {
+  38: 'Serviceline',
+  39: 'Mainline',
+  40: 'Others',
+  61: 'Valve',
+  64: 'Blow-off',
+  65: 'Fire Hydrant',
+  66: 'Air Release',
+};
+
+/** Report statuses, one per `LeakReportCounts` category, plus `unknown` for unmapped codes */
+export type ReportStatusKey =
+  | 'reported'
+  | 'dispatched'
+  | 'repaired'
+  | 'scheduled'
+  | 'turnover'
+  | 'after'
+  | 'notFound'
+  | 'alreadyRepaired'
+  | 'unknown';
+
+export const REPORT_STATUSES: Record<ReportStatusKey, { label: string; color: string }> = {
+  reported: { label: 'Reported', color: '#3b82f6' },
+  dispatched: { label: 'Dispatched', color: '#f59e0b' },
+  repaired: { label: 'Repaired', color: '#10b981' },
+  scheduled: { label: 'Scheduled', color: '#8b5cf6' },
+  turnover: { label: 'Turned Over', color: '#0ea5e9' },
+  after: { label: 'After Meter', color: '#6b7280' },
+  notFound: { label: 'Not Found', color: '#ef4444' },
+  alreadyRepaired: { label: 'Already Repaired', color: '#14b8a6' },
+  unknown: { label: 'Unknown', color: '#9ca3af' },
+};
+
+// `dispatchStat` codes, assumed to follow the order the server lists its counts.
+// Only trusted once `confirmStatusCodes` has checked them against those counts
+const DISPATCH_STATUS_KEYS: ReportStatusKey[] = [
+  'reported',
+  'dispatched',
+  'repaired',
+  'scheduled',
+  'turnover',
+  'after',
+  'notFound',
+  'alreadyRepaired',
+];
+
+const STATUS_COUNT_FIELDS: Record<Exclude<ReportStatusKey, 'unknown'>, keyof LeakReportCounts> = {
+  reported: 'reportedCount',
+  dispatched: 'dispatchedCount',
+  repaired: 'repairedCount',
+  scheduled: 'scheduledCount',
+  turnover: 'turnoverCount',
+  after: 'afterCount',
+  notFound: 'notFoundCount',
+  alreadyRepaired: 'alreadyRepaired',
+};
+
+let statusCodesConfirmed = false;
+
+/**
+ * Check the assumed codes against the per-status counts the server sends
+ * with the same report list. Until a list agrees, every status shows as
+ * Unknown, so a wrong guess never shows (or notifies) a wrong status.
+ */
+export function confirmStatusCodes(counts: LeakReportCounts, reports: LeakReport[]): boolean {
+  const mapped: (ReportStatusKey | undefined)[] = reports.map(r => DISPATCH_STATUS_KEYS[r.dispatchStat]);
+  statusCodesConfirmed = !mapped.includes(undefined) &&
+    (Object.keys(STATUS_COUNT_FIELDS) as (keyof typeof STATUS_COUNT_FIELDS)[]).every(key =>
+      mapped.filter(k => k === key).length === counts[STATUS_COUNT_FIELDS[key]]
+    );
+  if (!statusCodesConfirmed) {
+    console.warn('[LeakReports] dispatchStat codes disagree with the server counts; showing statuses as Unknown');
+  }
+  return statusCodesConfirmed;
+}
+
+export function getReportStatusKey(dispatchStat: number): ReportStatusKey {
+  if (!statusCodesConfirmed) return 'unknown';
+  return DISPATCH_STATUS_KEYS[dispatchStat] ?? 'unknown';
+}
+
+export type TimelineStep = {
+  key: ReportStatusKey | 'resolved';
+  label: string;
+  color: string;
+  state: 'done' | 'current' | 'upcoming';
+};
+
+// Outcomes that end a report; any of them takes the place of the last timeline step
+const FINAL_STATUS_KEYS: ReportStatusKey[] = ['repaired', 'notFound', 'after', 'alreadyRepaired', 'turnover'];
+const PROGRESS_STATUS_KEYS: ReportStatusKey[] = ['reported', 'dispatched', 'scheduled'];
+
+/**
+ * Reported → dispatched → scheduled → outcome, marked up to the report's
+ * current status. An unknown status only counts the report as reported.
+ */
+export function getStatusTimeline(dispatchStat: number): TimelineStep[] {
+  const current = getReportStatusKey(dispatchStat);
+  const isFinal = FINAL_STATUS_KEYS.includes(current);
+  const isUnknown = current === 'unknown';
+  const reached = isFinal ? PROGRESS_STATUS_KEYS.length : isUnknown ? 1 : PROGRESS_STATUS_KEYS.indexOf(current);
+
+  const steps: TimelineStep[] = PROGRESS_STATUS_KEYS.map((key, index) => ({
+    key,
+    ...REPORT_STATUSES[key],
+    state: index < reached ? 'done' : index === reached && !isUnknown ? 'current' : 'upcoming',
+  }));
+  steps.push(isFinal || isUnknown
+    ? { key: current, ...REPORT_STATUSES[current], state: 'current' }
+    : { key: 'resolved', label: 'Repaired / Not Found / After Meter', color: '#9ca3af', state: 'upcoming' });
+  return steps;
+}
+
+/** Full URL for a report image; the server may return paths relative to the API host */
+export function reportImageUrl(path: string | null | undefined): string | null {
+  if (!path) return null;
+  if (/^(https?|data|file|content):/i.test(path)) return path;
+  return `${api.defaults.baseURL}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Read a report's `geometry`. Accepts the "lat, lng" string the app sends as
+ * `Geom`, GeoJSON points and WKT `POINT(lng lat)`; null if there's no usable point.
+ */
+export function parseReportGeometry(geometry: string | null | undefined): { lat: number; lng: number } | null {
+  if (!geometry) return null;
+  const text = geometry.trim();
+  let lat = NaN;
+  let lng = NaN;
+
+  if (text.startsWith('{')) {
+    try {
+      const coordinates = JSON.parse(text)?.coordinates;
+      if (Array.isArray(coordinates)) [lng, lat] = coordinates.map(Number);
+    } catch {
+      return null;
+    }
+  } else {
+    const wkt = text.match(/^POINT\s*\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)$/i);
+    if (wkt) {
+      lng = parseFloat(wkt[1]);
+      lat = parseFloat(wkt[2]);
+    } else {
+      [lat, lng] = text.split(',').map(part => parseFloat(part));
+    }
+  }
+
+  if (!isFinite(lat) || !isFinite(lng) || (lat === 0 && lng === 0)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
 export interface LeakReportsResponse {
   statusCode: number;
   message: string;
@@ -1,3 +1,4 @@
+import { randomUUID } from 'expo-crypto';
 import { api } from './api';
 
 // Types for the leak report API - matching the expected request body
@@ -17,6 +18,7 @@ export interface LeakReportPayload {
   reportedAt: string;  // ISO date string
   empId: string;  // Employee ID of the person reporting
   wss: number;  // Water supply system code (integer)
+  remarks?: string;  // e.g. why a possible duplicate was submitted anyway
 }
 
 // API request body structure
@@ -35,6 +37,7 @@ export interface LeakReportApiRequest {
   image1?: string;  // Base64 image
   image2?: string;  // Base64 image
   landmark?: string;  // Landmark photo
+  remarks?: string;
 }
 
 export interface LeakReportResponse {
@@ -59,12 +62,41 @@ export interface LeakReportResponse {
   };
 }
 
+// Why a sync attempt failed; decides whether and when it is retried
+export type SyncErrorKind = 'network' | 'timeout' | 'auth' | 'server' | 'validation';
+
 export interface CachedLeakReport extends LeakReportPayload {
   id: string;  // Local cache ID
+  clientReportId: string;  // UUID sent as the form `Id`; reused on every retry so the server can dedupe
   createdAt: string;
-  syncStatus: 'pending' | 'syncing' | 'synced' | 'failed';
+  // 'rejected' = server refused the payload (4xx); never retried automatically
+  syncStatus: 'pending' | 'syncing' | 'synced' | 'failed' | 'rejected';
   syncError?: string;
   serverReferenceNumber?: string;
+  attemptCount?: number;  // Sync attempts made so far
+  nextRetryAt?: string;  // ISO date before which automatic sync skips this report
+  errorKind?: SyncErrorKind;
+}
+
+// Generate a UUID v4 for a report; cryptographically random, since the server dedupes retries on it
+export function generateReportUuid(): string {
+  return randomUUID();
+}
+
+/**
+ * Detect the server refusing a report because its `Id` was already saved
+ * (e.g. an earlier attempt timed out after the server committed it).
+ * Returns the existing reference number if the response carries one.
+ */
+export function getAlreadySubmittedRef(error: any): { refNo?: string } | null {
+  const response = error?.response;
+  if (!response) return null;
+
+  const data = response.data;
+  const message = typeof data === 'string' ? data : data?.message || data?.title || '';
+  if (response.status !== 409 && !/already exists/i.test(message)) return null;
+
+  return { refNo: data?.data?.refNo ?? data?.refNo ?? undefined };
 }
 
 // Map leak type string to ID, jmsCode, and reportType based on new requirements
@@ -169,6 +201,7 @@ function convertToApiRequest(payload: LeakReportPayload): LeakReportApiRequest {
     image1: payload.leakPhotos[0] || '',
     image2: payload.leakPhotos[1] || '',
     landmark: payload.landmarkPhotos[0] || '',
+    remarks: payload.remarks,
   };
 }
 
@@ -202,8 +235,9 @@ export async function submitLeakReport(payload: LeakReportPayload): Promise<Leak
 /**
  * Submit a leak report with multipart form data (for file uploads)
  * Uses PascalCase field names as required by the API
+ * @param reportId - Stable client UUID for the `Id` field; pass the cached report's id so retries are idempotent
  */
-export async function submitLeakReportWithFiles(payload: LeakReportPayload): Promise<LeakReportResponse> {
+export async function submitLeakReportWithFiles(payload: LeakReportPayload, reportId?: string): Promise<LeakReportResponse> {
   const url = '/dcwd-gis/api/v1/admin/LeakReport/MobileLeakReport';
   console.log('[MobileReport API] Submitting leak report with form data...');
 
@@ -255,6 +289,9 @@ export async function submitLeakReportWithFiles(payload: LeakReportPayload): Pro
     formData.append('ReportedNumber', payload.contactNumber || '');
     // WsCode is integer($int32) — only send when we have a valid value
     formData.append('WsCode', (payload.wss ?? 0).toString());
+    if (payload.remarks) {
+      formData.append('Remarks', payload.remarks);
+    }
     
     // Format DtReported as "YYYY-MM-DD HH:mm:ss.SSSSSS+TZ"
     const reportDate = new Date(payload.reportedAt);
@@ -272,12 +309,7 @@ export async function submitLeakReportWithFiles(payload: LeakReportPayload): Pro
     const formattedDate = `${year}-${month}-${day} ${hours}:${minutes}:${seconds}.${microseconds}${tzSign}${tzHours}`;
     formData.append('DtReported', formattedDate);
     
-    // Generate a UUID v4 format ID for the report (React Native compatible)
-    const uuid = 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-      const r = Math.random() * 16 | 0;
-      const v = c === 'x' ? r : (r & 0x3 | 0x8);
-      return v.toString(16);
-    });
+    const uuid = reportId ?? generateReportUuid();
     formData.append('Id', uuid);
     
     // Log all FormData fields for debugging
@@ -295,6 +327,7 @@ export async function submitLeakReportWithFiles(payload: LeakReportPayload): Pro
     console.log('- ReportedNumber:', payload.contactNumber || '');
     console.log('- WsCode:', payload.wss);
     console.log('- ReportedBy:', payload.empId || '');
+    console.log('- Remarks:', payload.remarks || '');
     console.log('- DtReported:', formattedDate);
     console.log('- Id:', uuid);
 
@@ -0,0 +1,116 @@
+import type { BackendUser } from '../utils/auth';
+import type { CustomerApiItem } from './customerData';
+import type { LeakReport } from './leakReportsService';
+
+/**
+ * Fixture data served by the mock backend (see mockTransport.ts). Generated
+ * from a fixed seed so every install sees the same customers and reports.
+ */
+
+export const MOCK_EMP_ID = '900001';
+
+// Admin, so the environment switch in Settings stays reachable while mocked
+export function mockUser(username: string): BackendUser {
+  return {
+    id: 'mock-user-1',
+    fName: 'Mock',
+    mName: '',
+    lName: 'Inspector',
+    username,
+    accesslevel: 'admin',
+    deptId: 1,
+    empId: MOCK_EMP_ID,
+  };
+}
+
+// Davao City proper
+const CENTER = { lat: 7.0731, lng: 125.6128 };
+const CUSTOMER_COUNT = 500;
+
+const STREETS = ['Roxas Ave', 'San Pedro St', 'CM Recto St', 'Bonifacio St', 'J.P. Laurel Ave', 'Quirino Ave', 'Illustre St', 'Magallanes St'];
+const SURNAMES = ['Santos', 'Reyes', 'Cruz', 'Bautista', 'Garcia', 'Mendoza', 'Torres', 'Flores', 'Villanueva', 'Ramos'];
+const GIVEN_NAMES = ['Maria', 'Jose', 'Ana', 'Juan', 'Rosa', 'Pedro', 'Liza', 'Mark', 'Grace', 'Noel'];
+const DMAS = ['DMA-01', 'DMA-02', 'DMA-03', 'DMA-04'];
+const WSS = [{ name: 'Dumoy', code: 1 }, { name: 'Cabantian', code: 2 }, { name: 'Tugbok', code: 3 }];
+
+/** Small deterministic PRNG (mulberry32) */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+export const MOCK_CUSTOMERS: CustomerApiItem[] = (() => {
+  const random = seededRandom(20240601);
+  return Array.from({ length: CUSTOMER_COUNT }, (_, index) => {
+    // Spread over roughly 3km around the centre
+    const latitude = Number((CENTER.lat + (random() - 0.5) * 0.05).toFixed(6));
+    const longitude = Number((CENTER.lng + (random() - 0.5) * 0.05).toFixed(6));
+    const wss = pick(random, WSS);
+    const serial = String(index + 1).padStart(6, '0');
+    return {
+      gid: index + 1,
+      accountNumber: `071-${serial}-01`,
+      name: `${pick(random, SURNAMES)}, ${pick(random, GIVEN_NAMES)}`,
+      dma: pick(random, DMAS),
+      wss: wss.name,
+      address: `${Math.floor(random() * 900) + 1} ${pick(random, STREETS)}, Davao City`,
+      meterNumber: `MTR${serial}`,
+      connectionClass: random() < 0.85 ? 'Residential' : 'Commercial',
+      status: 'Active',
+      wssCode: wss.code,
+      geometry: `POINT(${longitude} ${latitude})`,
+      latitude,
+      longitude,
+    };
+  });
+})();
+
+/** Reports the mock user starts with, one per status so every screen has something to show */
+export function seedMockReports(now: Date = new Date()): LeakReport[] {
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+  const seeds: { dispatchStat: number; leakTypeId: number; hours: number; landmark: string }[] = [
+    { dispatchStat: 0, leakTypeId: 38, hours: 2, landmark: 'Beside the sari-sari store' },
+    { dispatchStat: 1, leakTypeId: 39, hours: 20, landmark: 'Near the barangay hall' },
+    { dispatchStat: 3, leakTypeId: 38, hours: 50, landmark: 'In front of the chapel' },
+    { dispatchStat: 2, leakTypeId: 65, hours: 120, landmark: 'Corner of the public market' },
+    { dispatchStat: 6, leakTypeId: 40, hours: 300, landmark: 'Behind the elementary school' },
+    { dispatchStat: 5, leakTypeId: 38, hours: 700, landmark: 'Across the gasoline station' },
+  ];
+
+  return seeds.map((seed, index) => {
+    const customer = MOCK_CUSTOMERS[index * 37];
+    return {
+      id: `mock-seed-${index + 1}`,
+      reportedBy: MOCK_EMP_ID,
+      leakTypeId: seed.leakTypeId,
+      refNo: `LR-MOCK-${String(index + 1).padStart(4, '0')}`,
+      reporterName: customer.name,
+      jmsCode: seed.leakTypeId === 39 ? '0101' : '0100',
+      reportedLocation: customer.address,
+      reportedLandmark: seed.landmark,
+      referenceMtr: customer.meterNumber,
+      reportedNumber: '09171234567',
+      dtReported: hoursAgo(seed.hours),
+      referenceRecaddrs: customer.accountNumber.split('-')[1],
+      dispatchStat: seed.dispatchStat,
+      reportType: 54,
+      priority: 2,
+      dmaCode: customer.dma,
+      leakCovering: 1,
+      geometry: `${customer.latitude}, ${customer.longitude}`,
+      remarks: '',
+      leakImage1: '',
+      leakImage2: '',
+      landmarkImage: '',
+    };
+  });
+}
@@ -0,0 +1,404 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MockServerSettings, useMockServerStore } from '../utils/mockServerStore';
+import { MOCK_CUSTOMERS, MOCK_EMP_ID, mockUser, seedMockReports } from './mockFixtures';
+import type { LeakReport, LeakReportCounts } from './leakReportsService';
+
+/**
+ * In-process stand-in for the DCWD GIS API, used as the axios adapter while
+ * the `mock` environment is active. Serves the fixtures in mockFixtures.ts,
+ * keeps submitted reports on the device and applies the latency and failure
+ * settings from useMockServerStore.
+ *
+ * Sign in with any username and password; the password "wrong" is refused.
+ */
+
+const DATA_KEY = '@mock_server_data';
+const TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+const API_PREFIX = '/dcwd-gis/api/v1/admin';
+
+type MockData = {
+  reports: LeakReport[];
+  /** Access tokens issued before this time (epoch ms) are refused with 401 */
+  accessValidFrom: number;
+  /** Likewise for refresh tokens, which ends the session */
+  refreshValidFrom: number;
+  nextRefNo: number;
+};
+
+type MockRequest = {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  /** JSON body, or the fields of a multipart form (files as `{ uri, name, type }`) */
+  body: Record<string, any>;
+  token: string | null;
+};
+
+type MockReply = { status: number; data: unknown };
+
+type MockRoute = {
+  method: string;
+  pattern: RegExp;
+  /** Whether a valid access token is required */
+  auth: boolean;
+  handle: (request: MockRequest, match: RegExpMatchArray, data: MockData) => MockReply | Promise<MockReply>;
+};
+
+let dataPromise: Promise<MockData> | null = null;
+
+function freshData(): MockData {
+  return { reports: seedMockReports(), accessValidFrom: 0, refreshValidFrom: 0, nextRefNo: 1 };
+}
+
+function loadData(): Promise<MockData> {
+  if (!dataPromise) {
+    dataPromise = AsyncStorage.getItem(DATA_KEY)
+      .then(stored => (stored ? (JSON.parse(stored) as MockData) : freshData()))
+      .catch(error => {
+        console.warn('[MockServer] Could not read stored data, starting fresh:', error);
+        return freshData();
+      });
+  }
+  return dataPromise;
+}
+
+async function saveData(data: MockData): Promise<void> {
+  dataPromise = Promise.resolve(data);
+  await AsyncStorage.setItem(DATA_KEY, JSON.stringify(data));
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function issueTokens() {
+  const now = Date.now();
+  const nonce = Math.random().toString(36).slice(2, 10);
+  return {
+    token: `mock-access.${now}.${nonce}`,
+    refreshToken: `mock-refresh.${now}.${nonce}`,
+    tokenExpiry: new Date(now + TOKEN_LIFETIME_MS).toISOString(),
+  };
+}
+
+/** Whether a token this mock issued is still accepted */
+function isTokenValid(token: string | null | undefined, kind: 'access' | 'refresh', validFrom: number): boolean {
+  const match = token?.match(new RegExp(`^mock-${kind}\\.(\\d+)\\.`));
+  if (!match) return false;
+  const issuedAt = Number(match[1]);
+  return issuedAt >= validFrom && (kind === 'refresh' || Date.now() < issuedAt + TOKEN_LIFETIME_MS);
+}
+
+function parseQuery(queryString: string): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const pair of queryString.split('&')) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  }
+  return query;
+}
+
+/** Fields of a React Native FormData, keyed by lower-case name */
+function formFields(form: any): Record<string, any> {
+  const parts: { fieldName: string; string?: string; uri?: string; name?: string; type?: string }[] =
+    typeof form.getParts === 'function'
+      ? form.getParts()
+      : (form._parts ?? []).map(([fieldName, value]: [string, any]) =>
+        typeof value === 'object' ? { fieldName, ...value } : { fieldName, string: String(value) });
+
+  const fields: Record<string, any> = {};
+  for (const part of parts) {
+    fields[part.fieldName.toLowerCase()] = part.uri ? { uri: part.uri, name: part.name, type: part.type } : part.string ?? '';
+  }
+  return fields;
+}
+
+function parseBody(data: unknown): Record<string, any> {
+  if (!data) return {};
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+  if (typeof FormData !== 'undefined' && data instanceof FormData) return formFields(data);
+  if (typeof data !== 'object') return {};
+
+  // Lower-case keys so JSON (`leakTypeId`) and multipart (`LeakTypeId`) bodies read alike
+  return Object.fromEntries(Object.entries(data as Record<string, any>).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+function toMockRequest(config: InternalAxiosRequestConfig): MockRequest {
+  const url = (config.url ?? '').replace(/^[a-z]+:\/\/[^/]+/i, '');
+  const [path, queryString = ''] = url.split('?');
+  const params = Object.fromEntries(Object.entries(config.params ?? {}).map(([key, value]) => [key, String(value)]));
+  const authorization = String(config.headers?.Authorization ?? '');
+
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    path,
+    query: { ...parseQuery(queryString), ...params },
+    body: parseBody(config.data),
+    token: authorization.startsWith('Bearer ') ? authorization.slice(7) : null,
+  };
+}
+
+function countReports(reports: LeakReport[]): LeakReportCounts {
+  const countOf = (dispatchStat: number) => reports.filter(r => r.dispatchStat === dispatchStat).length;
+  return {
+    reportedCount: countOf(0),
+    dispatchedCount: countOf(1),
+    repairedCount: countOf(2),
+    scheduledCount: countOf(3),
+    turnoverCount: countOf(4),
+    afterCount: countOf(5),
+    notFoundCount: countOf(6),
+    alreadyRepaired: countOf(7),
+    totalCount: reports.length,
+  };
+}
+
+function fileUri(value: unknown): string {
+  return value && typeof value === 'object' && 'uri' in value ? String((value as { uri: string }).uri) : '';
+}
+
+const ROUTES: MockRoute[] = [
+  {
+    method: 'POST',
+    pattern: /^\/userlogin\/login$/,
+    auth: false,
+    handle: ({ body }) => {
+      if (!body.username || !body.password) {
+        return { status: 400, data: { statusCode: 400, message: 'Username and password are required' } };
+      }
+      if (body.password === 'wrong') {
+        return { status: 401, data: { statusCode: 401, message: 'Invalid username or password' } };
+      }
+      return {
+        status: 200,
+        data: { statusCode: 200, message: 'Login successful', data: { ...mockUser(body.username), ...issueTokens() } },
+      };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/userlogin\/refresh-token$/,
+    auth: false,
+    handle: ({ body }, _match, data) => {
+      if (!isTokenValid(body.refreshtoken, 'refresh', data.refreshValidFrom)) {
+        return { status: 401, data: { statusCode: 401, message: 'Invalid refresh token' } };
+      }
+      return { status: 200, data: { statusCode: 200, message: 'Token refreshed', data: issueTokens() } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/customer\/paginate$/,
+    auth: true,
+    handle: ({ query }) => {
+      const pageIndex = Math.max(1, Number(query.PageIndex) || 1);
+      const pageSize = Math.max(1, Number(query.PageSize) || 20);
+      const search = query.Search?.toLowerCase();
+
+      // Fixtures never change, so an incremental update finds nothing new
+      let customers = query.StartDate ? [] : MOCK_CUSTOMERS;
+      if (search) {
+        customers = customers.filter(c =>
+          [c.name, c.meterNumber, c.accountNumber, c.address].some(value => value.toLowerCase().includes(search)));
+      }
+
+      const page = customers.slice((pageIndex - 1) * pageSize, pageIndex * pageSize);
+      return {
+        status: 200,
+        data: {
+          statusCode: 200,
+          message: 'Success',
+          data: { pageIndex, pageSize, count: customers.length, data: page, totalCount: customers.length },
+        },
+      };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/LeakReport\/MobileLeakReport$/,
+    auth: true,
+    handle: async ({ body }, _match, data) => {
+      const settings = useMockServerStore.getState().settings;
+      const errors: Record<string, string[]> = {};
+      if (!body.geom) errors.Geom = ['The Geom field is required.'];
+      if (!body.leaktypeid) errors.LeakTypeId = ['The LeakTypeId field is required.'];
+      if (settings.failure === 'validation') errors.ReportedLandmark = ['Simulated validation error from the mock server.'];
+      if (Object.keys(errors).length > 0) {
+        return {
+          status: 400,
+          data: { type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1', title: 'One or more validation errors occurred.', status: 400, errors },
+        };
+      }
+
+      // Retries reuse the form `Id`; answer like the real server does for a duplicate
+      const existing = body.id ? data.reports.find(r => r.id === body.id) : undefined;
+      if (existing) {
+        return { status: 409, data: { statusCode: 409, message: 'Report already exists', data: { refNo: existing.refNo } } };
+      }
+
+      const refNo = `LR-MOCK-${String(1000 + data.nextRefNo).padStart(4, '0')}`;
+      const report: LeakReport = {
+        id: body.id || `mock-${Date.now()}`,
+        reportedBy: body.reportedby || MOCK_EMP_ID,
+        leakTypeId: Number(body.leaktypeid),
+        refNo,
+        reporterName: body.reportername ?? '',
+        jmsCode: body.jmscode ?? '',
+        reportedLocation: body.reportedlocation ?? '',
+        reportedLandmark: body.reportedlandmark ?? '',
+        referenceMtr: body.referencemtr ?? '',
+        reportedNumber: body.reportednumber ?? '',
+        dtReported: body.dtreported ? new Date(body.dtreported).toISOString() : new Date().toISOString(),
+        referenceRecaddrs: body.referencerecaddrs ?? null,
+        dispatchStat: 0,
+        reportType: Number(body.reporttype) || 0,
+        priority: 2,
+        dmaCode: '',
+        leakCovering: Number(body.leakindicator) || 0,
+        geometry: String(body.geom),
+        remarks: body.remarks ?? '',
+        leakImage1: fileUri(body.image1),
+        leakImage2: fileUri(body.image2),
+        landmarkImage: fileUri(body.landmark),
+      };
+      await saveData({ ...data, reports: [report, ...data.reports], nextRefNo: data.nextRefNo + 1 });
+
+      return {
+        status: 200,
+        data: {
+          statusCode: 200,
+          message: 'Leak report submitted',
+          data: {
+            id: report.id,
+            geom: report.geometry,
+            refNo,
+            reportedBy: report.reportedBy,
+            referenceMtr: report.referenceMtr,
+            referenceRecaddrs: report.referenceRecaddrs ?? '',
+            reportedLocation: report.reportedLocation,
+            reportedLandmark: report.reportedLandmark,
+            leakTypeId: report.leakTypeId,
+            leakIndicator: report.leakCovering,
+            reporterName: report.reporterName,
+            reportedNumber: report.reportedNumber,
+            image1: report.leakImage1,
+            image2: report.leakImage2,
+            landmark: report.landmarkImage,
+          },
+        },
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/GetLeakReports\/mobile\/user\/([^/]+)$/,
+    auth: true,
+    handle: (_request, match, data) => {
+      const empId = decodeURIComponent(match[1]);
+      const reports = data.reports.filter(r => r.reportedBy === empId);
+      return { status: 200, data: { statusCode: 200, message: 'Success', data: { ...countReports(reports), reports } } };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/PushToken\/(register|unregister)$/,
+    auth: true,
+    handle: () => ({ status: 200, data: { statusCode: 200, message: 'Success' } }),
+  },
+];
+
+async function route(request: MockRequest, settings: MockServerSettings): Promise<MockReply> {
+  if (!request.path.startsWith(API_PREFIX)) {
+    return { status: 404, data: { statusCode: 404, message: `No mock for ${request.path}` } };
+  }
+  const path = request.path.slice(API_PREFIX.length);
+
+  for (const candidate of ROUTES) {
+    const match = candidate.method === request.method ? path.match(candidate.pattern) : null;
+    if (!match) continue;
+
+    const data = await loadData();
+    if (candidate.auth) {
+      if (!isTokenValid(request.token, 'access', data.accessValidFrom)) {
+        return { status: 401, data: { statusCode: 401, message: 'Unauthorized' } };
+      }
+      if (settings.failure === 'serverError') {
+        return { status: 500, data: { statusCode: 500, message: 'Simulated server error from the mock server.' } };
+      }
+    }
+    return candidate.handle(request, match, data);
+  }
+  return { status: 404, data: { statusCode: 404, message: `No mock for ${request.method} ${request.path}` } };
+}
+
+/** Axios adapter that answers from the mock backend instead of the network */
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  const settings = await useMockServerStore.getState().loadMockServer();
+
+  const timeout = config.timeout ?? 0;
+  const timesOut = timeout > 0 && settings.latencyMs > timeout;
+  await delay(timesOut ? timeout : settings.latencyMs);
+  if (timesOut) {
+    throw new AxiosError(`timeout of ${timeout}ms exceeded`, AxiosError.ECONNABORTED, config);
+  }
+  if (settings.failure === 'offline') {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+  }
+
+  const request = toMockRequest(config);
+  const { status, data } = await route(request, settings);
+  console.log(`[MockServer] ${request.method} ${request.path} -> ${status}`);
+
+  const response: AxiosResponse = { data, status, statusText: String(status), headers: {}, config, request: null };
+  if (status >= 200 && status < 300) return response;
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response,
+  );
+}
+
+/** Refuse current access tokens, so the next request goes through a token refresh */
+export async function expireMockAccessTokens(): Promise<void> {
+  const data = await loadData();
+  await saveData({ ...data, accessValidFrom: Date.now() + 1 });
+}
+
+/** Refuse current access and refresh tokens, so the session expires */
+export async function revokeMockSession(): Promise<void> {
+  const data = await loadData();
+  const now = Date.now() + 1;
+  await saveData({ ...data, accessValidFrom: now, refreshValidFrom: now });
+}
+
+// Next status for reports still in progress: reported → dispatched → scheduled → repaired
+const NEXT_DISPATCH_STAT: Record<number, number> = { 0: 1, 1: 3, 3: 2 };
+
+/** Move every in-progress report one status along (to exercise status notifications) */
+export async function advanceMockReports(): Promise<number> {
+  const data = await loadData();
+  let advanced = 0;
+  const reports = data.reports.map(report => {
+    const next = NEXT_DISPATCH_STAT[report.dispatchStat];
+    if (next === undefined) return report;
+    advanced++;
+    return { ...report, dispatchStat: next };
+  });
+  await saveData({ ...data, reports });
+  return advanced;
+}
+
+/** Back to the seed reports; signed-in sessions stay valid */
+export async function resetMockData(): Promise<void> {
+  await saveData(freshData());
+}
@@ -16,18 +16,43 @@ const isNotificationsAvailable = !!Notifications;
 const NOTIFICATION_ICON = 'ic_notification';
 const NOTIFICATION_COLOR = '#1a73e8';
 
+/** `data.type` of report status notifications */
+export const REPORT_STATUS_NOTIFICATION = 'report-status';
+
+/** Payload of a report status notification, read back when it is tapped */
+export type ReportStatusNotificationData = {
+  type: typeof REPORT_STATUS_NOTIFICATION;
+  reportId: string;
+  refNo?: string;
+  dispatchStat?: number;
+};
+
+function reportStatusData(notification: any): ReportStatusNotificationData | null {
+  const data = notification?.request?.content?.data;
+  if (data?.type !== REPORT_STATUS_NOTIFICATION || !data.reportId) return null;
+  return {
+    type: REPORT_STATUS_NOTIFICATION,
+    reportId: String(data.reportId),
+    refNo: data.refNo ? String(data.refNo) : undefined,
+    dispatchStat: data.dispatchStat != null && !isNaN(Number(data.dispatchStat)) ? Number(data.dispatchStat) : undefined,
+  };
+}
+
 // Configure notification behavior
 if (isNotificationsAvailable) {
-  // Suppress all foreground notification alerts/sounds/badges
-  // Progress notifications should only appear silently in the notification shade
+  // Suppress foreground alerts/sounds/badges so progress notifications only
+  // appear silently in the notification shade; status updates still show a banner
   Notifications.setNotificationHandler({
-    handleNotification: async () => ({
-      shouldShowAlert: false,
-      shouldPlaySound: false,
-      shouldSetBadge: false,
-      shouldShowBanner: false,
-      shouldShowList: false,
-    }),
+    handleNotification: async (notification: any) => {
+      const isStatusUpdate = !!reportStatusData(notification);
+      return {
+        shouldShowAlert: isStatusUpdate,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+        shouldShowBanner: isStatusUpdate,
+        shouldShowList: isStatusUpdate,
+      };
+    },
   });
 }
 
@@ -47,6 +72,44 @@ if (Platform.OS === 'android' && isNotificationsAvailable) {
 
   // Delete old noisy channel if it exists
   Notifications.deleteNotificationChannelAsync('downloads').catch(() => {});
+
+  // Report sync results are worth seeing, so they get a normal-importance channel
+  Notifications.setNotificationChannelAsync('report-sync', {
+    name: 'Report Sync',
+    description: 'Results of sending queued leak reports',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    showBadge: false,
+  });
+
+  // Dispatch status changes of the user's own reports
+  Notifications.setNotificationChannelAsync('report-status', {
+    name: 'Report Status',
+    description: 'Updates when a submitted leak report is dispatched or repaired',
+    importance: Notifications.AndroidImportance.HIGH,
+    showBadge: true,
+  });
+}
+
+/** Buttons shown on a download's progress notification */
+export type DownloadControls = 'running' | 'paused';
+export type DownloadAction = 'pause' | 'resume' | 'cancel';
+
+const DOWNLOAD_CATEGORIES: Record<DownloadControls, string> = {
+  running: 'download-running',
+  paused: 'download-paused',
+};
+
+if (isNotificationsAvailable) {
+  // Actions run in the background; the app does not need to come to the foreground
+  const cancelAction = { identifier: 'cancel', buttonTitle: 'Cancel', options: { opensAppToForeground: false, isDestructive: true } };
+  Notifications.setNotificationCategoryAsync(DOWNLOAD_CATEGORIES.running, [
+    { identifier: 'pause', buttonTitle: 'Pause', options: { opensAppToForeground: false } },
+    cancelAction,
+  ]).catch((error: any) => console.warn('[NotificationService] Could not register download actions:', error));
+  Notifications.setNotificationCategoryAsync(DOWNLOAD_CATEGORIES.paused, [
+    { identifier: 'resume', buttonTitle: 'Resume', options: { opensAppToForeground: false } },
+    cancelAction,
+  ]).catch((error: any) => console.warn('[NotificationService] Could not register download actions:', error));
 }
 
 /**
@@ -65,7 +128,13 @@ async function postNotification(
   id: string,
   title: string,
   body: string,
-  options: { sticky?: boolean; progress?: number } = {},
+  options: {
+    sticky?: boolean;
+    progress?: number;
+    channelId?: string;
+    controls?: DownloadControls;
+    data?: Record<string, unknown>;
+  } = {},
 ): Promise<void> {
   if (!isNotificationsAvailable) return;
   if (updateLocks.get(id)) return; // skip if an update is already in-flight
@@ -78,10 +147,11 @@ async function postNotification(
         title,
         body,
         sound: false, // No sound on any progress notification
-        data: options.progress !== undefined ? { progress: options.progress } : {},
+        data: options.data ?? (options.progress !== undefined ? { progress: options.progress } : {}),
+        ...(options.controls && { categoryIdentifier: DOWNLOAD_CATEGORIES[options.controls] }),
         ...(Platform.OS === 'android' && {
-          priority: Notifications.AndroidNotificationPriority.LOW,
-          channelId: 'downloads-silent',
+          priority: options.data ? Notifications.AndroidNotificationPriority.HIGH : Notifications.AndroidNotificationPriority.LOW,
+          channelId: options.channelId ?? 'downloads-silent',
           sticky: options.sticky ?? false,
           color: NOTIFICATION_COLOR,
           smallIcon: NOTIFICATION_ICON,
@@ -131,16 +201,19 @@ export async function requestNotificationPermissions(): Promise<boolean> {
 /**
  * Show the initial progress notification.
  * Creates a sticky notification that will be updated in-place as progress advances.
+ * Also used for state changes (e.g. paused) since it never skips the update.
+ * @param controls Pause/Resume and Cancel buttons to show; see `addDownloadActionListener`
  */
 export async function showDownloadNotification(
   id: string,
   title: string,
   progress: number,
-  message: string
+  message: string,
+  controls?: DownloadControls,
 ): Promise<void> {
   // Clear any stale lock before starting a fresh notification
   updateLocks.set(id, false);
-  await postNotification(id, title, message, { sticky: true, progress });
+  await postNotification(id, title, message, { sticky: true, progress, controls });
 }
 
 /**
@@ -151,9 +224,27 @@ export async function updateDownloadNotification(
   id: string,
   title: string,
   progress: number,
-  message: string
+  message: string,
+  controls?: DownloadControls,
 ): Promise<void> {
-  await postNotification(id, title, message, { sticky: true, progress });
+  await postNotification(id, title, message, { sticky: true, progress, controls });
+}
+
+/**
+ * Listen for the Pause/Resume/Cancel buttons on the notification with the given ID.
+ * @returns Function that removes the listener
+ */
+export function addDownloadActionListener(id: string, listener: (action: DownloadAction) => void): () => void {
+  if (!isNotificationsAvailable) return () => {};
+
+  const subscription = Notifications.addNotificationResponseReceivedListener((response: any) => {
+    if (response?.notification?.request?.identifier !== id) return;
+    const action = response.actionIdentifier;
+    if (action === 'pause' || action === 'resume' || action === 'cancel') {
+      listener(action);
+    }
+  });
+  return () => subscription.remove();
 }
 
 /**
@@ -182,6 +273,70 @@ export async function showDownloadErrorNotification(
   await postNotification(notifId, title, message, { sticky: false });
 }
 
+/**
+ * Show a summary after queued leak reports were sent (e.g. from background sync).
+ * Uses a fixed ID so repeated passes replace the previous summary.
+ */
+export async function showSyncSummaryNotification(
+  success: number,
+  failed: number,
+): Promise<void> {
+  const notifId = 'report-sync-summary';
+  const title = failed > 0 ? 'Some Reports Not Sent' : 'Reports Sent';
+  const parts: string[] = [];
+  if (success > 0) parts.push(`${success} report${success > 1 ? 's' : ''} submitted`);
+  if (failed > 0) parts.push(`${failed} failed and will be retried`);
+
+  updateLocks.set(notifId, false);
+  await postNotification(notifId, title, `${parts.join(', ')}.`, { sticky: false, channelId: 'report-sync' });
+}
+
+/**
+ * Tell the user one of their reports changed status. One notification per
+ * report, so a later change replaces an unread earlier one.
+ */
+export async function showReportStatusNotification(
+  data: Omit<ReportStatusNotificationData, 'type'>,
+  title: string,
+  message: string,
+): Promise<void> {
+  const notifId = `report-status-${data.reportId}`;
+  updateLocks.set(notifId, false);
+  await postNotification(notifId, title, message, {
+    sticky: false,
+    channelId: 'report-status',
+    data: { ...data, type: REPORT_STATUS_NOTIFICATION },
+  });
+}
+
+// The launch response stays readable for the whole session; don't open it twice.
+// Keyed by delivery time too, since a report's notifications share one identifier
+const handledResponses = new Set<string>();
+
+/**
+ * Listen for taps on report status notifications, including the one that
+ * launched the app (each tap is delivered once).
+ * @returns Function that removes the listener
+ */
+export function addReportStatusOpenedListener(listener: (data: ReportStatusNotificationData) => void): () => void {
+  if (!isNotificationsAvailable) return () => {};
+
+  const handleResponse = (response: any) => {
+    if (!response) return;
+    const key = `${response.notification?.request?.identifier}@${response.notification?.date}`;
+    if (handledResponses.has(key)) return;
+    handledResponses.add(key);
+    const data = reportStatusData(response.notification);
+    if (data) listener(data);
+  };
+
+  Notifications.getLastNotificationResponseAsync()
+    .then(handleResponse)
+    .catch((error: any) => console.warn('[NotificationService] Could not read launch notification:', error));
+  const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+  return () => subscription.remove();
+}
+
 /**
  * Dismiss a notification by identifier and clean up its lock.
  */
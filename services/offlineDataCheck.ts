@@ -0,0 +1,95 @@
+import { verifyCustomerDatabase, rebuildSearchIndex, hasCustomerData, CustomerDataProblem } from '@/utils/allCustomerData';
+import { verifyInstalledRegion } from '@/utils/mapRegions';
+import { useMapStore } from '@/utils/mapStore';
+import { useSettingsStore } from '@/utils/settingsStore';
+
+/**
+ * Integrity check and repair for everything the app keeps for offline use:
+ * the customer database and each installed map region.
+ */
+
+export type OfflineDataProblem =
+  | { kind: 'customers'; message: string; repair: CustomerDataProblem['repair'] }
+  | { kind: 'map'; message: string; regionId: string; regionName: string };
+
+/** Check the customer database and every installed map region */
+export async function verifyOfflineData(onProgress?: (message: string) => void): Promise<OfflineDataProblem[]> {
+  const problems: OfflineDataProblem[] = [];
+
+  onProgress?.('Checking customer data...');
+  if (await hasCustomerData()) {
+    for (const problem of await verifyCustomerDatabase()) {
+      problems.push({ kind: 'customers', ...problem });
+    }
+  }
+
+  await useMapStore.getState().checkExistingMap();
+  for (const region of useMapStore.getState().regions) {
+    try {
+      for (const message of await verifyInstalledRegion(region, onProgress)) {
+        problems.push({ kind: 'map', message, regionId: region.id, regionName: region.name });
+      }
+    } catch (error: any) {
+      problems.push({ kind: 'map', message: error?.message ?? String(error), regionId: region.id, regionName: region.name });
+    }
+  }
+
+  console.log(`[OfflineDataCheck] Found ${problems.length} problem(s)`);
+  return problems;
+}
+
+/**
+ * Fix the problems found by `verifyOfflineData`. A stale search index is
+ * rebuilt in place; bad customer data is downloaded again; damaged map regions
+ * are reinstalled from the manifest, or removed if the manifest no longer has
+ * them. Returns the problems that could not be repaired.
+ */
+export async function repairOfflineData(
+  problems: OfflineDataProblem[],
+  onProgress?: (message: string) => void,
+): Promise<string[]> {
+  const failures: string[] = [];
+  const customerRepairs = new Set(problems.flatMap(p => (p.kind === 'customers' ? [p.repair] : [])));
+
+  if (customerRepairs.has('reset') || customerRepairs.has('redownload')) {
+    const settings = useSettingsStore.getState();
+    try {
+      if (customerRepairs.has('reset')) {
+        onProgress?.('Clearing damaged customer data...');
+        await settings.clearCustomerDataAction();
+      }
+      onProgress?.('Downloading customer data...');
+      const result = await settings.downloadCustomerData();
+      if (!result.success) failures.push(`Customer data: ${result.message}`);
+    } catch (error: any) {
+      failures.push(`Customer data: ${error?.message ?? error}`);
+    }
+  } else if (customerRepairs.has('rebuildIndex')) {
+    onProgress?.('Rebuilding customer search index...');
+    try {
+      await rebuildSearchIndex();
+    } catch (error: any) {
+      failures.push(`Customer search index: ${error?.message ?? error}`);
+    }
+  }
+
+  const regionIds = Array.from(new Set(problems.flatMap(p => (p.kind === 'map' ? [p.regionId] : []))));
+  for (const id of regionIds) {
+    const mapStore = useMapStore.getState();
+    const entry = mapStore.manifest.find(e => e.id === id);
+    const name = entry?.name ?? mapStore.regions.find(r => r.id === id)?.name ?? id;
+
+    if (!entry) {
+      onProgress?.(`Removing ${name}...`);
+      await mapStore.removeRegion(id);
+      continue;
+    }
+
+    onProgress?.(`Reinstalling ${name}...`);
+    await mapStore.installRegion(entry);
+    const { error } = useMapStore.getState();
+    if (error) failures.push(`${name}: ${error}`);
+  }
+
+  return failures;
+}
@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LeakReport, LEAK_TYPE_LABELS, REPORT_STATUSES, getReportStatusKey } from './leakReportsService';
+import { showReportStatusNotification } from './notificationService';
+import { scopedKey } from '../utils/environment';
+
+/**
+ * Status change notifications: remembers each report's last seen
+ * `dispatchStat` and raises a notification when a fetched list differs.
+ */
+
+const SNAPSHOT_KEY = '@report_status_snapshot';
+
+type StatusSnapshot = {
+  empId: string;
+  statuses: Record<string, number>;
+};
+
+async function loadSnapshot(empId: string): Promise<StatusSnapshot | null> {
+  const stored = await AsyncStorage.getItem(await scopedKey(SNAPSHOT_KEY));
+  if (!stored) return null;
+  const snapshot: StatusSnapshot = JSON.parse(stored);
+  return snapshot.empId === empId ? snapshot : null;
+}
+
+/**
+ * Notify about reports whose status changed since the last call, then
+ * remember the new statuses. The first call for a user only records them.
+ */
+export async function notifyStatusChanges(empId: string, reports: LeakReport[]): Promise<void> {
+  const snapshot = await loadSnapshot(empId);
+
+  if (snapshot) {
+    for (const report of reports) {
+      const previous = snapshot.statuses[report.id];
+      if (previous === undefined || previous === report.dispatchStat) continue;
+
+      const statusKey = getReportStatusKey(report.dispatchStat);
+      const name = report.refNo || `${LEAK_TYPE_LABELS[report.leakTypeId] || 'Leak'} report`;
+      console.log(`[StatusWatcher] ${report.id}: ${previous} -> ${report.dispatchStat}`);
+      await showReportStatusNotification(
+        { reportId: report.id, refNo: report.refNo, dispatchStat: report.dispatchStat },
+        'Leak Report Update',
+        statusKey === 'unknown' ? `${name} has a new status.` : `${name} is now ${REPORT_STATUSES[statusKey].label}.`,
+      );
+    }
+  }
+
+  const statuses = Object.fromEntries(reports.map(r => [r.id, r.dispatchStat]));
+  await AsyncStorage.setItem(await scopedKey(SNAPSHOT_KEY), JSON.stringify({ empId, statuses } satisfies StatusSnapshot));
+}
+
+export async function clearStatusSnapshot(): Promise<void> {
+  await AsyncStorage.removeItem(await scopedKey(SNAPSHOT_KEY));
+}
@@ -0,0 +1,161 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import { loginRequest } from '@/services/authService';
+import { LeakReportPayload, submitLeakReportWithFiles } from '@/services/mobileReport';
+import { MockFailure, useMockServerStore } from '@/utils/mockServerStore';
+import { MAX_SYNC_ATTEMPTS, useMobileReportStore } from '@/utils/mobileReportStore';
+import { closeReportOutbox, loadOutboxReports } from '@/utils/reportOutbox';
+import { saveTokens } from '@/utils/tokenStorage';
+import { useEnvironmentStore } from '@/utils/environment';
+
+// Reports go through the real outbox and api client to the mock backend
+const payload: LeakReportPayload = {
+  meterNumber: 'M-1001',
+  accountNumber: '123-456789-01',
+  address: 'Bajada, Davao City',
+  dma: 'DMA-01',
+  coordinates: '7.0731, 125.6128',
+  leakType: 'Serviceline',
+  location: 'Surface',
+  contactPerson: 'Juan Dela Cruz',
+  contactNumber: '09171234567',
+  landmark: 'Near the chapel',
+  leakPhotos: [],
+  landmarkPhotos: [],
+  reportedAt: '2026-10-18T08:00:00.000Z',
+  empId: 'EMP-001',
+  wss: 1,
+};
+
+const { __resetDatabases } = SQLite as unknown as typeof import('@/__mocks__/expo-sqlite');
+
+const initialState = useMobileReportStore.getState();
+
+function failWith(failure: MockFailure) {
+  return useMockServerStore.getState().setMockServer({ failure });
+}
+
+function stored(id: string) {
+  return useMobileReportStore.getState().cachedReports.find(r => r.id === id)!;
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  __resetDatabases();
+  useMobileReportStore.setState(initialState, true);
+
+  await useEnvironmentStore.getState().setEnvironment('mock');
+  await useMockServerStore.getState().setMockServer({ latencyMs: 0, failure: 'none' });
+  const { data } = await loginRequest('tester', 'secret');
+  await saveTokens(data);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await closeReportOutbox();
+});
+
+describe('syncAllPending', () => {
+  it('sends a queued report and records its reference number', async () => {
+    const report = await useMobileReportStore.getState().addReport(payload);
+
+    await expect(useMobileReportStore.getState().syncAllPending()).resolves.toEqual({ success: 1, failed: 0 });
+
+    expect(stored(report.id)).toMatchObject({ syncStatus: 'synced', serverReferenceNumber: expect.stringMatching(/^LR-MOCK-/) });
+    const [row] = await loadOutboxReports();
+    expect(row).toMatchObject({ syncStatus: 'synced', serverReferenceNumber: stored(report.id).serverReferenceNumber });
+  });
+
+  it('backs off after a network failure and sends once the retry is due', async () => {
+    const report = await useMobileReportStore.getState().addReport(payload);
+    await failWith('offline');
+
+    const before = Date.now();
+    await expect(useMobileReportStore.getState().syncAllPending()).resolves.toEqual({ success: 0, failed: 1 });
+
+    const failed = stored(report.id);
+    expect(failed).toMatchObject({ syncStatus: 'failed', errorKind: 'network', attemptCount: 1 });
+    // 30s first delay, +/-20% jitter
+    const delay = new Date(failed.nextRetryAt!).getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(24_000);
+    expect(delay).toBeLessThanOrEqual(36_000 + 1_000);
+
+    await failWith('none');
+    await expect(useMobileReportStore.getState().syncAllPending()).resolves.toEqual({ success: 0, failed: 0 });
+    expect(stored(report.id).syncStatus).toBe('failed');
+
+    jest.spyOn(Date, 'now').mockReturnValue(new Date(failed.nextRetryAt!).getTime() + 1);
+    await expect(useMobileReportStore.getState().syncAllPending()).resolves.toEqual({ success: 1, failed: 0 });
+    expect(stored(report.id).syncStatus).toBe('synced');
+  });
+
+  it('doubles the delay with each attempt', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5); // no jitter
+    const report = await useMobileReportStore.getState().addReport(payload);
+    await failWith('serverError');
+
+    const delays: number[] = [];
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await useMobileReportStore.getState().syncAllPending();
+      const nextRetryAt = new Date(stored(report.id).nextRetryAt!).getTime();
+      delays.push(nextRetryAt - now);
+      now = nextRetryAt;
+    }
+
+    expect(stored(report.id)).toMatchObject({ errorKind: 'server', attemptCount: 3 });
+    expect(delays).toEqual([30_000, 60_000, 120_000]);
+  });
+
+  it('stops retrying automatically once the attempt budget is spent', async () => {
+    const report = await useMobileReportStore.getState().addReport(payload);
+    await failWith('offline');
+
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt++) {
+      await useMobileReportStore.getState().syncAllPending();
+      now += 7 * 60 * 60 * 1000; // past the longest backoff
+    }
+
+    expect(stored(report.id)).toMatchObject({ syncStatus: 'failed', attemptCount: MAX_SYNC_ATTEMPTS, nextRetryAt: undefined });
+    await failWith('none');
+    await expect(useMobileReportStore.getState().syncAllPending()).resolves.toEqual({ success: 0, failed: 0 });
+
+    // A manual retry still goes through
+    jest.restoreAllMocks();
+    await expect(useMobileReportStore.getState().retryNow(report.id)).resolves.toBe(true);
+    expect(stored(report.id).syncStatus).toBe('synced');
+  });
+
+  it('marks a report the server refuses as rejected and leaves it out of automatic sync', async () => {
+    const report = await useMobileReportStore.getState().addReport(payload);
+    await failWith('validation');
+
+    await useMobileReportStore.getState().syncAllPending();
+    expect(stored(report.id)).toMatchObject({ syncStatus: 'rejected', errorKind: 'validation', nextRetryAt: undefined });
+
+    await failWith('none');
+    await expect(useMobileReportStore.getState().syncAllPending({ force: true })).resolves.toEqual({ success: 0, failed: 0 });
+    await expect(useMobileReportStore.getState().retryNow(report.id)).resolves.toBe(true);
+    expect(stored(report.id).syncStatus).toBe('synced');
+  });
+
+  it('marks a report synced when an earlier attempt already reached the server', async () => {
+    const report = await useMobileReportStore.getState().addReport(payload);
+    // As if a previous attempt timed out after the server had saved it
+    const { data } = await submitLeakReportWithFiles(report, report.clientReportId);
+
+    await expect(useMobileReportStore.getState().syncAllPending()).resolves.toEqual({ success: 1, failed: 0 });
+    expect(stored(report.id)).toMatchObject({ syncStatus: 'synced', serverReferenceNumber: data?.refNo });
+  });
+
+  it('clears isSyncing when a pass throws', async () => {
+    await useMobileReportStore.getState().addReport(payload);
+    useMobileReportStore.setState({ syncReport: () => Promise.reject(new Error('outbox closed')) });
+
+    await expect(useMobileReportStore.getState().syncAllPending()).rejects.toThrow('outbox closed');
+    expect(useMobileReportStore.getState().isSyncing).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { AxiosError } from 'axios';
+import { classifySyncError } from '@/utils/networkUtils';
+
+function httpError(status: number, data: unknown = {}) {
+  return {
+    message: `Request failed with status code ${status}`,
+    response: { status, data },
+  };
+}
+
+describe('classifySyncError', () => {
+  it('retries when the request never got a response', () => {
+    expect(classifySyncError(new AxiosError('Network Error', AxiosError.ERR_NETWORK))).toMatchObject({
+      kind: 'network',
+      retryable: true,
+    });
+    expect(classifySyncError(new AxiosError('timeout of 30000ms exceeded', AxiosError.ECONNABORTED))).toMatchObject({
+      kind: 'timeout',
+      retryable: true,
+    });
+  });
+
+  it('retries an expired session', () => {
+    expect(classifySyncError(httpError(401))).toMatchObject({ kind: 'auth', retryable: true });
+  });
+
+  it('rejects a 403 for good', () => {
+    expect(classifySyncError(httpError(403))).toMatchObject({ kind: 'validation', retryable: false });
+  });
+
+  it.each([408, 429, 500, 503])('retries a %i', status => {
+    expect(classifySyncError(httpError(status))).toMatchObject({ kind: 'server', retryable: true });
+  });
+
+  it.each([400, 404, 422])('rejects a %i', status => {
+    expect(classifySyncError(httpError(status))).toMatchObject({ kind: 'validation', retryable: false });
+  });
+
+  it("passes on the server's message", () => {
+    const { message } = classifySyncError(httpError(400, { message: 'ReportedLandmark is required' }));
+    expect(message).toContain('ReportedLandmark is required');
+  });
+});
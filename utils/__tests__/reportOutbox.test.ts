@@ -0,0 +1,138 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import { CachedLeakReport } from '@/services/mobileReport';
+import { useEnvironmentStore } from '@/utils/environment';
+import { closeReportOutbox, initializeOutbox, loadOutboxReports } from '@/utils/reportOutbox';
+
+const { __resetDatabases } = SQLite as unknown as typeof import('@/__mocks__/expo-sqlite');
+
+const LEGACY_CACHE_KEY = 'leak_reports_cache';
+
+function legacyReport(id: string, syncStatus: CachedLeakReport['syncStatus']) {
+  return {
+    id,
+    createdAt: `2026-10-0${id.slice(-1)}T08:00:00.000Z`,
+    syncStatus,
+    meterNumber: 'M-1001',
+    accountNumber: '123-456789-01',
+    address: 'Bajada, Davao City',
+    dma: 'DMA-01',
+    coordinates: '7.0731, 125.6128',
+    leakType: 'Serviceline',
+    location: 'Surface',
+    contactPerson: 'Juan Dela Cruz',
+    contactNumber: '09171234567',
+    landmark: 'Near the chapel',
+    leakPhotos: ['file:///photos/leak.jpg'],
+    landmarkPhotos: [],
+    reportedAt: '2026-10-01T07:55:00.000Z',
+    empId: 'EMP-001',
+    wss: 1,
+  };
+}
+
+/** An outbox file as the first SQLite release (schema v0) left it */
+async function createV0Outbox(rows: { id: string; syncStatus: string }[]) {
+  const db = await SQLite.openDatabaseAsync('reportoutbox.db');
+  await db.execAsync(`
+    CREATE TABLE report_outbox (
+      id TEXT PRIMARY KEY NOT NULL,
+      createdAt TEXT NOT NULL,
+      syncStatus TEXT NOT NULL,
+      syncError TEXT,
+      serverReferenceNumber TEXT,
+      payload TEXT NOT NULL
+    );
+  `);
+  for (const { id, syncStatus } of rows) {
+    const { id: _id, createdAt, syncStatus: _status, ...payload } = legacyReport(id, 'pending');
+    await db.runAsync(
+      'INSERT INTO report_outbox (id, createdAt, syncStatus, payload) VALUES (?, ?, ?, ?)',
+      [id, createdAt, syncStatus, JSON.stringify(payload)]
+    );
+  }
+  await db.closeAsync();
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  __resetDatabases();
+});
+
+afterEach(async () => {
+  await closeReportOutbox();
+});
+
+describe('legacy AsyncStorage cache', () => {
+  it('moves queued reports into the outbox and then drops the old key', async () => {
+    await AsyncStorage.setItem(LEGACY_CACHE_KEY, JSON.stringify([
+      legacyReport('report_1', 'syncing'),
+      legacyReport('report_2', 'failed'),
+    ]));
+
+    await initializeOutbox();
+    const reports = await loadOutboxReports();
+
+    expect(reports.map(r => [r.id, r.syncStatus])).toEqual([['report_1', 'pending'], ['report_2', 'failed']]);
+    expect(reports[0]).toMatchObject({ attemptCount: 0, leakPhotos: ['file:///photos/leak.jpg'], empId: 'EMP-001' });
+    expect(reports[0].clientReportId).toBeTruthy();
+    expect(reports[0].clientReportId).not.toBe(reports[1].clientReportId);
+    expect(await AsyncStorage.getItem(LEGACY_CACHE_KEY)).toBeNull();
+  });
+
+  it('leaves a cache that is not valid JSON in place', async () => {
+    await AsyncStorage.setItem(LEGACY_CACHE_KEY, '[{"id": "report_1"');
+
+    await initializeOutbox();
+
+    expect(await loadOutboxReports()).toEqual([]);
+    expect(await AsyncStorage.getItem(LEGACY_CACHE_KEY)).toBe('[{"id": "report_1"');
+  });
+
+  it("is not moved into another environment's outbox", async () => {
+    await AsyncStorage.setItem(LEGACY_CACHE_KEY, JSON.stringify([legacyReport('report_1', 'pending')]));
+    await useEnvironmentStore.getState().setEnvironment('mock');
+
+    try {
+      await initializeOutbox();
+      expect(await loadOutboxReports()).toEqual([]);
+      expect(await AsyncStorage.getItem(LEGACY_CACHE_KEY)).not.toBeNull();
+    } finally {
+      await closeReportOutbox();
+      await useEnvironmentStore.getState().setEnvironment('development');
+    }
+  });
+});
+
+describe('schema migrations', () => {
+  it('adds retry bookkeeping and a client id to existing rows', async () => {
+    await createV0Outbox([
+      { id: 'report_1', syncStatus: 'failed' },
+      { id: 'report_2', syncStatus: 'syncing' },
+    ]);
+
+    await initializeOutbox();
+    const reports = await loadOutboxReports();
+
+    expect(reports).toHaveLength(2);
+    expect(reports[0]).toMatchObject({ id: 'report_1', syncStatus: 'failed', attemptCount: 0, nextRetryAt: undefined, errorKind: undefined });
+    // Left mid-send by a crash, so queued again
+    expect(reports[1]).toMatchObject({ id: 'report_2', syncStatus: 'pending' });
+    expect(new Set(reports.map(r => r.clientReportId)).size).toBe(2);
+  });
+
+  it('runs once: client ids survive reopening the outbox', async () => {
+    await createV0Outbox([{ id: 'report_1', syncStatus: 'pending' }]);
+
+    await initializeOutbox();
+    const [before] = await loadOutboxReports();
+    await closeReportOutbox();
+
+    await initializeOutbox();
+    const [after] = await loadOutboxReports();
+
+    expect(after.clientReportId).toBe(before.clientReportId);
+    const db = await SQLite.openDatabaseAsync('reportoutbox.db');
+    await expect(db.getFirstAsync('PRAGMA user_version')).resolves.toEqual({ user_version: 2 });
+  });
+});
@@ -1,6 +1,17 @@
 import * as SQLite from 'expo-sqlite';
 import { InteractionManager } from 'react-native';
-import { decryptName, isEncrypted } from '@/services/customerInterceptor';
+import {
+  decryptField,
+  decryptLegacyName,
+  encryptField,
+  initializeEncryption,
+  isEncrypted,
+  isFieldEncrypted,
+  nameQueryToken,
+  nameSearchTokens,
+  splitSearchWords,
+} from '@/services/customerInterceptor';
+import { distanceInMeters } from '@/hooks/nearestMeter';
 
 export type Customer = {
   meterNumber: string;
@@ -14,10 +25,98 @@ export type Customer = {
   wssCode?: number;
   connectionClass?: string;
   status?: string;
+  // Hashed word prefixes for search (see `nameSearchTokens`); written on save, never read back
+  nameTokens?: string;
+  addressTokens?: string;
 };
 
+/** A customer returned by a proximity query, with its distance from the query point */
+export type NearbyCustomer = Customer & { distanceMeters: number };
+
 const DB_NAME = 'customerdata.db';
 
+// sync_meta key holding the server time the last complete download/update started
+const LAST_SYNC_KEY = 'last_customer_sync';
+
+// sync_meta key holding the row count recorded with the last-sync time, checked by `verifyCustomerDatabase`
+const ROW_COUNT_KEY = 'customer_row_count';
+
+// Spatial grid: every row stores the cell it falls in, indexed on (cellLat, cellLng).
+// 0.005 deg is ~550m at Davao's latitude. Coordinates are shifted to be non-negative
+// so integer truncation in SQL matches Math.floor here.
+const CELL_SIZE_DEG = 0.005;
+const METERS_PER_DEG_LAT = 111320;
+
+function cellLatOf(latitude: number): number {
+  return Math.floor((latitude + 90) / CELL_SIZE_DEG);
+}
+
+function cellLngOf(longitude: number): number {
+  return Math.floor((longitude + 180) / CELL_SIZE_DEG);
+}
+
+// Column definitions shared by `customers` and the `customers_staging` import table
+const CUSTOMER_COLUMNS_SQL = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  meterNumber TEXT,
+  accountNumber TEXT,
+  address TEXT,
+  dma TEXT,
+  latitude REAL,
+  longitude REAL,
+  name TEXT,
+  wss TEXT,
+  wssCode INTEGER,
+  connectionClass TEXT,
+  status TEXT,
+  cellLat INTEGER,
+  cellLng INTEGER,
+  nameTokens TEXT,
+  addressTokens TEXT
+`;
+
+// External-content FTS5 index over `customers`, kept in sync by triggers.
+// Name and address are encrypted, so they are indexed through their hashed tokens.
+// Prefix indexes make short "as you type" prefixes cheap.
+const SEARCH_INDEX_SQL = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS customers_fts USING fts5(
+    meterNumber, accountNumber, dma, nameTokens, addressTokens,
+    content='customers', content_rowid='id', prefix='2 3 4'
+  );
+`;
+
+const SEARCH_TRIGGERS_SQL = `
+  CREATE TRIGGER IF NOT EXISTS customers_fts_ai AFTER INSERT ON customers BEGIN
+    INSERT INTO customers_fts (rowid, meterNumber, accountNumber, dma, nameTokens, addressTokens)
+    VALUES (new.id, new.meterNumber, new.accountNumber, new.dma, new.nameTokens, new.addressTokens);
+  END;
+  CREATE TRIGGER IF NOT EXISTS customers_fts_ad AFTER DELETE ON customers BEGIN
+    INSERT INTO customers_fts (customers_fts, rowid, meterNumber, accountNumber, dma, nameTokens, addressTokens)
+    VALUES ('delete', old.id, old.meterNumber, old.accountNumber, old.dma, old.nameTokens, old.addressTokens);
+  END;
+  CREATE TRIGGER IF NOT EXISTS customers_fts_au AFTER UPDATE ON customers BEGIN
+    INSERT INTO customers_fts (customers_fts, rowid, meterNumber, accountNumber, dma, nameTokens, addressTokens)
+    VALUES ('delete', old.id, old.meterNumber, old.accountNumber, old.dma, old.nameTokens, old.addressTokens);
+    INSERT INTO customers_fts (rowid, meterNumber, accountNumber, dma, nameTokens, addressTokens)
+    VALUES (new.id, new.meterNumber, new.accountNumber, new.dma, new.nameTokens, new.addressTokens);
+  END;
+`;
+
+// Search ranking: meter/account hits outrank name, then address, then DMA
+const SEARCH_RANK_SQL = 'bm25(customers_fts, 10.0, 8.0, 1.0, 4.0, 2.0)';
+
+const STAGING_TABLE = 'customers_staging';
+
+// sync_meta key holding the in-progress full import (see `StagedImport`)
+const STAGED_IMPORT_KEY = 'staged_import';
+
+/** A full download being written to the staging table; persisted so it can resume after a restart */
+export type StagedImport = {
+  startedAt: string;  // Becomes the last-sync time once the import is swapped in
+  totalCount: number;  // Server `count` the finished import is verified against
+  pageSize: number;
+};
+
 // Singleton database instance and initialization promise
 let dbInstance: SQLite.SQLiteDatabase | null = null;
 let initPromise: Promise<SQLite.SQLiteDatabase> | null = null;
@@ -33,6 +132,9 @@ async function initDatabase(): Promise<SQLite.SQLiteDatabase> {
     });
   });
   
+  // Names/addresses are stored encrypted; the key must be loaded before any row is read or written
+  const { created: newKey } = await initializeEncryption();
+  
   console.log('[CustomerDB] Opening database...');
   
   // Open the database
@@ -58,9 +160,48 @@ async function initDatabase(): Promise<SQLite.SQLiteDatabase> {
       console.log('[CustomerDB] Old schema detected, recreating table...');
       await db.execAsync(`
         DROP TABLE IF EXISTS customers;
+        DROP TABLE IF EXISTS customers_fts;
         DROP INDEX IF EXISTS idx_meter;
         DROP INDEX IF EXISTS idx_account;
       `);
+    } else if (tableInfo.length > 0 && !columnNames.includes('addressTokens')) {
+      // Saved before encryption at rest; `addressTokens IS NULL` marks rows for `migrateLegacyRows`
+      console.log('[CustomerDB] Adding search token columns...');
+      if (!columnNames.includes('nameTokens')) {
+        await db.execAsync(`ALTER TABLE customers ADD COLUMN nameTokens TEXT`);
+      }
+      await db.execAsync(`ALTER TABLE customers ADD COLUMN addressTokens TEXT`);
+    }
+    if (tableInfo.length > 0 && hasNewColumns && !columnNames.includes('cellLat')) {
+      // Data downloaded before the spatial grid existed - add and backfill the cell columns
+      console.log('[CustomerDB] Adding spatial grid columns...');
+      await db.execAsync(`
+        ALTER TABLE customers ADD COLUMN cellLat INTEGER;
+        ALTER TABLE customers ADD COLUMN cellLng INTEGER;
+        UPDATE customers SET
+          cellLat = CAST((latitude + 90) / ${CELL_SIZE_DEG} AS INTEGER),
+          cellLng = CAST((longitude + 180) / ${CELL_SIZE_DEG} AS INTEGER);
+      `);
+    }
+    
+    // An unfinished import staged under an older schema can't be resumed
+    const stagingInfo = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${STAGING_TABLE})`);
+    if (stagingInfo.length > 0 && !stagingInfo.some(col => col.name === 'addressTokens')) {
+      console.log('[CustomerDB] Discarding unfinished import from an older schema');
+      await db.execAsync(`DROP TABLE ${STAGING_TABLE}; DROP TABLE IF EXISTS import_pages;`);
+      await db.runAsync('DELETE FROM sync_meta WHERE key = ?', [STAGED_IMPORT_KEY]);
+    }
+    
+    // The first search index version indexed the plaintext address; replace it
+    const ftsInfo = await db.getAllAsync<{ name: string }>('PRAGMA table_info(customers_fts)');
+    if (ftsInfo.some(col => col.name === 'address')) {
+      console.log('[CustomerDB] Dropping plaintext search index...');
+      await db.execAsync(`
+        DROP TRIGGER IF EXISTS customers_fts_ai;
+        DROP TRIGGER IF EXISTS customers_fts_ad;
+        DROP TRIGGER IF EXISTS customers_fts_au;
+        DROP TABLE customers_fts;
+      `);
     }
   } catch (e) {
     // Table might not exist yet, which is fine
@@ -70,29 +211,98 @@ async function initDatabase(): Promise<SQLite.SQLiteDatabase> {
   // Create tables - use a single exec call to minimize lock time
   console.log('[CustomerDB] Creating tables...');
   await db.execAsync(`
-    CREATE TABLE IF NOT EXISTS customers (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      meterNumber TEXT,
-      accountNumber TEXT,
-      address TEXT,
-      dma TEXT,
-      latitude REAL,
-      longitude REAL,
-      name TEXT,
-      wss TEXT,
-      wssCode INTEGER,
-      connectionClass TEXT,
-      status TEXT
-    );
+    CREATE TABLE IF NOT EXISTS customers (${CUSTOMER_COLUMNS_SQL});
     CREATE INDEX IF NOT EXISTS idx_meter ON customers(meterNumber);
     CREATE INDEX IF NOT EXISTS idx_account ON customers(accountNumber);
+    CREATE INDEX IF NOT EXISTS idx_cell ON customers(cellLat, cellLng);
+    CREATE TABLE IF NOT EXISTS sync_meta (
+      key TEXT PRIMARY KEY NOT NULL,
+      value TEXT
+    );
   `);
   
+  // Delta sync upserts on (accountNumber, meterNumber). Downloads made before the
+  // key existed may hold duplicate rows, so keep only the newest before adding it.
+  const indexes = await db.getAllAsync<{ name: string }>('PRAGMA index_list(customers)');
+  if (!indexes.some(index => index.name === 'idx_customer_key')) {
+    console.log('[CustomerDB] Adding unique customer key...');
+    await db.execAsync(`
+      DELETE FROM customers WHERE id NOT IN (
+        SELECT MAX(id) FROM customers GROUP BY accountNumber, meterNumber
+      );
+      CREATE UNIQUE INDEX idx_customer_key ON customers(accountNumber, meterNumber);
+    `);
+  }
+  
+  // A new key can't read rows encrypted under the old one (secure store wiped); drop them
+  if (newKey) {
+    const unreadable = await db.getFirstAsync<{ id: number }>(
+      "SELECT id FROM customers WHERE name LIKE 'g1:%' OR address LIKE 'g1:%' LIMIT 1"
+    );
+    if (unreadable) {
+      console.warn('[CustomerDB] Data key was reset; clearing customer data encrypted under the old key');
+      await db.execAsync(`
+        DROP TRIGGER IF EXISTS customers_fts_ai;
+        DROP TRIGGER IF EXISTS customers_fts_ad;
+        DROP TRIGGER IF EXISTS customers_fts_au;
+        DROP TABLE IF EXISTS customers_fts;
+        DELETE FROM customers;
+        DELETE FROM sync_meta;
+        DROP TABLE IF EXISTS ${STAGING_TABLE};
+        DROP TABLE IF EXISTS import_pages;
+      `);
+    }
+  }
+  
+  await migrateLegacyRows(db);
+  
+  // Create the search index; a new (or previously missing) index is filled from the table
+  const hasSearchIndex = await db.getFirstAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'customers_fts'"
+  );
+  await db.execAsync(SEARCH_INDEX_SQL + SEARCH_TRIGGERS_SQL);
+  if (!hasSearchIndex) {
+    console.log('[CustomerDB] Building search index...');
+    await db.execAsync(`INSERT INTO customers_fts (customers_fts) VALUES ('rebuild')`);
+  }
+  
   console.log('[CustomerDB] Database initialized successfully');
   dbInstance = db;
   return db;
 }
 
+/**
+ * Encrypt rows saved before encryption at rest (XOR-encoded names, plaintext
+ * addresses) and compute their search tokens. Runs before the search triggers
+ * exist, so the index is rebuilt once afterwards instead of per row.
+ */
+async function migrateLegacyRows(db: SQLite.SQLiteDatabase): Promise<void> {
+  const CHUNK = 2000;
+  let total = 0;
+  while (true) {
+    const rows = await db.getAllAsync<{ id: number; name: string | null; address: string | null }>(
+      'SELECT id, name, address FROM customers WHERE addressTokens IS NULL LIMIT ?',
+      [CHUNK]
+    );
+    if (rows.length === 0) break;
+    
+    await db.withTransactionAsync(async () => {
+      for (const row of rows) {
+        const name = isFieldEncrypted(row.name)
+          ? decryptField(row.name)
+          : row.name && isEncrypted(row.name) ? decryptLegacyName(row.name) : row.name || '';
+        const address = decryptField(row.address);
+        await db.runAsync(
+          'UPDATE customers SET name = ?, address = ?, nameTokens = ?, addressTokens = ? WHERE id = ?',
+          [encryptField(name), encryptField(address), nameSearchTokens(name), nameSearchTokens(address), row.id]
+        );
+      }
+    });
+    total += rows.length;
+  }
+  if (total > 0) console.log(`[CustomerDB] Encrypted ${total} customers saved by an older version`);
+}
+
 // Get or initialize the database - ensures only one initialization happens
 function getDatabase(): Promise<SQLite.SQLiteDatabase> {
   // If already initialized, return the instance
@@ -128,192 +338,152 @@ export async function initializeDatabase(): Promise<void> {
   await getDatabase();
 }
 
-/** Save all customer data to SQLite (clears existing data first) */
-export async function saveCustomerData(customers: Customer[]): Promise<void> {
-  const db = await getDatabase();
-  
-  // Clear existing data using runAsync (handles locks better)
-  await db.runAsync('DELETE FROM customers');
-  
-  // Use bulk insert for much faster performance
-  await _saveBatchInternal(db, customers);
-}
-
-/** Internal function to save batch */
-async function _saveBatchInternal(db: SQLite.SQLiteDatabase, customers: Customer[]): Promise<void> {
-  if (customers.length === 0) return;
-  
-  // Use a single transaction with bulk VALUES for much faster inserts
+/** Upsert rows into `table`; the caller owns the transaction */
+async function _insertRows(db: SQLite.SQLiteDatabase, table: string, customers: Customer[]): Promise<void> {
   // SQLite supports up to ~500 variables per statement, so we batch accordingly
-  // 10 columns per row = max ~50 rows per statement to be safe
-  const ROWS_PER_STATEMENT = 50;
+  // 15 columns per row = max ~33 rows per statement to be safe
+  const ROWS_PER_STATEMENT = 33;
   
-  await db.withTransactionAsync(async () => {
-    for (let i = 0; i < customers.length; i += ROWS_PER_STATEMENT) {
-      const batch = customers.slice(i, i + ROWS_PER_STATEMENT);
-      
-      // Build a bulk INSERT statement with multiple VALUES
-      const placeholders = batch.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
-      const values: (string | number)[] = [];
-      
-      for (const c of batch) {
-        values.push(
-          c.meterNumber,
-          c.accountNumber,
-          c.address,
-          c.dma,
-          c.latitude,
-          c.longitude,
-          c.name || '',
-          c.wss || '',
-          c.wssCode ?? 0,
-          c.connectionClass || '',
-          c.status || ''
-        );
-      }
-      
-      await db.runAsync(
-        `INSERT INTO customers (meterNumber, accountNumber, address, dma, latitude, longitude, name, wss, wssCode, connectionClass, status) VALUES ${placeholders}`,
-        values
+  for (let i = 0; i < customers.length; i += ROWS_PER_STATEMENT) {
+    const batch = customers.slice(i, i + ROWS_PER_STATEMENT);
+    
+    // Build a bulk INSERT statement with multiple VALUES
+    const placeholders = batch.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+    const values: (string | number)[] = [];
+    
+    for (const c of batch) {
+      values.push(
+        c.meterNumber,
+        c.accountNumber,
+        c.address,
+        c.dma,
+        c.latitude,
+        c.longitude,
+        c.name || '',
+        c.wss || '',
+        c.wssCode ?? 0,
+        c.connectionClass || '',
+        c.status || '',
+        cellLatOf(c.latitude),
+        cellLngOf(c.longitude),
+        c.nameTokens || '',
+        c.addressTokens || ''
       );
     }
-  });
+    
+    // Upsert so delta syncs (and duplicate rows from the server) update in place
+    await db.runAsync(
+      `INSERT INTO ${table} (meterNumber, accountNumber, address, dma, latitude, longitude, name, wss, wssCode, connectionClass, status, cellLat, cellLng, nameTokens, addressTokens) VALUES ${placeholders}
+       ON CONFLICT(accountNumber, meterNumber) DO UPDATE SET
+         address = excluded.address, dma = excluded.dma,
+         latitude = excluded.latitude, longitude = excluded.longitude,
+         name = excluded.name, wss = excluded.wss, wssCode = excluded.wssCode,
+         connectionClass = excluded.connectionClass, status = excluded.status,
+         cellLat = excluded.cellLat, cellLng = excluded.cellLng, nameTokens = excluded.nameTokens,
+           addressTokens = excluded.addressTokens`,
+      values
+    );
+  }
 }
 
-/** 
- * Save a batch of customers using bulk INSERT for fast performance.
- * @param customers - Array of customers to save
- * @param append - If true, appends to existing data. If false, doesn't clear (caller should clear first if needed)
+/**
+ * Start a full import into an empty staging table, replacing any unfinished one.
+ * The live `customers` table is untouched until `commitStagedImport`.
  */
-export async function saveBatchCustomerData(customers: Customer[], append: boolean = true): Promise<void> {
+export async function beginStagedImport(meta: StagedImport): Promise<void> {
+  const db = await getDatabase();
+  await db.withTransactionAsync(async () => {
+    await db.execAsync(`
+      DROP TABLE IF EXISTS ${STAGING_TABLE};
+      CREATE TABLE ${STAGING_TABLE} (${CUSTOMER_COLUMNS_SQL});
+      CREATE UNIQUE INDEX idx_staging_key ON ${STAGING_TABLE}(accountNumber, meterNumber);
+      DROP TABLE IF EXISTS import_pages;
+      CREATE TABLE import_pages (pageIndex INTEGER PRIMARY KEY NOT NULL, rowCount INTEGER NOT NULL);
+    `);
+    await db.runAsync(
+      'INSERT OR REPLACE INTO sync_meta (key, value) VALUES (?, ?)',
+      [STAGED_IMPORT_KEY, JSON.stringify(meta)]
+    );
+  });
+}
+
+/** The unfinished full import left by an earlier run, or null */
+export async function getStagedImport(): Promise<StagedImport | null> {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM sync_meta WHERE key = ?', [STAGED_IMPORT_KEY]);
+    return row ? JSON.parse(row.value) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Pages already saved to the staging table, with the number of rows the server sent for each */
+export async function getStagedImportPages(): Promise<{ pageIndex: number; rowCount: number }[]> {
   const db = await getDatabase();
-  await _saveBatchInternal(db, customers);
+  return db.getAllAsync<{ pageIndex: number; rowCount: number }>(
+    'SELECT pageIndex, rowCount FROM import_pages ORDER BY pageIndex'
+  );
 }
 
 /**
- * Stream customer data from an async generator and save to SQLite simultaneously.
- * This allows fetching and saving to happen in parallel for better performance.
- * @param dataGenerator - Async generator that yields batches of customers
- * @param onProgress - Optional callback for progress updates
- * @returns Total number of customers saved
+ * Save one downloaded page to the staging table and checkpoint it in the same transaction.
+ * @param rowCount - Rows the server returned for the page (before any local filtering)
  */
-export async function streamAndSaveCustomerData(
-  dataGenerator: AsyncGenerator<Customer[], void, unknown>,
-  onProgress?: (saved: number, total: number) => void
-): Promise<number> {
+export async function saveStagedPage(pageIndex: number, customers: Customer[], rowCount: number): Promise<void> {
   const db = await getDatabase();
-  let totalSaved = 0;
-  let estimatedTotal = 0;
-  
-  console.log('[CustomerDB] Starting stream and save...');
-  
-  // Clear existing data first
-  await clearForBatchImport();
-  
-  for await (const batch of dataGenerator) {
-    if (batch.length === 0) continue;
-    
-    // Save this batch to SQLite
-    await _saveBatchInternal(db, batch);
-    totalSaved += batch.length;
-    
-    // Update progress
-    onProgress?.(totalSaved, estimatedTotal);
-    console.log(`[CustomerDB] Saved batch of ${batch.length}. Total: ${totalSaved}`);
-  }
-  
-  console.log(`[CustomerDB] Stream complete. Total saved: ${totalSaved}`);
-  return totalSaved;
+  await db.withTransactionAsync(async () => {
+    await _insertRows(db, STAGING_TABLE, customers);
+    await db.runAsync(
+      'INSERT OR REPLACE INTO import_pages (pageIndex, rowCount) VALUES (?, ?)',
+      [pageIndex, rowCount]
+    );
+  });
 }
 
 /**
- * Stream customer data with known total count for accurate progress reporting.
- * @param dataGenerator - Async generator that yields batches of customers  
- * @param totalCount - Known total count for progress calculation
- * @param onProgress - Optional callback for progress updates
- * @returns Total number of customers saved
+ * Atomically replace `customers` with the staging table and record the import
+ * as the new last-sync point.
  */
-export async function streamAndSaveCustomerDataWithTotal(
-  dataGenerator: AsyncGenerator<Customer[], void, unknown>,
-  totalCount: number,
-  onProgress?: (saved: number, total: number) => void
-): Promise<number> {
+export async function commitStagedImport(meta: StagedImport): Promise<void> {
   const db = await getDatabase();
-  let totalSaved = 0;
-  
-  console.log(`[CustomerDB] Starting stream and save. Expected total: ${totalCount}`);
-  
-  // Clear existing data first
-  await clearForBatchImport();
-  
-  for await (const batch of dataGenerator) {
-    if (batch.length === 0) continue;
-    
-    // Save this batch to SQLite
-    await _saveBatchInternal(db, batch);
-    totalSaved += batch.length;
-    
-    // Update progress with known total
-    onProgress?.(totalSaved, totalCount);
-    console.log(`[CustomerDB] Saved batch of ${batch.length}. Total: ${totalSaved}/${totalCount}`);
-  }
-  
-  console.log(`[CustomerDB] Stream complete. Total saved: ${totalSaved}`);
-  return totalSaved;
+  await db.withTransactionAsync(async () => {
+    await db.execAsync(`
+      DROP TABLE customers;
+      ALTER TABLE ${STAGING_TABLE} RENAME TO customers;
+      DROP INDEX IF EXISTS idx_staging_key;
+      CREATE UNIQUE INDEX idx_customer_key ON customers(accountNumber, meterNumber);
+      CREATE INDEX idx_meter ON customers(meterNumber);
+      CREATE INDEX idx_account ON customers(accountNumber);
+      CREATE INDEX idx_cell ON customers(cellLat, cellLng);
+      DROP TABLE IF EXISTS import_pages;
+      ${SEARCH_TRIGGERS_SQL}
+      INSERT INTO customers_fts (customers_fts) VALUES ('rebuild');
+    `);
+    await db.runAsync('DELETE FROM sync_meta WHERE key = ?', [STAGED_IMPORT_KEY]);
+    await db.runAsync(
+      'INSERT OR REPLACE INTO sync_meta (key, value) VALUES (?, ?)',
+      [LAST_SYNC_KEY, meta.startedAt]
+    );
+    await recordRowCount(db);
+  });
 }
 
-/** Prepare for batch import by clearing existing data */
-export async function clearForBatchImport(): Promise<void> {
-  // Add retry logic for database lock issues
-  const maxRetries = 5;
-  let lastError: any;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const db = await getDatabase();
-      console.log(`[CustomerDB] Clearing data (attempt ${attempt})...`);
-      
-      // Use runAsync instead of execAsync - it handles locks better
-      await db.runAsync('DELETE FROM customers');
-      
-      console.log('[CustomerDB] Data cleared successfully');
-      return;
-    } catch (error: any) {
-      lastError = error;
-      console.log(`[CustomerDB] Clear attempt ${attempt} failed:`, error?.message);
-      
-      if (attempt < maxRetries) {
-        // Wait longer before retrying
-        const delay = attempt * 2000; // 2s, 4s, 6s, 8s
-        console.log(`[CustomerDB] Waiting ${delay}ms before retry...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-  }
-  
-  throw lastError;
+/** Throw away an unfinished import; the live data stays as it was */
+export async function discardStagedImport(): Promise<void> {
+  const db = await getDatabase();
+  await db.withTransactionAsync(async () => {
+    await db.execAsync(`
+      DROP TABLE IF EXISTS ${STAGING_TABLE};
+      DROP TABLE IF EXISTS import_pages;
+    `);
+    await db.runAsync('DELETE FROM sync_meta WHERE key = ?', [STAGED_IMPORT_KEY]);
+  });
 }
 
-/** Decrypt the name field of a customer row if it's encrypted */
+/** Decrypt the name and address of a customer row */
 function decryptCustomer(c: Customer): Customer {
-  if (c.name && isEncrypted(c.name)) {
-    return { ...c, name: decryptName(c.name) };
-  }
-  return c;
-}
-
-/** Load all customer data from SQLite (decrypts names) */
-export async function loadCustomerData(): Promise<Customer[]> {
-  try {
-    console.log('[loadCustomerData] Attempting to load customer data...');
-    const db = await getDatabase();
-    const result = await db.getAllAsync<Customer>('SELECT meterNumber, accountNumber, address, dma, latitude, longitude, name, wss, wssCode, connectionClass, status FROM customers');
-    console.log(`[loadCustomerData] Loaded ${result.length} customers from database`);
-    return result.map(decryptCustomer);
-  } catch (error) {
-    console.error('[loadCustomerData] Error loading customer data:', error);
-    return [];
-  }
+  return { ...c, name: decryptField(c.name), address: decryptField(c.address) };
 }
 
 /** Clear all customer data by deleting and recreating the database */
@@ -375,6 +545,137 @@ export async function clearCustomerData(): Promise<void> {
   }
 }
 
+/**
+ * Replace every stored row of `accountNumbers` with `customers` in one transaction,
+ * so a meter number changed on the server doesn't leave the old row behind.
+ * @returns Number of rows deleted for accounts with no row in `customers`
+ */
+export async function replaceCustomerAccounts(accountNumbers: string[], customers: Customer[]): Promise<number> {
+  if (accountNumbers.length === 0 && customers.length === 0) return 0;
+  const db = await getDatabase();
+  const kept = new Set(customers.map(c => c.accountNumber));
+  let removed = 0;
+  await db.withTransactionAsync(async () => {
+    for (const accountNumber of accountNumbers) {
+      const result = await db.runAsync('DELETE FROM customers WHERE accountNumber = ?', [accountNumber]);
+      if (!kept.has(accountNumber)) removed += result.changes;
+    }
+    await _insertRows(db, 'customers', customers);
+  });
+  return removed;
+}
+
+/** Start time (ISO) of the last complete customer download or update, or null if none */
+export async function getLastCustomerSync(): Promise<string | null> {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM sync_meta WHERE key = ?', [LAST_SYNC_KEY]);
+    return row?.value ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Record a completed customer download or update */
+export async function setLastCustomerSync(isoDate: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    'INSERT OR REPLACE INTO sync_meta (key, value) VALUES (?, ?)',
+    [LAST_SYNC_KEY, isoDate]
+  );
+  await recordRowCount(db);
+}
+
+// Store the current row count as the expected count for `verifyCustomerDatabase`
+async function recordRowCount(db: SQLite.SQLiteDatabase): Promise<void> {
+  await db.runAsync(
+    `INSERT OR REPLACE INTO sync_meta (key, value) SELECT ?, COUNT(*) FROM customers`,
+    [ROW_COUNT_KEY]
+  );
+}
+
+/**
+ * A problem found by `verifyCustomerDatabase` and how to fix it. `reset` means
+ * the database file itself is unusable and must be deleted before downloading;
+ * `redownload` replaces the data through a normal (staged) full download.
+ */
+export type CustomerDataProblem = {
+  message: string;
+  repair: 'rebuildIndex' | 'redownload' | 'reset';
+};
+
+/**
+ * Check the customer database: SQLite's quick_check, the table schema, the
+ * row count recorded at the last complete sync, and the search index.
+ * Returns the problems found (empty when healthy).
+ */
+export async function verifyCustomerDatabase(): Promise<CustomerDataProblem[]> {
+  const problems: CustomerDataProblem[] = [];
+  let db: SQLite.SQLiteDatabase;
+  try {
+    db = await getDatabase();
+  } catch (error: any) {
+    return [{ message: `Customer database can't be opened: ${error?.message ?? error}`, repair: 'reset' }];
+  }
+
+  try {
+    const check = await db.getAllAsync<{ quick_check: string }>('PRAGMA quick_check');
+    if (check.length !== 1 || check[0].quick_check !== 'ok') {
+      console.warn('[CustomerDB] quick_check failed:', check.slice(0, 5).map(row => row.quick_check));
+      return [{ message: 'Customer database is damaged', repair: 'reset' }];
+    }
+  } catch (error: any) {
+    // A badly damaged file fails the check itself ("database disk image is malformed")
+    console.warn('[CustomerDB] quick_check error:', error?.message);
+    return [{ message: 'Customer database is damaged', repair: 'reset' }];
+  }
+
+  const expectedColumns = CUSTOMER_COLUMNS_SQL.split(',').map(column => column.trim().split(/\s+/)[0]);
+  const columns = await db.getAllAsync<{ name: string }>('PRAGMA table_info(customers)');
+  const missing = expectedColumns.filter(name => !columns.some(column => column.name === name));
+  if (missing.length > 0) {
+    problems.push({ message: `Customer table is missing columns: ${missing.join(', ')}`, repair: 'redownload' });
+  }
+
+  const counts = await db.getFirstAsync<{ actual: number; expected: string | null }>(
+    `SELECT (SELECT COUNT(*) FROM customers) AS actual,
+            (SELECT value FROM sync_meta WHERE key = ?) AS expected`,
+    [ROW_COUNT_KEY]
+  );
+  const actual = counts?.actual ?? 0;
+  if (counts?.expected != null && Number(counts.expected) !== actual) {
+    problems.push({
+      message: `Customer data has ${actual.toLocaleString()} records; the last sync saved ${Number(counts.expected).toLocaleString()}`,
+      repair: 'redownload',
+    });
+  }
+
+  try {
+    // With rank = 1 FTS5 also compares the index against the `customers` rows
+    await db.runAsync(`INSERT INTO customers_fts (customers_fts, rank) VALUES ('integrity-check', 1)`);
+  } catch (error: any) {
+    console.warn('[CustomerDB] Search index check failed:', error?.message);
+    problems.push({ message: 'Customer search index is out of date or damaged', repair: 'rebuildIndex' });
+  }
+
+  return problems;
+}
+
+/** Recreate the search index and its triggers, then refill it from `customers` */
+export async function rebuildSearchIndex(): Promise<void> {
+  const db = await getDatabase();
+  console.log('[CustomerDB] Rebuilding search index...');
+  await db.execAsync(`
+    DROP TRIGGER IF EXISTS customers_fts_ai;
+    DROP TRIGGER IF EXISTS customers_fts_ad;
+    DROP TRIGGER IF EXISTS customers_fts_au;
+    DROP TABLE IF EXISTS customers_fts;
+    ${SEARCH_INDEX_SQL}
+    ${SEARCH_TRIGGERS_SQL}
+    INSERT INTO customers_fts (customers_fts) VALUES ('rebuild');
+  `);
+}
+
 /** Check if customer data exists */
 export async function hasCustomerData(): Promise<boolean> {
   try {
@@ -397,20 +698,100 @@ export async function getCustomerCount(): Promise<number> {
   }
 }
 
-/** Search customers by meter number or account number (decrypts names in results) */
+/**
+ * Build an FTS5 query: every typed word must prefix-match the meter, account,
+ * or DMA, or match a hashed prefix of the (encrypted) customer name or address.
+ */
+function buildSearchQuery(query: string): string | null {
+  const words = splitSearchWords(query);
+  if (words.length === 0) return null;
+  
+  return words.map(word => {
+    const nameToken = nameQueryToken(word);
+    const fields = `{meterNumber accountNumber dma} : "${word}"*`;
+    return nameToken ? `(${fields} OR {nameTokens addressTokens} : "${nameToken}")` : `(${fields})`;
+  }).join(' AND ');
+}
+
+/**
+ * Full-text search by meter number, account number, address, DMA or customer name.
+ * Results are ranked best match first (decrypts names and addresses in results).
+ */
 export async function searchCustomers(query: string, limit = 50): Promise<Customer[]> {
+  const match = buildSearchQuery(query);
+  if (!match) return [];
+  
   try {
     const db = await getDatabase();
-    const searchTerm = `%${query}%`;
     const result = await db.getAllAsync<Customer>(
-      `SELECT meterNumber, accountNumber, address, dma, latitude, longitude, name, wss, wssCode, connectionClass, status 
-       FROM customers 
-       WHERE meterNumber LIKE ? OR accountNumber LIKE ? OR address LIKE ?
+      `SELECT c.meterNumber, c.accountNumber, c.address, c.dma, c.latitude, c.longitude, c.name, c.wss, c.wssCode, c.connectionClass, c.status
+       FROM customers_fts
+       JOIN customers c ON c.id = customers_fts.rowid
+       WHERE customers_fts MATCH ?
+       ORDER BY ${SEARCH_RANK_SQL}
        LIMIT ?`,
-      [searchTerm, searchTerm, searchTerm, limit]
+      [match, limit]
     );
     return result.map(decryptCustomer);
-  } catch {
+  } catch (error) {
+    console.error('[CustomerDB] Search failed:', error);
     return [];
   }
 }
+
+/**
+ * Find the `k` customers nearest to a point, within `radiusMeters`.
+ * Uses the spatial grid index so only rows in nearby cells are read; the search
+ * window starts small and doubles until enough meters are found or the radius is reached.
+ * Rows without coordinates or a meter number are skipped, and each meter appears once.
+ */
+export async function queryNearestCustomers(
+  lat: number,
+  lng: number,
+  k = 3,
+  radiusMeters = 5000
+): Promise<NearbyCustomer[]> {
+  const db = await getDatabase();
+  const metersPerDegLng = METERS_PER_DEG_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+
+  let window = Math.min(250, radiusMeters);
+  while (true) {
+    const dLat = window / METERS_PER_DEG_LAT;
+    const dLng = window / metersPerDegLng;
+
+    const rows = await db.getAllAsync<Customer>(
+      `SELECT meterNumber, accountNumber, address, dma, latitude, longitude, name, wss, wssCode, connectionClass, status
+       FROM customers
+       WHERE cellLat BETWEEN ? AND ? AND cellLng BETWEEN ? AND ?
+         AND latitude BETWEEN ? AND ? AND longitude BETWEEN ? AND ?
+         AND latitude != 0 AND longitude != 0 AND meterNumber != ''`,
+      [
+        cellLatOf(lat - dLat), cellLatOf(lat + dLat),
+        cellLngOf(lng - dLng), cellLngOf(lng + dLng),
+        lat - dLat, lat + dLat, lng - dLng, lng + dLng,
+      ]
+    );
+
+    // The bounding box is a square; keep only rows inside the circular window
+    const seen = new Set<string>();
+    const nearby: NearbyCustomer[] = [];
+    for (const row of rows) {
+      const distanceMeters = distanceInMeters({ lat, lng }, { lat: row.latitude, lng: row.longitude });
+      if (distanceMeters <= window) nearby.push({ ...row, distanceMeters });
+    }
+    nearby.sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+    const result: NearbyCustomer[] = [];
+    for (const c of nearby) {
+      if (seen.has(c.meterNumber)) continue;
+      seen.add(c.meterNumber);
+      result.push(c);
+      if (result.length === k) break;
+    }
+
+    if (result.length >= k || window >= radiusMeters) {
+      return result.map(c => decryptCustomer(c) as NearbyCustomer);
+    }
+    window = Math.min(window * 2, radiusMeters);
+  }
+}
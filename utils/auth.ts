@@ -17,4 +17,14 @@ export interface LoginResponse {
     refreshToken: string;
     tokenExpiry: string;
   };
-}
\ No newline at end of file
+}
+
+export interface RefreshTokenResponse {
+  statusCode: number;
+  message: string;
+  data: {
+    token: string;
+    refreshToken: string;
+    tokenExpiry: string;
+  };
+}
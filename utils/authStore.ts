@@ -1,7 +1,18 @@
 import { create } from "zustand";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { loginRequest } from "../services/authService";
+import { router } from "expo-router";
+import { loginRequest, refreshTokenRequest } from "../services/authService";
+import { registerAuthHandlers, resumeAfterSignIn } from "../services/api";
 import { BackendUser } from "../utils/auth";
+import { saveTokens, getToken, getRefreshToken, clearTokens } from "../utils/tokenStorage";
+import { clearReportHistory } from "../utils/reportHistoryCache";
+import { clearStatusSnapshot } from "../services/reportStatusWatcher";
+import { BUILD_ENVIRONMENT, EnvironmentId, normalizeApiUrl, scopedKey, useEnvironmentStore } from "../utils/environment";
+import { testApiConnection } from "../utils/networkUtils";
+import { closeReportOutbox } from "../utils/reportOutbox";
+import { useDashboardStore } from "../utils/dashboardStore";
+import { useMobileReportStore } from "../utils/mobileReportStore";
+import { unregisterBackgroundSync } from "../services/backgroundSync";
 
 const USER_KEY = "auth_user";
 const SESSION_EXPIRY_KEY = "session_expiry";
@@ -12,17 +23,30 @@ interface AuthState {
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** True when the server session could not be refreshed and the user was sent to login */
+  sessionExpired: boolean;
 
   login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   restoreSession: () => Promise<boolean>;
+  refreshSession: () => Promise<string | null>;
+  expireSession: () => Promise<void>;
+  /**
+   * Move to another backend. The current session and queued reports stay
+   * stored under the old environment; the new one's session (if any) is
+   * restored through the splash screen.
+   */
+  switchEnvironment: (id: EnvironmentId, customApiUrl?: string) => Promise<void>;
+  /** Drop any Settings override and go back to the build's environment */
+  resetEnvironment: () => Promise<void>;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   token: null,
   isAuthenticated: false,
   isLoading: false,
+  sessionExpired: false,
 
   login: async (username, password) => {
     set({ isLoading: true });
@@ -33,7 +57,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       console.log("[auth] login response", res);
 
       const { token, refreshToken, tokenExpiry, ...user } = res?.data || ({} as any);
-      console.log("[auth] extracted", { token, user });
+      console.log("[auth] extracted", { token, tokenExpiry, user });
 
       if (!token) {
         console.log("[auth] missing token in response");
@@ -46,19 +70,24 @@ export const useAuthStore = create<AuthState>((set) => ({
         username: user.username || username,
       };
 
-      // Persist token, user data, and session expiry (24 hours from now)
+      const previousEmpId = get().user?.empId;
+
+      // Persist tokens (with server expiry), user data, and session expiry (24 hours from now)
       const expiryTime = Date.now() + SESSION_DURATION_MS;
-      await AsyncStorage.setItem("access_token", token);
-      await AsyncStorage.setItem(USER_KEY, JSON.stringify(userWithUsername));
-      await AsyncStorage.setItem(SESSION_EXPIRY_KEY, expiryTime.toString());
+      await saveTokens({ token, refreshToken, tokenExpiry });
+      await AsyncStorage.setItem(await scopedKey(USER_KEY), JSON.stringify(userWithUsername));
+      await AsyncStorage.setItem(await scopedKey(SESSION_EXPIRY_KEY), expiryTime.toString());
 
       set({
         user: userWithUsername,
         token,
         isAuthenticated: true,
         isLoading: false,
+        sessionExpired: false,
       });
       console.log("[auth] login success, session expires at", new Date(expiryTime).toISOString());
+      // Requests cut off by an expired session go through if the same user signed back in
+      resumeAfterSignIn(previousEmpId === undefined || previousEmpId === userWithUsername.empId ? token : null);
     } catch (error: any) {
       console.log("[auth] login error", {
         message: error?.message,
@@ -73,9 +102,9 @@ export const useAuthStore = create<AuthState>((set) => ({
   restoreSession: async () => {
     try {
       const [token, userJson, expiryStr] = await Promise.all([
-        AsyncStorage.getItem("access_token"),
-        AsyncStorage.getItem(USER_KEY),
-        AsyncStorage.getItem(SESSION_EXPIRY_KEY),
+        getToken(),
+        scopedKey(USER_KEY).then(key => AsyncStorage.getItem(key)),
+        scopedKey(SESSION_EXPIRY_KEY).then(key => AsyncStorage.getItem(key)),
       ]);
 
       // Only require user data — don't validate the token itself.
@@ -91,7 +120,8 @@ export const useAuthStore = create<AuthState>((set) => ({
         const now = Date.now();
         if (now > expiryTime) {
           console.log("[auth] 24h session expired, clearing storage — re-login required");
-          await AsyncStorage.multiRemove(["access_token", USER_KEY, SESSION_EXPIRY_KEY]);
+          await clearTokens();
+          await AsyncStorage.multiRemove(await Promise.all([USER_KEY, SESSION_EXPIRY_KEY].map(scopedKey)));
           return false;
         }
         const remainingHours = ((expiryTime - now) / (1000 * 60 * 60)).toFixed(1);
@@ -99,7 +129,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       } else {
         // No expiry set (old sessions) - set it now for 24h
         const expiryTime = Date.now() + SESSION_DURATION_MS;
-        await AsyncStorage.setItem(SESSION_EXPIRY_KEY, expiryTime.toString());
+        await AsyncStorage.setItem(await scopedKey(SESSION_EXPIRY_KEY), expiryTime.toString());
         console.log("[auth] legacy session, set new 24h expiry");
       }
 
@@ -117,15 +147,94 @@ export const useAuthStore = create<AuthState>((set) => ({
     }
   },
 
+  refreshSession: async () => {
+    const refreshToken = await getRefreshToken();
+    if (!refreshToken) {
+      console.log("[auth] no refresh token stored, cannot refresh");
+      return null;
+    }
+
+    const res = await refreshTokenRequest(await getToken(), refreshToken);
+    const { token, refreshToken: nextRefreshToken, tokenExpiry } = res?.data || ({} as any);
+    if (!token) {
+      console.log("[auth] missing token in refresh response");
+      return null;
+    }
+
+    // Refresh tokens may rotate; keep the old one if the server didn't send a new one
+    await saveTokens({ token, refreshToken: nextRefreshToken || refreshToken, tokenExpiry });
+    await AsyncStorage.setItem(await scopedKey(SESSION_EXPIRY_KEY), (Date.now() + SESSION_DURATION_MS).toString());
+
+    set({ token, sessionExpired: false });
+    console.log("[auth] token refreshed, server expiry", tokenExpiry);
+    return token;
+  },
+
+  expireSession: async () => {
+    // Several requests can fail at once; only handle the first
+    if (get().sessionExpired) return;
+
+    console.log("[auth] session expired, re-login required");
+    // Only the tokens are dropped: user data, the report form and the offline
+    // queue are kept so work can resume right after signing in again.
+    await clearTokens();
+    set({ token: null, sessionExpired: true });
+
+    // Push (not replace) so the current screen stays on the stack underneath login
+    router.push("/login");
+  },
+
   logout: async () => {
     console.log("[auth] logout start");
-    await AsyncStorage.multiRemove(["access_token", USER_KEY, SESSION_EXPIRY_KEY]);
+    resumeAfterSignIn(null);
+    // Registered again by the root layout at the next sign-in
+    await unregisterBackgroundSync();
+    await clearTokens();
+    await AsyncStorage.multiRemove(await Promise.all([USER_KEY, SESSION_EXPIRY_KEY].map(scopedKey)));
+    await clearReportHistory();
+    await clearStatusSnapshot();
 
     set({
       user: null,
       token: null,
       isAuthenticated: false,
+      sessionExpired: false,
     });
     console.log("[auth] logout done");
   },
+
+  switchEnvironment: async (id, customApiUrl) => {
+    // Switching signs out, so a custom server nobody can reach would leave no way back in
+    const customUrl = id === "custom" ? normalizeApiUrl(customApiUrl ?? "") : null;
+    if (customUrl && customUrl !== BUILD_ENVIRONMENT.apiUrl && !(await testApiConnection(customUrl))) {
+      throw new Error(`${customUrl} did not answer. Check the URL and your connection.`);
+    }
+
+    // Throws on an invalid custom URL before anything is torn down
+    const environment = await useEnvironmentStore.getState().setEnvironment(id, customApiUrl);
+
+    resumeAfterSignIn(null);
+    // Stop the task sending the old environment's queue; the next sign-in registers it again
+    await unregisterBackgroundSync();
+    await closeReportOutbox();
+    useDashboardStore.getState().reset();
+    await useMobileReportStore.getState().loadCachedReports();
+
+    set({
+      user: null,
+      token: null,
+      isAuthenticated: false,
+      sessionExpired: false,
+    });
+    console.log("[auth] switched environment to", environment.id);
+    router.replace("/screens/splashLoading");
+  },
+
+  resetEnvironment: () => get().switchEnvironment(BUILD_ENVIRONMENT.id, BUILD_ENVIRONMENT.apiUrl),
 }));
+
+// Let the api client refresh tokens and expire the session through this store
+registerAuthHandlers({
+  refresh: () => useAuthStore.getState().refreshSession(),
+  onSessionExpired: () => useAuthStore.getState().expireSession(),
+});
@@ -1,5 +1,8 @@
 import { create } from 'zustand';
-import { fetchLeakReports, LeakReportCounts, LeakReport } from '@/services/leakReportsService';
+import { AppState } from 'react-native';
+import { confirmStatusCodes, fetchLeakReports, LeakReportCounts, LeakReport } from '@/services/leakReportsService';
+import { loadReportHistory, saveReportHistory } from '@/utils/reportHistoryCache';
+import { notifyStatusChanges } from '@/services/reportStatusWatcher';
 
 interface DashboardState {
   // Data
@@ -9,11 +12,19 @@ interface DashboardState {
   // Loading
   isLoading: boolean;
   error: string | null;
+  lastUpdated: string | null;  // When `reports` came from the server
+  isFromCache: boolean;  // The last fetch failed and `reports` is the offline copy
 
   // Actions
-  fetchDashboard: (empId: string) => Promise<void>;
+  /** `silent` refreshes in the background: no spinner, and failures keep the current list */
+  fetchDashboard: (empId: string, options?: { silent?: boolean }) => Promise<void>;
+  /** Forget the loaded reports (another user or environment is taking over) */
+  reset: () => void;
 }
 
+// Background refresh interval, so status changes are noticed without pull-to-refresh
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
 const DEFAULT_COUNTS: LeakReportCounts = {
   reportedCount: 0,
   dispatchedCount: 0,
@@ -26,28 +37,82 @@ const DEFAULT_COUNTS: LeakReportCounts = {
   totalCount: 0,
 };
 
-export const useDashboardStore = create<DashboardState>((set) => ({
+/** Show the offline copy of the report list when nothing fresher is loaded */
+async function loadCachedDashboard(empId: string, set: (state: Partial<DashboardState>) => void) {
+  if (useDashboardStore.getState().lastUpdated && !useDashboardStore.getState().isFromCache) return;
+  try {
+    const history = await loadReportHistory(empId);
+    if (history) {
+      confirmStatusCodes(history.counts, history.reports);
+      set({ counts: history.counts, reports: history.reports, lastUpdated: history.savedAt, isFromCache: true });
+    }
+  } catch (error: any) {
+    console.warn('[Dashboard] Could not load cached reports:', error?.message);
+  }
+}
+
+export const useDashboardStore = create<DashboardState>((set, get) => ({
   counts: DEFAULT_COUNTS,
   reports: [],
   isLoading: false,
   error: null,
+  lastUpdated: null,
+  isFromCache: false,
 
-  fetchDashboard: async (empId: string) => {
-    set({ isLoading: true, error: null });
+  fetchDashboard: async (empId: string, { silent = false } = {}) => {
+    if (silent) {
+      if (get().isLoading) return;
+    } else {
+      set({ isLoading: true, error: null });
+    }
     try {
       const res = await fetchLeakReports(empId);
       if (res.statusCode === 200 && res.data) {
         const { reports, ...counts } = res.data;
-        set({ counts, reports, isLoading: false });
-      } else {
+        confirmStatusCodes(counts, reports);
+        set({ counts, reports, isLoading: false, lastUpdated: new Date().toISOString(), isFromCache: false });
+        saveReportHistory(empId, counts, reports).catch(error => {
+          console.warn('[Dashboard] Could not cache reports:', error?.message);
+        });
+        notifyStatusChanges(empId, reports).catch(error => {
+          console.warn('[Dashboard] Could not check status changes:', error?.message);
+        });
+      } else if (!silent) {
         set({ error: res.message || 'Failed to fetch reports', isLoading: false });
       }
     } catch (error: any) {
+      if (silent) {
+        console.log('[Dashboard] background refresh failed:', error?.message);
+        return;
+      }
       console.error('[Dashboard] fetch error:', error);
       set({
         error: error?.response?.data?.message || error?.message || 'Network error',
         isLoading: false,
       });
+      await loadCachedDashboard(empId, set);
     }
   },
+
+  reset: () => {
+    set({ counts: DEFAULT_COUNTS, reports: [], error: null, lastUpdated: null, isFromCache: false });
+  },
 }));
+
+/**
+ * Refresh the report list every few minutes and whenever the app returns to the
+ * foreground; status changes found this way raise a local notification.
+ * @returns Function that stops polling
+ */
+export function startDashboardPolling(empId: string): () => void {
+  const refresh = () => useDashboardStore.getState().fetchDashboard(empId, { silent: true });
+  const interval = setInterval(refresh, POLL_INTERVAL_MS);
+  const subscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') refresh();
+  });
+
+  return () => {
+    clearInterval(interval);
+    subscription.remove();
+  };
+}
@@ -11,6 +11,7 @@ export type DraftReport = {
   dma: string;
   wss: number;
   coordinates: string;
+  pinned?: boolean;  // Reported at a dropped pin; the meter fields are only an optional reference
   leakType: 'Serviceline' | 'Mainline' | 'Others' | 'Blow-off' | 'Fire Hydrant' | 'Air Release' | 'Valve' | null;
   location: 'Surface' | 'Non-Surface' | null;
   contactPerson: string;
@@ -0,0 +1,214 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Which backend the app talks to. The build picks the default through
+ * `EXPO_PUBLIC_APP_ENV` (set per profile in eas.json) or `EXPO_PUBLIC_API_URL`
+ * for a custom server; privileged users can override it from Settings. The
+ * `mock` environment never leaves the device (see services/mockTransport.ts).
+ *
+ * Staging and production hosts are build configuration
+ * (`EXPO_PUBLIC_STAGING_API_URL`, `EXPO_PUBLIC_PRODUCTION_API_URL`, normally
+ * EAS environment variables). A build for an environment without its URL
+ * fails (scripts/check-build-env.js) rather than falling back to development.
+ *
+ * Sessions and queued reports are kept per environment (see `scopedKey`), so
+ * switching never sends one server's token or reports to another.
+ */
+
+export type EnvironmentId = 'development' | 'staging' | 'production' | 'mock' | 'custom';
+
+export type AppEnvironment = {
+  id: EnvironmentId;
+  label: string;
+  /** API base URL, without trailing slash */
+  apiUrl: string;
+  /** Folder holding the offline map manifest, with trailing slash */
+  mapUrl: string;
+};
+
+const DEFAULT_MAP_URL = 'https://davao-water.gov.ph/dcwdApps/mobileApps/reactMap/';
+
+const DEVELOPMENT_API_URL = 'https://dev-api.davao-water.gov.ph';
+const STAGING_API_URL = normalizeApiUrl(process.env.EXPO_PUBLIC_STAGING_API_URL ?? '');
+const PRODUCTION_API_URL = normalizeApiUrl(process.env.EXPO_PUBLIC_PRODUCTION_API_URL ?? '');
+
+/** Environments this build knows a host for */
+export const ENVIRONMENTS: Partial<Record<Exclude<EnvironmentId, 'custom'>, AppEnvironment>> = {
+  development: { id: 'development', label: 'Development', apiUrl: DEVELOPMENT_API_URL, mapUrl: DEFAULT_MAP_URL },
+  ...(STAGING_API_URL ? { staging: { id: 'staging', label: 'Staging', apiUrl: STAGING_API_URL, mapUrl: DEFAULT_MAP_URL } } : {}),
+  ...(PRODUCTION_API_URL ? { production: { id: 'production', label: 'Production', apiUrl: PRODUCTION_API_URL, mapUrl: DEFAULT_MAP_URL } } : {}),
+  // Answered in-process; the host only appears in image URLs and is never contacted
+  mock: { id: 'mock', label: 'Mock Server', apiUrl: 'https://mock.invalid', mapUrl: DEFAULT_MAP_URL },
+};
+
+// `accesslevel` values allowed to open the environment switch, comma-separated
+// from the build, so they match the backend's own values rather than a guess
+const SWITCH_ACCESS_LEVELS = String(process.env.EXPO_PUBLIC_ENV_SWITCH_ACCESS_LEVELS ?? '')
+  .split(',')
+  .map(level => level.trim().toLowerCase())
+  .filter(Boolean);
+
+const OVERRIDE_KEY = '@environment_override';
+
+type EnvironmentOverride = {
+  id: EnvironmentId;
+  customApiUrl?: string;
+};
+
+/** Trim and drop trailing slashes; null unless it's an http(s) URL */
+export function normalizeApiUrl(url: string): string | null {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/]+/i.test(trimmed) ? trimmed : null;
+}
+
+function customEnvironment(apiUrl: string): AppEnvironment {
+  return { id: 'custom', label: 'Custom', apiUrl, mapUrl: process.env.EXPO_PUBLIC_MAP_URL || DEFAULT_MAP_URL };
+}
+
+/** The environment this build was made for */
+export const BUILD_ENVIRONMENT: AppEnvironment = (() => {
+  const buildApiUrl = normalizeApiUrl(process.env.EXPO_PUBLIC_API_URL ?? '');
+  if (buildApiUrl) return customEnvironment(buildApiUrl);
+
+  const buildEnv = (process.env.EXPO_PUBLIC_APP_ENV as EnvironmentId | undefined) || (__DEV__ ? 'development' : 'production');
+  const environment = buildEnv === 'custom' ? undefined : ENVIRONMENTS[buildEnv];
+  // Never fall back to another backend; scripts/check-build-env.js catches this on EAS
+  if (!environment) throw new Error(`[Environment] No API URL configured for the "${buildEnv}" build`);
+  return environment;
+})();
+
+function resolveEnvironment(override: EnvironmentOverride): AppEnvironment {
+  if (override.id === 'custom') {
+    const apiUrl = normalizeApiUrl(override.customApiUrl ?? '');
+    if (apiUrl) return customEnvironment(apiUrl);
+  } else {
+    const environment = ENVIRONMENTS[override.id];
+    if (environment) return environment;
+  }
+  return BUILD_ENVIRONMENT;
+}
+
+/** Stable name for an environment's storage */
+function environmentName(environment: AppEnvironment): string {
+  if (environment.id === 'custom') return `custom_${environment.apiUrl.replace(/^https?:\/\//i, '').replace(/[^a-z0-9]+/gi, '_')}`;
+  return environment.id;
+}
+
+/** Whether this user may switch environments; anyone may in development builds */
+export function canSwitchEnvironment(accesslevel: string | null | undefined): boolean {
+  if (__DEV__) return true;
+  return !!accesslevel && SWITCH_ACCESS_LEVELS.includes(accesslevel.trim().toLowerCase());
+}
+
+interface EnvironmentState {
+  environment: AppEnvironment;
+  /** True when Settings overrides the build's environment */
+  isOverridden: boolean;
+  isLoaded: boolean;
+
+  loadEnvironment: () => Promise<AppEnvironment>;
+  /** Persist a new environment; callers must reset the session (see authStore.switchEnvironment) */
+  setEnvironment: (id: EnvironmentId, customApiUrl?: string) => Promise<AppEnvironment>;
+}
+
+let loadPromise: Promise<AppEnvironment> | null = null;
+
+export const useEnvironmentStore = create<EnvironmentState>((set, get) => ({
+  environment: BUILD_ENVIRONMENT,
+  isOverridden: false,
+  isLoaded: false,
+
+  loadEnvironment: () => {
+    if (!loadPromise) {
+      loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(OVERRIDE_KEY);
+          if (stored) {
+            const environment = resolveEnvironment(JSON.parse(stored));
+            set({ environment, isOverridden: true, isLoaded: true });
+            console.log('[Environment] Using override', environment.id, environment.apiUrl);
+            return environment;
+          }
+        } catch (error) {
+          console.warn('[Environment] Could not read override, using build default:', error);
+        }
+        set({ environment: BUILD_ENVIRONMENT, isOverridden: false, isLoaded: true });
+        return BUILD_ENVIRONMENT;
+      })();
+    }
+    return loadPromise;
+  },
+
+  setEnvironment: async (id, customApiUrl) => {
+    await get().loadEnvironment();
+
+    let environment: AppEnvironment;
+    if (id === 'custom') {
+      const apiUrl = normalizeApiUrl(customApiUrl ?? '');
+      if (!apiUrl) throw new Error('Enter a valid http(s) URL');
+      environment = customEnvironment(apiUrl);
+    } else {
+      const known = ENVIRONMENTS[id];
+      if (!known) throw new Error(`This build has no URL for ${id}`);
+      environment = known;
+    }
+
+    const matchesBuild = environment.id === BUILD_ENVIRONMENT.id && environment.apiUrl === BUILD_ENVIRONMENT.apiUrl;
+    if (matchesBuild) {
+      await AsyncStorage.removeItem(OVERRIDE_KEY);
+    } else {
+      await AsyncStorage.setItem(OVERRIDE_KEY, JSON.stringify({ id, customApiUrl: id === 'custom' ? environment.apiUrl : undefined } satisfies EnvironmentOverride));
+    }
+
+    loadPromise = Promise.resolve(environment);
+    set({ environment, isOverridden: !matchesBuild, isLoaded: true });
+    console.log('[Environment] Switched to', environment.id, environment.apiUrl);
+    return environment;
+  },
+}));
+
+/** The active environment, once the stored override has been read */
+export function getEnvironment(): Promise<AppEnvironment> {
+  return useEnvironmentStore.getState().loadEnvironment();
+}
+
+const LEGACY_OWNER_KEY = '@legacy_storage_owner';
+
+let legacyOwnerPromise: Promise<string> | null = null;
+
+/**
+ * The environment that owns the unsuffixed storage names. Everything stored
+ * before environments existed belongs to the environment of the first build
+ * that knew about them, so an upgraded install keeps its session and queued
+ * reports whichever profile it was built with.
+ */
+function getLegacyOwner(): Promise<string> {
+  if (!legacyOwnerPromise) {
+    legacyOwnerPromise = (async () => {
+      const buildName = environmentName(BUILD_ENVIRONMENT);
+      try {
+        const stored = await AsyncStorage.getItem(LEGACY_OWNER_KEY);
+        if (stored) return stored;
+        await AsyncStorage.setItem(LEGACY_OWNER_KEY, buildName);
+      } catch (error) {
+        console.warn('[Environment] Could not read legacy storage owner, assuming the build environment:', error);
+      }
+      return buildName;
+    })();
+  }
+  return legacyOwnerPromise;
+}
+
+/** Suffix for the active environment's storage; empty for the legacy owner */
+export async function getStorageScope(): Promise<string> {
+  const [environment, legacyOwner] = await Promise.all([getEnvironment(), getLegacyOwner()]);
+  const name = environmentName(environment);
+  return name === legacyOwner ? '' : name;
+}
+
+/** `key` for the active environment's storage */
+export async function scopedKey(key: string): Promise<string> {
+  const scope = await getStorageScope();
+  return scope ? `${key}@${scope}` : key;
+}
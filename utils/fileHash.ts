@@ -0,0 +1,38 @@
+import { File as FsFile } from 'expo-file-system';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+// Bytes hashed per step; the UI gets a frame between steps
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * SHA-256 of a file as lowercase hex, read in chunks so large map packages
+ * never sit in memory whole.
+ *
+ * @param onProgress Called with 0-100 after each chunk
+ * @param isCancelled Checked between chunks; when it returns true the hash is abandoned and null returned
+ */
+export async function sha256File(
+  uri: string,
+  onProgress?: (percent: number) => void,
+  isCancelled?: () => boolean,
+): Promise<string | null> {
+  const handle = new FsFile(uri).open();
+  try {
+    const size = handle.size ?? 0;
+    const hash = sha256.create();
+    let position = 0;
+    handle.offset = 0;
+    while (position < size) {
+      if (isCancelled?.()) return null;
+      const chunk = handle.readBytes(Math.min(HASH_CHUNK_BYTES, size - position));
+      hash.update(chunk);
+      position += chunk.length;
+      onProgress?.(Math.round((position / size) * 100));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return bytesToHex(hash.digest());
+  } finally {
+    handle.close();
+  }
+}
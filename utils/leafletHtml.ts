@@ -0,0 +1,53 @@
+import { LEAFLET_CSS, LEAFLET_JS, LEAFLET_MARKER_ICONS } from '@/assets/leaflet/leafletBundle';
+
+/**
+ * Shared HTML page for the Leaflet WebViews. Leaflet is inlined from
+ * `assets/leaflet` (see `scripts/bundle-leaflet.js`), so the page renders
+ * with no network at all; only online tile layers reach the internet.
+ */
+
+export type LeafletHtmlOptions = {
+  /** Page script. Runs once Leaflet is loaded, with an empty `#map` div in place */
+  script: string;
+  /** Extra CSS for the page */
+  style?: string;
+  /** Extra markup placed before the map div (e.g. overlays) */
+  body?: string;
+};
+
+export function leafletHtml({ script, style = '', body = '' }: LeafletHtmlOptions): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
+  <style>${LEAFLET_CSS}</style>
+  <style>
+    html, body { margin: 0; padding: 0; height: 100%; width: 100%; overflow: hidden; }
+    #map { height: 100%; width: 100%; }
+    ${style}
+  </style>
+</head>
+<body>
+  ${body}
+  <div id="map"></div>
+  <script>${LEAFLET_JS}</script>
+  <script>
+    // The default icon path is detected from a CSS URL, which a page loaded from a string doesn't have
+    L.Icon.Default.imagePath = '';
+    L.Icon.Default.mergeOptions(${JSON.stringify(LEAFLET_MARKER_ICONS)});
+
+    function postToApp(message) {
+      window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify(message));
+    }
+
+    try {
+      ${script}
+    } catch (error) {
+      console.error('Map initialization error:', error);
+      postToApp({ type: 'mapError', message: String(error && error.message || error) });
+    }
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,363 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Directory, File as FsFile } from 'expo-file-system';
+import { isImageData, verifyMbtilesPackage } from '@/utils/mbtiles';
+import { sha256File } from '@/utils/fileHash';
+import { getEnvironment } from '@/utils/environment';
+
+/**
+ * Offline map regions: the remote manifest of installable map packages and
+ * the registry of regions installed on this device.
+ *
+ * Each region lives under `offline_maps/` as either `<id>.mbtiles` or a
+ * `<id>/` folder of extracted tiles. The original single Davao Roads map used
+ * the same layout with id `davroad`, so it is adopted as a region as-is.
+ */
+
+export const MAPS_DIR = `${FileSystem.documentDirectory}offline_maps/`;
+
+const MANIFEST_CACHE_KEY = 'offline_map_manifest';
+const REGISTRY_KEY = 'offline_map_regions';
+const PAUSED_DOWNLOAD_KEY = 'offline_map_paused_download';
+const MANIFEST_TIMEOUT_MS = 15000;
+
+/** [west, south, east, north] in degrees */
+export type MapBounds = [number, number, number, number];
+
+/**
+ * How a region is stored: loose `{z}/{x}/{y}.png` files (loaded by the
+ * WebView directly) or an MBTiles package (served over the tile bridge).
+ */
+export type OfflineMapFormat = 'folder' | 'mbtiles';
+
+/** What a map component needs to draw one installed region */
+export type OfflineTileSource = {
+  id: string;
+  format: OfflineMapFormat;
+  /** Tiles folder (trailing slash) or MBTiles file */
+  tilesPath: string;
+  /** Null means "anywhere" (the legacy map has no recorded bounds) */
+  bounds: MapBounds | null;
+  minZoom: number;
+  maxZoom: number;
+};
+
+/** A map package listed in the remote manifest */
+export type MapManifestEntry = {
+  id: string;
+  name: string;
+  url: string;
+  /** `zip` of tiles, or a single `mbtiles` file */
+  format: 'zip' | 'mbtiles';
+  /** Folder inside the zip that holds `{z}/{x}/{y}.png` (zip only) */
+  tileRoot: string;
+  bounds: MapBounds | null;
+  minZoom: number;
+  maxZoom: number;
+  sizeBytes: number;
+  version: string | null;
+  /** Hex SHA-256 of the downloaded file */
+  sha256: string | null;
+};
+
+export type InstalledMapRegion = OfflineTileSource & {
+  name: string;
+  version: string | null;
+  sha256: string | null;
+  /** Space used on disk */
+  sizeBytes: number;
+  installedAt: string;
+};
+
+/**
+ * Used when the manifest has never been reachable, so the original map stays
+ * installable. Served from the environment's map folder, like the manifest.
+ */
+export function defaultMapRegion(mapUrl: string): MapManifestEntry {
+  return {
+    id: 'davroad',
+    name: 'Davao Roads',
+    url: `${mapUrl}davroad.zip`,
+    format: 'zip',
+    tileRoot: 'davroad/',
+    bounds: null,
+    minZoom: 0,
+    maxZoom: 17,
+    sizeBytes: 256 * 1024 * 1024,
+    version: null,
+    sha256: null,
+  };
+}
+
+/** Where a region's files live (folders with trailing slash) */
+export function regionPaths(id: string) {
+  return {
+    folder: `${MAPS_DIR}${id}/`,
+    incomingFolder: `${MAPS_DIR}${id}_incoming/`,
+    previousFolder: `${MAPS_DIR}${id}_previous/`,
+    mbtiles: `${MAPS_DIR}${id}.mbtiles`,
+    incomingMbtiles: `${MAPS_DIR}${id}_incoming.mbtiles`,
+    zip: `${MAPS_DIR}${id}.zip`,
+  };
+}
+
+/** Whether the manifest offers a newer package than the installed one */
+export function hasRegionUpdate(installed: InstalledMapRegion, entry: MapManifestEntry): boolean {
+  return entry.version != null && entry.version !== installed.version;
+}
+
+/** Whether a point falls inside a region (regions without bounds cover everything) */
+export function regionContains(region: { bounds: MapBounds | null }, lat: number, lng: number): boolean {
+  if (!region.bounds) return true;
+  const [west, south, east, north] = region.bounds;
+  return lat >= south && lat <= north && lng >= west && lng <= east;
+}
+
+/** "512 KB" / "48.2 MB" / "1.3 GB" */
+export function formatMapSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+// ─── Integrity checks ─────────────────────────────────────────────────
+
+// Tiles read back when checking a folder region
+const SAMPLE_TILE_COUNT = 12;
+
+/**
+ * Pick tiles spread across zoom levels from a `{z}/{x}/{y}.png` folder:
+ * for each zoom, the first and middle column's first tile.
+ */
+function findSampleTiles(tilesPath: string): FsFile[] {
+  const root = new Directory(tilesPath);
+  if (!root.exists) return [];
+  const samples: FsFile[] = [];
+  const zooms = root.list().filter((d): d is Directory => d instanceof Directory && /^\d+$/.test(d.name));
+  for (const zoom of zooms) {
+    const columns = zoom.list().filter((d): d is Directory => d instanceof Directory);
+    for (const column of [columns[0], columns[Math.floor(columns.length / 2)]]) {
+      const tile = column?.list().find((f): f is FsFile => f instanceof FsFile);
+      if (tile && !samples.some(s => s.uri === tile.uri)) samples.push(tile);
+    }
+    if (samples.length >= SAMPLE_TILE_COUNT) break;
+  }
+  return samples;
+}
+
+/** Check an extracted tiles folder: it has zoom levels and sampled tiles are readable images */
+export function checkTileFolder(tilesPath: string): string[] {
+  const samples = findSampleTiles(tilesPath);
+  if (samples.length === 0) {
+    return ['No map tiles found'];
+  }
+  const broken = samples.filter(tile => {
+    try {
+      const handle = tile.open();
+      try {
+        return !isImageData(handle.readBytes(12));
+      } finally {
+        handle.close();
+      }
+    } catch {
+      return true;
+    }
+  });
+  return broken.length > 0 ? [`${broken.length} of ${samples.length} sampled tiles are damaged`] : [];
+}
+
+/**
+ * Check an installed region's files. Returns a list of problems (empty when
+ * healthy). Packages with a known checksum are re-hashed, which takes a while
+ * for large files.
+ */
+export async function verifyInstalledRegion(
+  region: InstalledMapRegion,
+  onProgress?: (message: string) => void,
+): Promise<string[]> {
+  if (region.format === 'mbtiles') {
+    const file = new FsFile(region.tilesPath);
+    if (!file.exists) return ['Map package is missing'];
+
+    const problems = await verifyMbtilesPackage(region.tilesPath);
+    if (problems.length === 0 && region.sha256) {
+      const hash = await sha256File(region.tilesPath, pct => onProgress?.(`Checking ${region.name}: ${pct}%`));
+      if (hash !== region.sha256) problems.push('Map package checksum does not match');
+    }
+    return problems;
+  }
+
+  onProgress?.(`Checking ${region.name}...`);
+  const problems = checkTileFolder(region.tilesPath);
+  // Files deleted from under the app show up as a smaller folder than was installed
+  const size = new Directory(regionPaths(region.id).folder).size;
+  if (size != null && region.sizeBytes > 0 && size < region.sizeBytes * 0.99) {
+    problems.push(`Map files are incomplete (${formatMapSize(size)} of ${formatMapSize(region.sizeBytes)})`);
+  }
+  return problems;
+}
+
+// ─── Manifest ─────────────────────────────────────────────────────────
+
+function parseBounds(value: any): MapBounds | null {
+  return Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number')
+    ? (value as MapBounds)
+    : null;
+}
+
+/** Validate one manifest entry; malformed entries are skipped rather than failing the whole list */
+function parseManifestEntry(raw: any): MapManifestEntry | null {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.url !== 'string') return null;
+  // Ids become file names
+  if (!/^[a-z0-9_-]+$/i.test(raw.id)) return null;
+
+  const format = raw.format === 'mbtiles' || /\.mbtiles$/i.test(raw.url.split('?')[0]) ? 'mbtiles' : 'zip';
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : raw.id,
+    url: raw.url,
+    format,
+    tileRoot: typeof raw.tileRoot === 'string' ? raw.tileRoot.replace(/^\/+/, '') : '',
+    bounds: parseBounds(raw.bounds),
+    minZoom: typeof raw.minZoom === 'number' ? raw.minZoom : 0,
+    maxZoom: typeof raw.maxZoom === 'number' ? raw.maxZoom : 17,
+    sizeBytes: typeof raw.sizeBytes === 'number' ? raw.sizeBytes : 0,
+    version: raw.version != null ? String(raw.version) : null,
+    sha256: typeof raw.sha256 === 'string' ? raw.sha256.toLowerCase() : null,
+  };
+}
+
+/** Fetch the manifest from the map server and cache it for offline use */
+export async function fetchMapManifest(): Promise<MapManifestEntry[]> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), MANIFEST_TIMEOUT_MS);
+  try {
+    console.log('[MapRegions] Fetching manifest...');
+    const manifestUrl = `${(await getEnvironment()).mapUrl}manifest.json`;
+    const response = await fetch(manifestUrl, { signal: controller.signal, headers: { 'Cache-Control': 'no-cache' } });
+    if (!response.ok) {
+      throw new Error(`Manifest request failed (${response.status})`);
+    }
+    const body = await response.json();
+    const entries = (Array.isArray(body?.regions) ? body.regions : [])
+      .map(parseManifestEntry)
+      .filter((entry: MapManifestEntry | null): entry is MapManifestEntry => entry !== null);
+    if (entries.length === 0) {
+      throw new Error('Manifest lists no map regions');
+    }
+
+    await AsyncStorage.setItem(MANIFEST_CACHE_KEY, JSON.stringify(entries));
+    console.log(`[MapRegions] Manifest lists ${entries.length} regions`);
+    return entries;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** The last manifest fetched, or null if it was never reachable */
+export async function loadCachedManifest(): Promise<MapManifestEntry[] | null> {
+  try {
+    const cached = await AsyncStorage.getItem(MANIFEST_CACHE_KEY);
+    return cached ? JSON.parse(cached) : null;
+  } catch (error) {
+    console.warn('[MapRegions] Could not read cached manifest:', error);
+    return null;
+  }
+}
+
+// ─── Installed regions ────────────────────────────────────────────────
+
+export async function saveInstalledRegions(regions: InstalledMapRegion[]): Promise<void> {
+  await AsyncStorage.setItem(REGISTRY_KEY, JSON.stringify(regions));
+}
+
+/** Register the single map installed by versions before regions existed */
+async function adoptLegacyMap(): Promise<InstalledMapRegion[]> {
+  const { id, name, tileRoot, minZoom, maxZoom } = defaultMapRegion((await getEnvironment()).mapUrl);
+  const paths = regionPaths(id);
+  const base = { id, name, version: null, sha256: null, bounds: null, minZoom, maxZoom, installedAt: new Date().toISOString() };
+
+  const packageInfo = await FileSystem.getInfoAsync(paths.mbtiles);
+  if (packageInfo.exists) {
+    return [{ ...base, format: 'mbtiles', tilesPath: paths.mbtiles, sizeBytes: packageInfo.size ?? 0 }];
+  }
+  const folderInfo = await FileSystem.getInfoAsync(`${paths.folder}${tileRoot}`);
+  if (folderInfo.exists) {
+    return [{ ...base, format: 'folder', tilesPath: `${paths.folder}${tileRoot}`, sizeBytes: new Directory(paths.folder).size ?? 0 }];
+  }
+  return [];
+}
+
+/**
+ * Load the installed regions, dropping any whose files are gone. On first run
+ * after the upgrade this adopts the legacy single map.
+ */
+export async function loadInstalledRegions(): Promise<InstalledMapRegion[]> {
+  const stored = await AsyncStorage.getItem(REGISTRY_KEY);
+  if (!stored) {
+    const adopted = await adoptLegacyMap();
+    await saveInstalledRegions(adopted);
+    if (adopted.length > 0) console.log('[MapRegions] Adopted existing Davao Roads map');
+    return adopted;
+  }
+
+  const regions: InstalledMapRegion[] = JSON.parse(stored);
+  const present: InstalledMapRegion[] = [];
+  for (const region of regions) {
+    const paths = regionPaths(region.id);
+    // The app died between parking the old folder and moving the new one in; put the old one back
+    if (region.format === 'folder') {
+      const live = await FileSystem.getInfoAsync(paths.folder);
+      const previous = await FileSystem.getInfoAsync(paths.previousFolder);
+      if (!live.exists && previous.exists) {
+        console.log(`[MapRegions] Restoring ${region.id} after an interrupted install`);
+        await FileSystem.moveAsync({ from: paths.previousFolder, to: paths.folder });
+      }
+    }
+
+    const info = await FileSystem.getInfoAsync(region.tilesPath);
+    if (info.exists) {
+      present.push(region);
+    } else {
+      console.warn(`[MapRegions] Files for ${region.id} are missing; unregistering it`);
+    }
+  }
+  if (present.length !== regions.length) await saveInstalledRegions(present);
+  return present;
+}
+
+// ─── Unfinished download ──────────────────────────────────────────────
+
+/**
+ * A region download that stopped part-way (paused, connection lost, or the
+ * app closed) and can continue from where it left off.
+ */
+export type PausedMapDownload = {
+  entry: MapManifestEntry;
+  /** `DownloadResumable.savable()` state; `resumeData` is only set after a pause */
+  pauseState: FileSystem.DownloadPauseState;
+  progress: number;
+};
+
+/** Persist (or with null, forget) the unfinished download */
+export async function savePausedDownload(download: PausedMapDownload | null): Promise<void> {
+  if (download) {
+    await AsyncStorage.setItem(PAUSED_DOWNLOAD_KEY, JSON.stringify(download));
+  } else {
+    await AsyncStorage.removeItem(PAUSED_DOWNLOAD_KEY);
+  }
+}
+
+/** The unfinished download, or null if there is none or its partial file is gone */
+export async function loadPausedDownload(): Promise<PausedMapDownload | null> {
+  try {
+    const stored = await AsyncStorage.getItem(PAUSED_DOWNLOAD_KEY);
+    if (!stored) return null;
+    const download: PausedMapDownload = JSON.parse(stored);
+    const info = await FileSystem.getInfoAsync(download.pauseState.fileUri);
+    return info.exists ? download : null;
+  } catch (error) {
+    console.warn('[MapRegions] Could not read paused download:', error);
+    return null;
+  }
+}
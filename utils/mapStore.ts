@@ -1,65 +1,167 @@
 import { create } from 'zustand';
 import * as FileSystem from 'expo-file-system/legacy';
-import { unzipSync } from 'fflate';
-import { InteractionManager } from 'react-native';
+import { Directory, File as FsFile, FileHandle, Paths } from 'expo-file-system';
+import { Unzip, UnzipFile, UnzipInflate } from 'fflate';
+import { InteractionManager, Platform } from 'react-native';
+import * as Network from 'expo-network';
 import { 
   requestNotificationPermissions, 
   showDownloadNotification, 
   updateDownloadNotification,
   showDownloadCompleteNotification,
   showDownloadErrorNotification,
-  dismissNotification 
+  dismissNotification,
+  addDownloadActionListener,
 } from '@/services/notificationService';
+import { checkNetworkConnection } from '@/utils/networkUtils';
+import { closeMbtiles, readMbtilesInfo, verifyMbtilesPackage } from '@/utils/mbtiles';
+import { sha256File } from '@/utils/fileHash';
+import { getEnvironment, useEnvironmentStore } from '@/utils/environment';
+import {
+  defaultMapRegion,
+  InstalledMapRegion,
+  MAPS_DIR,
+  MapManifestEntry,
+  checkTileFolder,
+  fetchMapManifest,
+  loadCachedManifest,
+  loadInstalledRegions,
+  loadPausedDownload,
+  regionPaths,
+  saveInstalledRegions,
+  savePausedDownload,
+} from '@/utils/mapRegions';
+
+/** Thrown when the user cancels an in-progress map install */
+class MapInstallCancelledError extends Error {
+  constructor() {
+    super('Map download cancelled');
+    this.name = 'MapInstallCancelledError';
+  }
+}
+
+// Cancellation for the install in progress (one at a time, see `installRegion`)
+let cancelRequested = false;
+let activeDownload: FileSystem.DownloadResumable | null = null;
+
+// A pause requested by `pauseMapDownload`, picked up by `downloadMap` when the transfer stops
+let pendingPause: Promise<FileSystem.DownloadPauseState> | null = null;
+// Wakes the paused `downloadMap`; set only while it waits
+let resumeWaiter: { resume: () => void; cancel: () => void } | null = null;
+
+const MAP_NOTIFICATION_ID = 'map-download';
 
-const MAP_URL = 'https://davao-water.gov.ph/dcwdApps/mobileApps/reactMap/davroad.zip';
+function throwIfCancelled() {
+  if (cancelRequested) throw new MapInstallCancelledError();
+}
 
 interface MapState {
   downloadProgress: number;
   isDownloading: boolean;
   isUnzipping: boolean;
+  extractProgress: number;
+  /** The download is stopped part-way and can be resumed (paused, offline, or left from an earlier session) */
+  isPaused: boolean;
+  /** At least one region is installed */
   isReady: boolean;
   error: string | null;
-  mapTilesPath: string | null;
   statusMessage: string;
 
+  // Regions
+  regions: InstalledMapRegion[];
+  manifest: MapManifestEntry[];
+  isLoadingManifest: boolean;
+  manifestError: string | null;
+  installingRegionId: string | null;
+  freeSpaceBytes: number | null;
+  /** Result of the startup check that bundled Leaflet renders a map offline (see `MapSelfCheck`) */
+  mapEngineStatus: 'checking' | 'ok' | 'failed';
+
   // Actions
   checkExistingMap: () => Promise<void>;
-  initializeMap: (mapUrl?: string) => Promise<void>;
+  refreshManifest: () => Promise<void>;
+  installRegion: (entry: MapManifestEntry) => Promise<void>;
+  removeRegion: (id: string) => Promise<void>;
+  pauseMapDownload: () => void;
+  resumeMapDownload: () => void;
+  cancelMapInstall: () => void;
   clearMapData: () => Promise<void>;
   setError: (error: string | null) => void;
+  setMapEngineStatus: (status: 'ok' | 'failed') => void;
+}
+
+function readFreeSpace(): number | null {
+  try {
+    return Paths.availableDiskSpace;
+  } catch {
+    return null;
+  }
 }
 
 export const useMapStore = create<MapState>((set, get) => ({
   downloadProgress: 0,
   isDownloading: false,
   isUnzipping: false,
+  extractProgress: 0,
+  isPaused: false,
   isReady: false,
   error: null,
-  mapTilesPath: null,
   statusMessage: 'Initializing...',
+  regions: [],
+  manifest: [defaultMapRegion(useEnvironmentStore.getState().environment.mapUrl)],
+  isLoadingManifest: false,
+  manifestError: null,
+  installingRegionId: null,
+  freeSpaceBytes: null,
+  mapEngineStatus: 'checking',
 
   setError: (error) => set({ error }),
 
+  setMapEngineStatus: (mapEngineStatus) => set({ mapEngineStatus }),
+
   checkExistingMap: async () => {
     try {
-      const mapDir = `${FileSystem.documentDirectory}offline_maps/`;
-      const extractedPath = `${mapDir}davroad/davroad/`;
-
-      const dirInfo = await FileSystem.getInfoAsync(extractedPath);
-      if (dirInfo.exists) {
-        console.log('Found existing map on startup');
-        set({
-          mapTilesPath: extractedPath,
-          isReady: true,
-          statusMessage: 'Map ready',
-        });
+      const [regions, cachedManifest] = await Promise.all([loadInstalledRegions(), loadCachedManifest()]);
+      if (regions.length > 0) {
+        console.log(`Found ${regions.length} installed map region(s) on startup`);
       }
+      // A download left unfinished by an earlier session shows as paused until resumed or cancelled
+      const paused = get().installingRegionId ? null : await loadPausedDownload();
+      set({
+        regions,
+        isReady: regions.length > 0,
+        statusMessage: regions.length > 0 ? 'Map ready' : get().statusMessage,
+        freeSpaceBytes: readFreeSpace(),
+        manifest: cachedManifest ?? [defaultMapRegion((await getEnvironment()).mapUrl)],
+        ...(paused ? {
+          isPaused: true,
+          installingRegionId: paused.entry.id,
+          downloadProgress: paused.progress,
+          statusMessage: `${paused.entry.name} download paused`,
+        } : {}),
+      });
     } catch (error) {
       console.log('No existing map found:', error);
     }
   },
 
-  initializeMap: async (mapUrl = MAP_URL) => {
+  refreshManifest: async () => {
+    if (get().isLoadingManifest) return;
+    set({ isLoadingManifest: true, manifestError: null });
+    try {
+      const manifest = await fetchMapManifest();
+      set({ manifest, isLoadingManifest: false, freeSpaceBytes: readFreeSpace() });
+    } catch (error: any) {
+      // Keep showing the cached (or default) list
+      console.warn('[MapStore] Manifest refresh failed:', error?.message);
+      set({
+        isLoadingManifest: false,
+        manifestError: error?.name === 'AbortError' ? 'Map server timed out' : error?.message || 'Could not load map list',
+      });
+    }
+  },
+
+  installRegion: async (entry) => {
     const state = get();
     
     // Prevent multiple simultaneous downloads
@@ -72,27 +174,39 @@ export const useMapStore = create<MapState>((set, get) => ({
       return;
     }
     
+    cancelRequested = false;
+    const paths = regionPaths(entry.id);
+    const isPackage = entry.format === 'mbtiles';
+    const downloadPath = isPackage ? paths.incomingMbtiles : paths.zip;
+
     try {
+      // The region's current files (if any) stay usable until the new ones are complete
       set({
         error: null,
-        isReady: false,
-        statusMessage: 'Checking for existing map...',
+        isPaused: false,
+        extractProgress: 0,
+        installingRegionId: entry.id,
+        statusMessage: `Preparing ${entry.name}...`,
       });
 
-      const mapDir = `${FileSystem.documentDirectory}offline_maps/`;
-      const zipPath = `${mapDir}davroad.zip`;
-      const extractPath = `${mapDir}davroad/`;
-      const extractedPath = `${mapDir}davroad/davroad/`;
-
-      // Check if map already exists - delete old before re-downloading
-      const dirInfo = await FileSystem.getInfoAsync(extractPath);
-      if (dirInfo.exists) {
-        console.log('Davao Roads map already exists, re-downloading...');
-        await FileSystem.deleteAsync(extractPath, { idempotent: true });
+      // Continue an unfinished download of this same package; any other one is abandoned
+      const paused = await loadPausedDownload();
+      const resumeFrom = paused && paused.entry.id === entry.id && paused.entry.url === entry.url
+        && paused.pauseState.fileUri === downloadPath
+        ? paused.pauseState
+        : null;
+      if (paused && !resumeFrom) {
+        await FileSystem.deleteAsync(paused.pauseState.fileUri, { idempotent: true });
+        await savePausedDownload(null);
       }
+      set({ downloadProgress: resumeFrom ? paused!.progress : 0 });
 
-      // Create directory if it doesn't exist
-      await FileSystem.makeDirectoryAsync(mapDir, { intermediates: true });
+      // Create directory if it doesn't exist; drop leftovers of an interrupted install
+      await FileSystem.makeDirectoryAsync(MAPS_DIR, { intermediates: true });
+      await FileSystem.deleteAsync(paths.incomingFolder, { idempotent: true });
+      if (!resumeFrom) {
+        await FileSystem.deleteAsync(paths.incomingMbtiles, { idempotent: true });
+      }
 
       // Use InteractionManager to defer download until UI is ready
       await new Promise(resolve => {
@@ -102,49 +216,231 @@ export const useMapStore = create<MapState>((set, get) => ({
       });
 
       // Phase 1: Download
-      await downloadMap(mapUrl, zipPath, set);
+      await downloadMap(entry, downloadPath, set, resumeFrom);
+      throwIfCancelled();
+
+      // A truncated or corrupted download is caught here rather than halfway through extraction
+      if (entry.sha256) {
+        const hash = await sha256File(
+          downloadPath,
+          pct => set({ statusMessage: `Verifying download: ${pct}%` }),
+          () => cancelRequested,
+        );
+        throwIfCancelled();
+        if (hash !== entry.sha256) {
+          await FileSystem.deleteAsync(downloadPath, { idempotent: true });
+          throw new Error('Downloaded map is corrupted (checksum mismatch). Please try again.');
+        }
+        console.log('[MapStore] Download checksum verified');
+      }
 
-      // Use InteractionManager again before extraction
-      await new Promise(resolve => {
-        InteractionManager.runAfterInteractions(() => {
-          setTimeout(resolve, 100);
+      let installed: Omit<InstalledMapRegion, 'sizeBytes'>;
+      const base = {
+        id: entry.id,
+        name: entry.name,
+        version: entry.version,
+        sha256: entry.sha256,
+        bounds: entry.bounds,
+        minZoom: entry.minZoom,
+        maxZoom: entry.maxZoom,
+        installedAt: new Date().toISOString(),
+      };
+
+      if (isPackage) {
+        // A package is installed by moving the one file into place; no extraction
+        set({ statusMessage: 'Checking map package...' });
+        const info = await readMbtilesInfo(paths.incomingMbtiles);
+        console.log('[MapStore] MBTiles package:', info);
+        const problems = await verifyMbtilesPackage(paths.incomingMbtiles);
+        if (problems.length > 0) {
+          throw new Error(`Map package failed verification: ${problems.join('; ')}`);
+        }
+
+        await closeMbtiles(paths.mbtiles);
+        await FileSystem.deleteAsync(paths.mbtiles, { idempotent: true });
+        await FileSystem.moveAsync({ from: paths.incomingMbtiles, to: paths.mbtiles });
+        // The package supersedes a folder install of the same region; free its space
+        await FileSystem.deleteAsync(paths.folder, { idempotent: true });
+
+        installed = {
+          ...base,
+          format: 'mbtiles',
+          tilesPath: paths.mbtiles,
+          // The package's own metadata fills gaps in the manifest
+          bounds: entry.bounds ?? info.bounds,
+          minZoom: info.minZoom ?? entry.minZoom,
+          maxZoom: info.maxZoom ?? entry.maxZoom,
+        };
+      } else {
+        // Use InteractionManager again before extraction
+        await new Promise(resolve => {
+          InteractionManager.runAfterInteractions(() => {
+            setTimeout(resolve, 100);
+          });
         });
-      });
 
-      // Phase 2: Unzip
-      await unzipMap(zipPath, extractPath, set);
+        // Phase 2: Unzip into a side folder, then check the tiles landed where the manifest says
+        await unzipMap(paths.zip, paths.incomingFolder, set);
+        const problems = checkTileFolder(`${paths.incomingFolder}${entry.tileRoot}`);
+        if (problems.length > 0) {
+          throw new Error(`Extracted map failed verification: ${problems.join('; ')}`);
+        }
 
-      // Clean up zip file
-      await FileSystem.deleteAsync(zipPath, { idempotent: true });
+        // Phase 3: Swap the new map in. The old one is parked rather than deleted first,
+        // so a crash mid-swap can be recovered by `loadInstalledRegions`.
+        await FileSystem.deleteAsync(paths.previousFolder, { idempotent: true });
+        if ((await FileSystem.getInfoAsync(paths.folder)).exists) {
+          await FileSystem.moveAsync({ from: paths.folder, to: paths.previousFolder });
+        }
+        await FileSystem.moveAsync({ from: paths.incomingFolder, to: paths.folder });
+        await FileSystem.deleteAsync(paths.previousFolder, { idempotent: true });
+
+        // Clean up zip file; a package left from an earlier install of the region is replaced
+        await FileSystem.deleteAsync(paths.zip, { idempotent: true });
+        await closeMbtiles(paths.mbtiles);
+        await FileSystem.deleteAsync(paths.mbtiles, { idempotent: true });
+
+        installed = { ...base, format: 'folder', tilesPath: `${paths.folder}${entry.tileRoot}` };
+      }
+
+      const sizeBytes = installed.format === 'mbtiles'
+        ? new FsFile(installed.tilesPath).size ?? 0
+        : new Directory(paths.folder).size ?? 0;
+      const regions = [...get().regions.filter(r => r.id !== entry.id), { ...installed, sizeBytes }];
+      await saveInstalledRegions(regions);
 
       set({
-        mapTilesPath: extractedPath,
+        regions,
         isReady: true,
+        installingRegionId: null,
+        freeSpaceBytes: readFreeSpace(),
         statusMessage: 'Map ready!',
       });
     } catch (error: any) {
+      await FileSystem.deleteAsync(paths.incomingFolder, { idempotent: true }).catch(() => {});
+      await FileSystem.deleteAsync(paths.incomingMbtiles, { idempotent: true }).catch(() => {});
+
+      if (error instanceof MapInstallCancelledError) {
+        console.log('[MapStore] Map install cancelled');
+        await FileSystem.deleteAsync(paths.zip, { idempotent: true }).catch(() => {});
+        set({
+          statusMessage: error.message,
+          isDownloading: false,
+          isUnzipping: false,
+          isPaused: false,
+          installingRegionId: null,
+        });
+        return;
+      }
+
       console.error('Map initialization error:', error);
       set({
         error: error.message,
         statusMessage: `Error: ${error.message}`,
-        isReady: false,
         isDownloading: false,
         isUnzipping: false,
+        isPaused: false,
+        installingRegionId: null,
+      });
+    } finally {
+      cancelRequested = false;
+    }
+  },
+
+  removeRegion: async (id) => {
+    if (get().installingRegionId === id) return;
+    const paths = regionPaths(id);
+    try {
+      await closeMbtiles(paths.mbtiles);
+      await FileSystem.deleteAsync(paths.mbtiles, { idempotent: true });
+      await FileSystem.deleteAsync(paths.folder, { idempotent: true });
+
+      const regions = get().regions.filter(r => r.id !== id);
+      await saveInstalledRegions(regions);
+      set({ regions, isReady: regions.length > 0, freeSpaceBytes: readFreeSpace() });
+      console.log(`[MapStore] Removed map region ${id}`);
+    } catch (error: any) {
+      console.error('[MapStore] Remove region error:', error);
+      set({ error: error.message });
+    }
+  },
+
+  pauseMapDownload: () => {
+    const { isDownloading, isPaused } = get();
+    if (!isDownloading || isPaused || !activeDownload || pendingPause) return;
+
+    console.log('[MapStore] Pausing map download...');
+    set({ statusMessage: 'Pausing...' });
+    // `downloadMap` sees the transfer stop and waits for `resumeMapDownload`
+    pendingPause = activeDownload.pauseAsync();
+    pendingPause.catch(error => {
+      console.error('[MapStore] Failed to pause download:', error);
+    });
+  },
+
+  resumeMapDownload: () => {
+    const { isPaused, isDownloading } = get();
+    if (!isPaused) return;
+    if (resumeWaiter) {
+      resumeWaiter.resume();
+      return;
+    }
+    if (isDownloading) return;
+
+    // Paused in an earlier session: run the install again, which picks up the saved download
+    loadPausedDownload().then(paused => {
+      if (paused) return get().installRegion(paused.entry);
+      set({ isPaused: false, installingRegionId: null, statusMessage: 'The paused download is no longer available' });
+    }).catch(error => {
+      console.error('[MapStore] Failed to resume download:', error);
+    });
+  },
+
+  cancelMapInstall: () => {
+    const { isDownloading, isUnzipping, isPaused } = get();
+
+    if (isPaused && !isDownloading) {
+      // Left from an earlier session; nothing is running, so just drop the partial file
+      console.log('[MapStore] Discarding paused map download');
+      set({ isPaused: false, installingRegionId: null, downloadProgress: 0, statusMessage: 'Map download cancelled' });
+      dismissNotification(MAP_NOTIFICATION_ID);
+      loadPausedDownload().then(async paused => {
+        if (paused) await FileSystem.deleteAsync(paused.pauseState.fileUri, { idempotent: true });
+        await savePausedDownload(null);
+      }).catch(error => {
+        console.error('[MapStore] Failed to discard paused download:', error);
       });
+      return;
     }
+    if (!isDownloading && !isUnzipping) return;
+
+    console.log('[MapStore] Cancelling map install...');
+    cancelRequested = true;
+    set({ statusMessage: 'Cancelling...' });
+    // The extractor checks the flag between chunks; a download has to be stopped explicitly
+    activeDownload?.cancelAsync().catch(error => {
+      console.error('[MapStore] Failed to cancel download:', error);
+    });
+    resumeWaiter?.cancel();
   },
 
   clearMapData: async () => {
     try {
-      const mapDir = `${FileSystem.documentDirectory}offline_maps/`;
-      await FileSystem.deleteAsync(mapDir, { idempotent: true });
+      await closeMbtiles();
+      await FileSystem.deleteAsync(MAPS_DIR, { idempotent: true });
+      await saveInstalledRegions([]);
+      await savePausedDownload(null);
 
       set({
         isDownloading: false,
         isUnzipping: false,
+        isPaused: false,
+        installingRegionId: null,
+        extractProgress: 0,
         isReady: false,
-        mapTilesPath: null,
+        regions: [],
         downloadProgress: 0,
+        freeSpaceBytes: readFreeSpace(),
         statusMessage: 'Map data cleared',
         error: null,
       });
@@ -163,69 +459,164 @@ export const useMapStore = create<MapState>((set, get) => ({
 
 // ─── Helper: Download map ────────────────────────────────────────────
 
+/**
+ * Resume data for continuing a partial download. iOS can only continue from
+ * the state `pauseAsync` returns; Android continues from the partial file's
+ * length, so there a dropped connection or a killed app loses nothing either.
+ */
+async function resumeDataFor(pauseState: FileSystem.DownloadPauseState | null): Promise<string | undefined> {
+  if (!pauseState) return undefined;
+  if (Platform.OS !== 'android') return pauseState.resumeData;
+  const info = await FileSystem.getInfoAsync(pauseState.fileUri);
+  return info.exists && info.size > 0 ? String(info.size) : undefined;
+}
+
+/**
+ * Wait until `resumeMapDownload` is called or, for a download stopped by a
+ * lost connection, until the connection comes back. Rejects with
+ * `MapInstallCancelledError` if the install is cancelled meanwhile.
+ */
+function waitForResume(resumeOnReconnect: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let subscription: { remove: () => void } | null = null;
+    const settle = (done: () => void) => {
+      subscription?.remove();
+      resumeWaiter = null;
+      done();
+    };
+    resumeWaiter = {
+      resume: () => settle(resolve),
+      cancel: () => settle(() => reject(new MapInstallCancelledError())),
+    };
+
+    if (resumeOnReconnect) {
+      subscription = Network.addNetworkStateListener(state => {
+        if (state.isConnected && state.isInternetReachable !== false) {
+          console.log('[MapStore] Connectivity regained, resuming map download');
+          resumeWaiter?.resume();
+        }
+      });
+      // The connection may already be back by the time the listener is attached
+      checkNetworkConnection().then(online => {
+        if (online) resumeWaiter?.resume();
+      });
+    }
+  });
+}
+
 async function downloadMap(
-  url: string,
+  entry: MapManifestEntry,
   destination: string,
   set: (partial: Partial<MapState>) => void,
+  resumeFrom: FileSystem.DownloadPauseState | null,
 ) {
-  set({ isDownloading: true, statusMessage: 'Downloading map...' });
+  set({ isDownloading: true, isPaused: false, statusMessage: resumeFrom ? 'Resuming download...' : 'Downloading map...' });
+  let progress = useMapStore.getState().downloadProgress;
   
   // Request notification permissions
   const hasPermission = await requestNotificationPermissions();
-  const NOTIFICATION_ID = 'map-download';
+  const NOTIFICATION_ID = MAP_NOTIFICATION_ID;
 
   try {
-    console.log('Starting download from:', url);
+    console.log('Starting download from:', entry.url);
     
     // Show initial notification
     if (hasPermission) {
       await showDownloadNotification(
         NOTIFICATION_ID,
         'Downloading Offline Map',
-        0,
-        'Starting download...'
+        progress,
+        resumeFrom ? 'Resuming download...' : 'Starting download...',
+        'running'
       );
     }
 
-    const downloadResumable = FileSystem.createDownloadResumable(
-      url,
-      destination,
-      {},
-      (downloadProgress) => {
-        const progress = Math.round(
-          (downloadProgress.totalBytesWritten /
-            downloadProgress.totalBytesExpectedToWrite) *
-            100,
+    const onProgress = (downloadProgress: FileSystem.DownloadProgressData) => {
+      progress = Math.round(
+        (downloadProgress.totalBytesWritten /
+          downloadProgress.totalBytesExpectedToWrite) *
+          100,
+      );
+
+      set({
+        downloadProgress: progress,
+        statusMessage: `Downloading: ${progress}%`,
+      });
+
+      const time = new Date().toLocaleTimeString();
+      console.log(`[${time}] Download progress: ${progress}%`);
+      
+      // Fire-and-forget — the notification service lock ensures only one
+      // update is in-flight at a time, so duplicate calls are safely skipped.
+      if (hasPermission) {
+        const mb = (downloadProgress.totalBytesWritten / (1024 * 1024)).toFixed(1);
+        const totalMb = (downloadProgress.totalBytesExpectedToWrite / (1024 * 1024)).toFixed(1);
+        updateDownloadNotification(
+          NOTIFICATION_ID,
+          'Downloading Offline Map',
+          progress,
+          `${mb} MB / ${totalMb} MB (${progress}%)`,
+          'running'
         );
+      }
+    };
+
+    let resumeData = await resumeDataFor(resumeFrom);
+    let downloadResult: FileSystem.FileSystemDownloadResult | undefined;
+
+    // One pass per stretch of transfer; a pause or lost connection waits, then starts the next
+    for (;;) {
+      const downloadResumable = FileSystem.createDownloadResumable(entry.url, destination, {}, onProgress, resumeData);
+      activeDownload = downloadResumable;
+      // Recorded before the transfer starts so a killed app can continue it on the next launch
+      await savePausedDownload({ entry, pauseState: downloadResumable.savable(), progress });
+
+      let failure: any = null;
+      try {
+        downloadResult = await downloadResumable.downloadAsync();
+      } catch (error) {
+        failure = error;
+      }
+      activeDownload = null;
+      // A cancelled download resolves without a result
+      throwIfCancelled();
+
+      const pause = pendingPause;
+      pendingPause = null;
+      const offline = !downloadResult && !pause && failure != null && !(await checkNetworkConnection());
+      if (downloadResult || (!pause && !offline)) {
+        if (failure) throw failure;
+        break;
+      }
 
-        set({
-          downloadProgress: progress,
-          statusMessage: `Downloading: ${progress}%`,
-        });
+      // Paused by the user, or the connection dropped: keep the partial file and wait
+      const pauseState = pause ? await pause.catch(() => downloadResumable.savable()) : downloadResumable.savable();
+      await savePausedDownload({ entry, pauseState, progress });
+      resumeData = await resumeDataFor(pauseState);
 
-        const time = new Date().toLocaleTimeString();
-        console.log(`[${time}] Download progress: ${progress}%`);
-        
-        // Fire-and-forget — the notification service lock ensures only one
-        // update is in-flight at a time, so duplicate calls are safely skipped.
-        if (hasPermission) {
-          const mb = (downloadProgress.totalBytesWritten / (1024 * 1024)).toFixed(1);
-          const totalMb = (downloadProgress.totalBytesExpectedToWrite / (1024 * 1024)).toFixed(1);
-          updateDownloadNotification(
-            NOTIFICATION_ID,
-            'Downloading Offline Map',
-            progress,
-            `${mb} MB / ${totalMb} MB (${progress}%)`
-          );
-        }
-      },
-    );
+      const message = offline ? 'Waiting for connection...' : 'Download paused';
+      console.log(`[MapStore] ${message} at ${progress}%`);
+      set({ isPaused: true, statusMessage: message });
+      if (hasPermission) {
+        await showDownloadNotification(NOTIFICATION_ID, 'Offline Map Download Paused', progress, `${message} (${progress}%)`, 'paused');
+      }
+
+      await waitForResume(offline);
 
-    const downloadResult = await downloadResumable.downloadAsync();
+      set({ isPaused: false, statusMessage: 'Resuming download...' });
+      if (hasPermission) {
+        await showDownloadNotification(NOTIFICATION_ID, 'Downloading Offline Map', progress, 'Resuming download...', 'running');
+      }
+    }
 
     if (!downloadResult) {
       throw new Error('Download failed - no result returned');
     }
+    // Error pages are saved to disk like any other response
+    if (downloadResult.status < 200 || downloadResult.status >= 300) {
+      throw new Error(`Server returned status ${downloadResult.status}`);
+    }
+    await savePausedDownload(null);
     
     // Dismiss download notification
     if (hasPermission) {
@@ -235,8 +626,16 @@ async function downloadMap(
     console.log('Download complete:', downloadResult.uri);
     set({ isDownloading: false, statusMessage: 'Download complete' });
   } catch (error: any) {
+    set({ isDownloading: false, isPaused: false });
+    await savePausedDownload(null).catch(() => {});
+
+    if (error instanceof MapInstallCancelledError || cancelRequested) {
+      if (hasPermission) await dismissNotification(NOTIFICATION_ID);
+      await FileSystem.deleteAsync(destination, { idempotent: true }).catch(() => {});
+      throw new MapInstallCancelledError();
+    }
+
     console.error('Download error:', error);
-    set({ isDownloading: false });
     
     // Replace progress notification with error notification
     if (hasPermission) {
@@ -256,166 +655,197 @@ async function downloadMap(
     }
 
     throw new Error(`Download failed: ${error.message}`);
+  } finally {
+    activeDownload = null;
+    pendingPause = null;
+  }
+}
+
+// Buttons on the progress notification drive the same actions as the Settings card
+addDownloadActionListener(MAP_NOTIFICATION_ID, action => {
+  const store = useMapStore.getState();
+  if (action === 'pause') store.pauseMapDownload();
+  else if (action === 'resume') store.resumeMapDownload();
+  else store.cancelMapInstall();
+});
+
+// ─── Helper: Unzip map (fflate streaming — one chunk in memory at a time) ───
+
+// Raw zip bytes read per step; tiles are written as soon as their entry completes
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+// End-of-central-directory record: fixed 22 bytes plus an optional comment of up to 64KB
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_MIN_SIZE = 22;
+const EOCD_MAX_SEARCH = EOCD_MIN_SIZE + 0xffff;
+
+/**
+ * Number of entries in the zip, read from its end-of-central-directory record.
+ * Returns null for ZIP64 archives, where progress falls back to bytes read.
+ * Throws if the record is missing, i.e. the file is truncated or not a zip.
+ */
+function readZipEntryCount(handle: FileHandle, size: number): number | null {
+  const tailLength = Math.min(size, EOCD_MAX_SEARCH);
+  if (tailLength < EOCD_MIN_SIZE) {
+    throw new Error('Map archive is empty or truncated');
   }
+
+  handle.offset = size - tailLength;
+  const tail = handle.readBytes(tailLength);
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+  for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      const count = view.getUint16(i + 10, true);
+      return count === 0xffff ? null : count;
+    }
+  }
+  throw new Error('Map archive is incomplete or damaged (no end-of-archive record)');
 }
 
-// ─── Helper: Unzip map (fflate — fast pure JS, chunked read) ───────
+/** Entry names that would escape the extraction folder */
+function isUnsafeEntryName(name: string): boolean {
+  return name.startsWith('/') || name.split('/').includes('..');
+}
 
 async function unzipMap(
   zipPath: string,
   extractPath: string,
   set: (partial: Partial<MapState>) => void,
 ) {
-  set({ isUnzipping: true, statusMessage: 'Reading zip file...' });
-  
+  set({ isUnzipping: true, extractProgress: 0, statusMessage: 'Extracting map...' });
+
   const NOTIFICATION_ID = 'map-extract';
   const hasPermission = await requestNotificationPermissions();
-  
+
   // Show initial notification
   if (hasPermission) {
     await showDownloadNotification(
       NOTIFICATION_ID,
       'Extracting Map Data',
       0,
-      'Reading zip file...'
+      'Extracting files...'
     );
   }
 
+  let zipHandle: FileHandle | null = null;
+  let entryHandle: FileHandle | null = null;
+
   try {
-    console.log('Starting fflate extraction...');
+    console.log('Starting fflate streaming extraction...');
     console.log('Zip file:', zipPath);
     console.log('Extract to:', extractPath);
 
-    await FileSystem.makeDirectoryAsync(extractPath, { intermediates: true });
-
-    // Get file size
-    const fileInfo = await FileSystem.getInfoAsync(zipPath);
-    const fileSize = (fileInfo as any).size ?? 0;
-    console.log('Zip file size:', fileSize, 'bytes');
-
-    // Read in ~10MB chunks to avoid OOM, decode directly into a single buffer
-    const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB raw bytes per chunk
-    const zipBytes = new Uint8Array(fileSize);
-    let written = 0;
-
-    const startRead = Date.now();
-    while (written < fileSize) {
-      const readLen = Math.min(CHUNK_SIZE, fileSize - written);
-      const b64Chunk = await FileSystem.readAsStringAsync(zipPath, {
-        encoding: FileSystem.EncodingType.Base64,
-        position: written,
-        length: readLen,
-      });
-
-      // Decode base64 chunk directly into the pre-allocated buffer
-      const raw = atob(b64Chunk);
-      for (let i = 0; i < raw.length; i++) {
-        zipBytes[written + i] = raw.charCodeAt(i);
+    const createdDirs = new Set<string>();
+    const ensureDir = (dirPath: string) => {
+      if (createdDirs.has(dirPath)) return;
+      new Directory(dirPath).create({ intermediates: true, idempotent: true });
+      createdDirs.add(dirPath);
+    };
+    ensureDir(extractPath);
+
+    zipHandle = new FsFile(zipPath).open();
+    const fileSize = zipHandle.size ?? 0;
+    const totalEntries = readZipEntryCount(zipHandle, fileSize);
+    console.log(`Zip file size: ${fileSize} bytes, entries: ${totalEntries ?? 'unknown'}`);
+
+    let entriesDone = 0;
+    let filesWritten = 0;
+
+    // fflate calls these synchronously from `push`, one entry at a time
+    const unzipper = new Unzip();
+    unzipper.register(UnzipInflate);
+    unzipper.onfile = (entry: UnzipFile) => {
+      if (entry.name.endsWith('/') || isUnsafeEntryName(entry.name)) {
+        if (!entry.name.endsWith('/')) console.warn('Skipping unsafe zip entry:', entry.name);
+        else ensureDir(`${extractPath}${entry.name}`);
+        entriesDone++;
+        return;
       }
-      written += raw.length;
 
-      const pct = Math.round((written / fileSize) * 100);
-      set({ statusMessage: `Reading zip: ${pct}%` });
-      console.log(`Read ${pct}% (${written}/${fileSize})`);
-      
+      const filePath = `${extractPath}${entry.name}`;
+      ensureDir(filePath.substring(0, filePath.lastIndexOf('/') + 1));
+      const target = new FsFile(filePath);
+      target.create({ overwrite: true });
+      const handle = target.open();
+      entryHandle = handle;
+
+      entry.ondata = (err, chunk, final) => {
+        if (err) throw err;
+        if (chunk.length > 0) handle.writeBytes(chunk);
+        if (final) {
+          handle.close();
+          entryHandle = null;
+          filesWritten++;
+          entriesDone++;
+        }
+      };
+      entry.start();
+    };
+
+    const startExtract = Date.now();
+    let position = 0;
+    zipHandle.offset = 0;
+    while (position < fileSize) {
+      throwIfCancelled();
+
+      const chunk = zipHandle.readBytes(Math.min(READ_CHUNK_BYTES, fileSize - position));
+      position += chunk.length;
+      unzipper.push(chunk, position >= fileSize);
+
+      const pct = totalEntries
+        ? Math.min(100, Math.round((entriesDone / totalEntries) * 100))
+        : Math.round((position / fileSize) * 100);
+      set({
+        extractProgress: pct,
+        statusMessage: totalEntries
+          ? `Extracting: ${pct}% (${entriesDone}/${totalEntries})`
+          : `Extracting: ${pct}%`,
+      });
+
       // Update notification
       if (hasPermission) {
-        await updateDownloadNotification(
+        updateDownloadNotification(
           NOTIFICATION_ID,
           'Extracting Map Data',
           pct,
-          `Reading zip file (${pct}%)`
+          totalEntries ? `Extracting files (${entriesDone}/${totalEntries})` : `Extracting files (${pct}%)`
         );
       }
-    }
-    console.log(`Zip read in ${Date.now() - startRead}ms`);
 
-    // Decompress with fflate (much faster than JSZip)
-    set({ statusMessage: 'Decompressing...' });
-    
-    if (hasPermission) {
-      await updateDownloadNotification(
-        NOTIFICATION_ID,
-        'Extracting Map Data',
-        50,
-        'Decompressing files...'
-      );
+      // Give the UI a frame between chunks
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
-    
-    const startDecompress = Date.now();
-    const extracted = unzipSync(zipBytes);
-    const filenames = Object.keys(extracted);
-    console.log(`Decompressed ${filenames.length} entries in ${Date.now() - startDecompress}ms`);
-
-    // Write files in large batches
-    const batchSize = 150;
-    let processed = 0;
-    const createdDirs = new Set<string>();
-
-    for (let i = 0; i < filenames.length; i += batchSize) {
-      const batch = filenames.slice(i, Math.min(i + batchSize, filenames.length));
-
-      await Promise.all(
-        batch.map(async (filename) => {
-          if (filename.endsWith('/')) return;
-
-          const fileData = extracted[filename];
-          if (!fileData || fileData.length === 0) return;
-
-          const filePath = `${extractPath}${filename}`;
-          const dirPath = filePath.substring(0, filePath.lastIndexOf('/'));
-
-          if (dirPath && !createdDirs.has(dirPath)) {
-            createdDirs.add(dirPath);
-            await FileSystem.makeDirectoryAsync(dirPath, { intermediates: true });
-          }
-
-          // Convert Uint8Array → base64 for writing
-          let binary = '';
-          const len = fileData.length;
-          const chunkLen = 8192;
-          for (let j = 0; j < len; j += chunkLen) {
-            const slice = fileData.subarray(j, Math.min(j + chunkLen, len));
-            binary += String.fromCharCode.apply(null, slice as unknown as number[]);
-          }
-
-          await FileSystem.writeAsStringAsync(filePath, btoa(binary), {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-        }),
-      );
+    console.log(`Extracted ${filesWritten} files in ${Date.now() - startExtract}ms`);
 
-      processed += batch.length;
-      const pct = Math.round((processed / filenames.length) * 100);
-      set({ statusMessage: `Writing files: ${pct}% (${processed}/${filenames.length})` });
-      
-      // Update notification
-      if (hasPermission) {
-        await updateDownloadNotification(
-          NOTIFICATION_ID,
-          'Extracting Map Data',
-          50 + Math.round(pct / 2), // 50-100% range for writing
-          `Writing files (${processed}/${filenames.length})`
-        );
-      }
+    if (filesWritten === 0) {
+      throw new Error('Map archive contained no files');
+    }
+    // A truncated archive just stops producing entries
+    if (totalEntries && entriesDone < totalEntries) {
+      throw new Error(`Map archive is incomplete (${entriesDone} of ${totalEntries} entries)`);
     }
 
-    console.log('Extraction complete');
-    set({ isUnzipping: false, statusMessage: 'Extraction complete' });
-    
+    set({ isUnzipping: false, extractProgress: 100, statusMessage: 'Extraction complete' });
+
     // Replace progress notification with completion notification (same ID)
     if (hasPermission) {
       await dismissNotification(NOTIFICATION_ID);
       await showDownloadCompleteNotification(
         'Map Data Extracted',
-        `${filenames.length} files extracted successfully`,
+        `${filesWritten} files extracted successfully`,
         NOTIFICATION_ID
       );
     }
   } catch (error: any) {
-    console.error('Unzip error:', error);
     set({ isUnzipping: false });
-    
+
+    if (error instanceof MapInstallCancelledError) {
+      if (hasPermission) await dismissNotification(NOTIFICATION_ID);
+      throw error;
+    }
+
+    console.error('Unzip error:', error);
+
     // Replace progress notification with error notification (same ID)
     if (hasPermission) {
       await dismissNotification(NOTIFICATION_ID);
@@ -425,7 +855,10 @@ async function unzipMap(
         NOTIFICATION_ID
       );
     }
-    
+
     throw new Error(`Unzip failed: ${error.message}`);
+  } finally {
+    (entryHandle as FileHandle | null)?.close();
+    zipHandle?.close();
   }
 }
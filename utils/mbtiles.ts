@@ -0,0 +1,182 @@
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * Read-only access to an MBTiles package (a SQLite file holding every map tile).
+ *
+ * The WebView can't open the file itself, so map components ask for tiles over
+ * the bridge in `hooks/mbtilesTileBridge.ts` and get them back as data URIs.
+ */
+
+export type MbtilesInfo = {
+  format: string;
+  minZoom: number | null;
+  maxZoom: number | null;
+  /** [west, south, east, north] */
+  bounds: [number, number, number, number] | null;
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// Tiles read back by `verifyMbtilesPackage`
+const SAMPLE_TILE_COUNT = 12;
+
+/** Whether bytes start with a PNG, JPEG or WebP signature */
+export function isImageData(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) return false;
+  return (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47)
+    || (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff)
+    || (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[8] === 0x57 && bytes[9] === 0x45);
+}
+
+type OpenPackage = { db: SQLite.SQLiteDatabase; mime: string };
+
+// Open connections by file URI, one per installed region that has been drawn
+const openPackages = new Map<string, Promise<OpenPackage>>();
+
+/** Split a file:// URI into the directory and file name expo-sqlite expects */
+function splitPath(fileUri: string): { directory: string; name: string } {
+  const slash = fileUri.lastIndexOf('/');
+  return { directory: fileUri.substring(0, slash), name: fileUri.substring(slash + 1) };
+}
+
+async function openPackage(fileUri: string): Promise<OpenPackage> {
+  const { directory, name } = splitPath(fileUri);
+  console.log('[MBTiles] Opening', fileUri);
+  const db = await SQLite.openDatabaseAsync(name, {}, directory);
+  const row = await db.getFirstAsync<{ value: string }>(`SELECT value FROM metadata WHERE name = 'format'`);
+  return { db, mime: MIME_TYPES[row?.value?.toLowerCase() ?? 'png'] ?? 'image/png' };
+}
+
+function getPackage(fileUri: string): Promise<OpenPackage> {
+  const existing = openPackages.get(fileUri);
+  if (existing) {
+    return existing;
+  }
+
+  const opening = openPackage(fileUri);
+  openPackages.set(fileUri, opening);
+  opening.catch(error => {
+    console.error('[MBTiles] Failed to open package:', error?.message);
+    openPackages.delete(fileUri);
+  });
+  return opening;
+}
+
+/** Close one package (or all of them), e.g. before the file is replaced or deleted */
+export async function closeMbtiles(fileUri?: string): Promise<void> {
+  const uris = fileUri ? [fileUri] : Array.from(openPackages.keys());
+  for (const uri of uris) {
+    const pending = openPackages.get(uri);
+    openPackages.delete(uri);
+    if (!pending) continue;
+    try {
+      const { db } = await pending;
+      await db.closeAsync();
+    } catch {
+      // Never opened; nothing to close
+    }
+  }
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkLen = 8192;
+  for (let i = 0; i < bytes.length; i += chunkLen) {
+    const slice = bytes.subarray(i, Math.min(i + chunkLen, bytes.length));
+    binary += String.fromCharCode.apply(null, slice as unknown as number[]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Load one tile as a data URI, or null if the package has no tile there.
+ * `y` is in the XYZ scheme Leaflet uses; MBTiles rows are TMS (flipped).
+ */
+export async function getMbtilesTile(fileUri: string, z: number, x: number, y: number): Promise<string | null> {
+  const { db, mime } = await getPackage(fileUri);
+  const tmsY = (1 << z) - 1 - y;
+  const row = await db.getFirstAsync<{ tile_data: Uint8Array }>(
+    'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?',
+    [z, x, tmsY]
+  );
+  if (!row?.tile_data) return null;
+  return `data:${mime};base64,${bytesToBase64(row.tile_data)}`;
+}
+
+/**
+ * Check that a file is a usable MBTiles package and read its metadata.
+ * Throws with a readable message if it isn't. Opens its own connection so a
+ * package can be checked before it replaces the installed one.
+ */
+export async function readMbtilesInfo(fileUri: string): Promise<MbtilesInfo> {
+  const { directory, name } = splitPath(fileUri);
+  const db = await SQLite.openDatabaseAsync(name, {}, directory);
+  try {
+    const tables = await db.getAllAsync<{ name: string }>(
+      `SELECT name FROM sqlite_master WHERE name IN ('tiles', 'metadata')`
+    );
+    if (tables.length < 2) {
+      throw new Error('Not an MBTiles package (missing tiles or metadata table)');
+    }
+
+    const tile = await db.getFirstAsync<{ zoom_level: number }>('SELECT zoom_level FROM tiles LIMIT 1');
+    if (!tile) {
+      throw new Error('MBTiles package contains no tiles');
+    }
+
+    const rows = await db.getAllAsync<{ name: string; value: string }>('SELECT name, value FROM metadata');
+    const meta = Object.fromEntries(rows.map(r => [r.name, r.value]));
+    const bounds = meta.bounds?.split(',').map(Number);
+    const toZoom = (value?: string) => (value != null && !isNaN(parseInt(value, 10)) ? parseInt(value, 10) : null);
+
+    return {
+      format: (meta.format || 'png').toLowerCase(),
+      minZoom: toZoom(meta.minzoom),
+      maxZoom: toZoom(meta.maxzoom),
+      bounds: bounds?.length === 4 && bounds.every(n => !isNaN(n))
+        ? (bounds as [number, number, number, number])
+        : null,
+    };
+  } finally {
+    await db.closeAsync();
+  }
+}
+
+/**
+ * Check an MBTiles package for corruption: SQLite's quick_check plus a sample
+ * of tiles that must decode as images. Returns a list of problems (empty when
+ * healthy).
+ */
+export async function verifyMbtilesPackage(fileUri: string): Promise<string[]> {
+  const { directory, name } = splitPath(fileUri);
+  const db = await SQLite.openDatabaseAsync(name, {}, directory);
+  try {
+    const problems: string[] = [];
+    const check = await db.getAllAsync<{ quick_check: string }>('PRAGMA quick_check');
+    if (check.length !== 1 || check[0].quick_check !== 'ok') {
+      problems.push('Map package is damaged (database check failed)');
+      return problems;
+    }
+
+    const samples = await db.getAllAsync<{ tile_data: Uint8Array | null }>(
+      'SELECT tile_data FROM tiles LIMIT ?',
+      [SAMPLE_TILE_COUNT]
+    );
+    if (samples.length === 0) {
+      problems.push('Map package contains no tiles');
+    } else {
+      const broken = samples.filter(row => !row.tile_data || !isImageData(row.tile_data)).length;
+      if (broken > 0) problems.push(`${broken} of ${samples.length} sampled tiles are damaged`);
+    }
+    return problems;
+  } catch (error: any) {
+    return [`Map package can't be read: ${error?.message ?? error}`];
+  } finally {
+    await db.closeAsync();
+  }
+}
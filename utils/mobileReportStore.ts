@@ -1,14 +1,46 @@
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { CachedLeakReport, LeakReportPayload, submitLeakReportWithFiles } from '@/services/mobileReport';
+import {
+  CachedLeakReport,
+  LeakReportPayload,
+  generateReportUuid,
+  getAlreadySubmittedRef,
+  submitLeakReportWithFiles,
+} from '@/services/mobileReport';
+import {
+  loadOutboxReports,
+  insertOutboxReport,
+  claimOutboxReport,
+  markOutboxSynced,
+  markOutboxFailed,
+  deleteOutboxReport,
+  deleteSyncedOutboxReports,
+} from '@/utils/reportOutbox';
+import { classifySyncError } from '@/utils/networkUtils';
 
-const CACHE_KEY = 'leak_reports_cache';
+// Automatic retries stop after this many attempts (a manual retry still works)
+export const MAX_SYNC_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m, ...
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // capped at 6 hours
 
 // Generate a unique ID for cached reports
 function generateId(): string {
   return `report_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/** Exponential backoff with +/-20% jitter so queued reports don't retry in lockstep */
+function getRetryDelayMs(attemptCount: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attemptCount - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/** Whether automatic sync should pick up this report now */
+function isDueForSync(report: CachedLeakReport, now: number): boolean {
+  if (report.syncStatus === 'pending') return true;
+  if (report.syncStatus !== 'failed') return false;
+  if ((report.attemptCount ?? 0) >= MAX_SYNC_ATTEMPTS) return false;
+  return !report.nextRetryAt || new Date(report.nextRetryAt).getTime() <= now;
+}
+
 interface MobileReportState {
   // Cached reports
   cachedReports: CachedLeakReport[];
@@ -24,193 +56,214 @@ interface MobileReportState {
   clearSyncedReports: () => Promise<void>;
   
   // Sync actions
-  syncReport: (id: string) => Promise<boolean>;
-  syncAllPending: () => Promise<{ success: number; failed: number }>;
+  // `force` skips backoff and the retry budget, and also resends rejected reports (manual "retry now")
+  syncReport: (id: string, options?: { force?: boolean }) => Promise<boolean>;
+  syncAllPending: (options?: { force?: boolean }) => Promise<{ success: number; failed: number }>;
+  retryNow: (id: string) => Promise<boolean>;
   
   // Getters
   getPendingCount: () => number;
   getSyncedCount: () => number;
   getFailedCount: () => number;
+  getRejectedCount: () => number;
 }
 
-export const useMobileReportStore = create<MobileReportState>((set, get) => ({
-  // Initial state
-  cachedReports: [],
-  isLoading: false,
-  isSyncing: false,
+export const useMobileReportStore = create<MobileReportState>((set, get) => {
+  // Patch a single report in memory (the outbox row is updated separately)
+  const updateReportInState = (id: string, patch: Partial<CachedLeakReport>) => {
+    set({
+      cachedReports: get().cachedReports.map(r => (r.id === id ? { ...r, ...patch } : r)),
+    });
+  };
+
+  return {
+    // Initial state
+    cachedReports: [],
+    isLoading: false,
+    isSyncing: false,
   
-  // Load cached reports from AsyncStorage
-  loadCachedReports: async () => {
-    set({ isLoading: true });
-    try {
-      const cached = await AsyncStorage.getItem(CACHE_KEY);
-      if (cached) {
-        const reports: CachedLeakReport[] = JSON.parse(cached);
+    // Load cached reports from the SQLite outbox
+    loadCachedReports: async () => {
+      set({ isLoading: true });
+      try {
+        const reports = await loadOutboxReports();
         set({ cachedReports: reports });
         console.log(`[MobileReportStore] Loaded ${reports.length} cached reports`);
+      } catch (error) {
+        console.error('[MobileReportStore] Error loading cached reports:', error);
+      } finally {
+        set({ isLoading: false });
       }
-    } catch (error) {
-      console.error('[MobileReportStore] Error loading cached reports:', error);
-    } finally {
-      set({ isLoading: false });
-    }
-  },
+    },
   
-  // Add a new report to cache
-  addReport: async (payload: LeakReportPayload): Promise<CachedLeakReport> => {
-    const newReport: CachedLeakReport = {
-      ...payload,
-      id: generateId(),
-      createdAt: new Date().toISOString(),
-      syncStatus: 'pending',
-    };
-    
-    const { cachedReports } = get();
-    const updatedReports = [...cachedReports, newReport];
+    // Add a new report to cache
+    addReport: async (payload: LeakReportPayload): Promise<CachedLeakReport> => {
+      const newReport: CachedLeakReport = {
+        ...payload,
+        id: generateId(),
+        // Generated once and persisted, so every retry submits the same Id
+        clientReportId: generateReportUuid(),
+        createdAt: new Date().toISOString(),
+        syncStatus: 'pending',
+      };
     
-    // Save to AsyncStorage
-    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(updatedReports));
-    set({ cachedReports: updatedReports });
+      // Persist the single row, then reflect it in memory
+      await insertOutboxReport(newReport);
+      set({ cachedReports: [...get().cachedReports, newReport] });
     
-    console.log(`[MobileReportStore] Added report ${newReport.id} to cache`);
-    return newReport;
-  },
+      console.log(`[MobileReportStore] Added report ${newReport.id} to cache`);
+      return newReport;
+    },
   
-  // Remove a report from cache
-  removeReport: async (id: string) => {
-    const { cachedReports } = get();
-    const updatedReports = cachedReports.filter(r => r.id !== id);
+    // Remove a report from cache
+    removeReport: async (id: string) => {
+      await deleteOutboxReport(id);
+      set({ cachedReports: get().cachedReports.filter(r => r.id !== id) });
     
-    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(updatedReports));
-    set({ cachedReports: updatedReports });
-    
-    console.log(`[MobileReportStore] Removed report ${id} from cache`);
-  },
+      console.log(`[MobileReportStore] Removed report ${id} from cache`);
+    },
   
-  // Clear all synced reports
-  clearSyncedReports: async () => {
-    const { cachedReports } = get();
-    const updatedReports = cachedReports.filter(r => r.syncStatus !== 'synced');
-    
-    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(updatedReports));
-    set({ cachedReports: updatedReports });
+    // Clear all synced reports
+    clearSyncedReports: async () => {
+      await deleteSyncedOutboxReports();
+      set({ cachedReports: get().cachedReports.filter(r => r.syncStatus !== 'synced') });
     
-    console.log('[MobileReportStore] Cleared all synced reports');
-  },
+      console.log('[MobileReportStore] Cleared all synced reports');
+    },
   
-  // Sync a single report to the server
-  syncReport: async (id: string): Promise<boolean> => {
-    const { cachedReports } = get();
-    const reportIndex = cachedReports.findIndex(r => r.id === id);
-    
-    if (reportIndex === -1) {
-      console.error(`[MobileReportStore] Report ${id} not found`);
-      return false;
-    }
+    // Sync a single report to the server
+    syncReport: async (id: string, options?: { force?: boolean }): Promise<boolean> => {
+      const report = get().cachedReports.find(r => r.id === id);
     
-    const report = cachedReports[reportIndex];
+      if (!report) {
+        console.error(`[MobileReportStore] Report ${id} not found`);
+        return false;
+      }
     
-    // Update status to syncing
-    const updatingReports = [...cachedReports];
-    updatingReports[reportIndex] = { ...report, syncStatus: 'syncing' };
-    set({ cachedReports: updatingReports });
+      // Claim the row (pending/failed -> syncing) so no other pass sends it concurrently
+      const claimed = await claimOutboxReport(id, options?.force);
+      if (!claimed) {
+        console.log(`[MobileReportStore] Report ${id} is not in a syncable state, skipping`);
+        return false;
+      }
+      updateReportInState(id, { syncStatus: 'syncing' });
     
-    try {
-      // Submit to server using form data (API requires multipart/form-data)
-      const response = await submitLeakReportWithFiles({
-        meterNumber: report.meterNumber,
-        accountNumber: report.accountNumber,
-        address: report.address,
-        dma: report.dma,
-        coordinates: report.coordinates,
-        leakType: report.leakType,
-        location: report.location,
-        contactPerson: report.contactPerson,
-        contactNumber: report.contactNumber,
-        landmark: report.landmark,
-        leakPhotos: report.leakPhotos,
-        landmarkPhotos: report.landmarkPhotos,
-        reportedAt: report.reportedAt,
-        empId: report.empId,
-        wss: report.wss,
-      });
+      try {
+        // Submit to server using form data (API requires multipart/form-data).
+        // The whole stored payload goes through, so fields added later aren't dropped here
+        const response = await submitLeakReportWithFiles(report, report.clientReportId);
       
-      // Update status to synced
-      const syncedReports = [...get().cachedReports];
-      const currentIndex = syncedReports.findIndex(r => r.id === id);
-      if (currentIndex !== -1) {
-        syncedReports[currentIndex] = {
-          ...syncedReports[currentIndex],
+        // Update status to synced
+        const serverReferenceNumber = response.data?.refNo;
+        await markOutboxSynced(id, serverReferenceNumber);
+        updateReportInState(id, {
           syncStatus: 'synced',
-          serverReferenceNumber: response.data?.refNo,
+          serverReferenceNumber,
           syncError: undefined,
-        };
-        await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(syncedReports));
-        set({ cachedReports: syncedReports });
-      }
+        });
+      
+        console.log(`[MobileReportStore] Report ${id} synced successfully`);
+        return true;
       
-      console.log(`[MobileReportStore] Report ${id} synced successfully`);
-      return true;
+      } catch (error: any) {
+        // An earlier attempt already reached the server (e.g. timed out after saving it)
+        const existing = getAlreadySubmittedRef(error);
+        if (existing) {
+          await markOutboxSynced(id, existing.refNo);
+          updateReportInState(id, {
+            syncStatus: 'synced',
+            serverReferenceNumber: existing.refNo,
+            syncError: undefined,
+          });
+          console.log(`[MobileReportStore] Report ${id} already on server, marked synced`, existing.refNo ?? '');
+          return true;
+        }
       
-    } catch (error: any) {
-      // Update status to failed
-      const failedReports = [...get().cachedReports];
-      const currentIndex = failedReports.findIndex(r => r.id === id);
-      if (currentIndex !== -1) {
-        failedReports[currentIndex] = {
-          ...failedReports[currentIndex],
-          syncStatus: 'failed',
-          syncError: error?.message || 'Unknown error',
+        const { kind, retryable, message } = classifySyncError(error);
+        const attemptCount = (report.attemptCount ?? 0) + 1;
+        const budgetLeft = attemptCount < MAX_SYNC_ATTEMPTS;
+      
+        // Retryable -> 'failed' with a backoff; refused payload -> terminal 'rejected'
+        const failure = {
+          syncStatus: retryable ? 'failed' as const : 'rejected' as const,
+          syncError: message,
+          errorKind: kind,
+          attemptCount,
+          nextRetryAt: retryable && budgetLeft
+            ? new Date(Date.now() + getRetryDelayMs(attemptCount)).toISOString()
+            : null,
         };
-        await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(failedReports));
-        set({ cachedReports: failedReports });
-      }
+        await markOutboxFailed(id, failure);
+        updateReportInState(id, { ...failure, nextRetryAt: failure.nextRetryAt ?? undefined });
       
-      console.error(`[MobileReportStore] Report ${id} sync failed:`, error?.message);
-      return false;
-    }
-  },
+        console.error(
+          `[MobileReportStore] Report ${id} sync failed (${kind}, attempt ${attemptCount}):`,
+          message,
+          failure.nextRetryAt ? `next retry ${failure.nextRetryAt}` : 'no automatic retry',
+        );
+        return false;
+      }
+    },
   
-  // Sync all pending reports
-  syncAllPending: async (): Promise<{ success: number; failed: number }> => {
-    const { cachedReports, syncReport } = get();
-    const pendingReports = cachedReports.filter(r => r.syncStatus === 'pending' || r.syncStatus === 'failed');
+    // Sync all pending reports
+    // (failed reports wait for their backoff unless forced; rejected ones are never included)
+    syncAllPending: async (options?: { force?: boolean }): Promise<{ success: number; failed: number }> => {
+      const { cachedReports, syncReport } = get();
+      const now = Date.now();
+      const pendingReports = cachedReports.filter(r =>
+        options?.force
+          ? r.syncStatus === 'pending' || r.syncStatus === 'failed'
+          : isDueForSync(r, now)
+      );
     
-    if (pendingReports.length === 0) {
-      console.log('[MobileReportStore] No pending reports to sync');
-      return { success: 0, failed: 0 };
-    }
+      if (pendingReports.length === 0) {
+        console.log('[MobileReportStore] No pending reports to sync');
+        return { success: 0, failed: 0 };
+      }
     
-    set({ isSyncing: true });
+      set({ isSyncing: true });
     
-    let success = 0;
-    let failed = 0;
+      let success = 0;
+      let failed = 0;
     
-    for (const report of pendingReports) {
-      const result = await syncReport(report.id);
-      if (result) {
-        success++;
-      } else {
-        failed++;
+      try {
+        for (const report of pendingReports) {
+          const result = await syncReport(report.id);
+          if (result) {
+            success++;
+          } else {
+            failed++;
+          }
+        }
+      } finally {
+        // A throw (e.g. the outbox closing on an environment switch) must not leave sync stuck on
+        set({ isSyncing: false });
       }
-    }
-    
-    set({ isSyncing: false });
     
-    console.log(`[MobileReportStore] Sync complete: ${success} success, ${failed} failed`);
-    return { success, failed };
-  },
+      console.log(`[MobileReportStore] Sync complete: ${success} success, ${failed} failed`);
+      return { success, failed };
+    },
   
-  // Getters
-  getPendingCount: () => {
-    return get().cachedReports.filter(r => r.syncStatus === 'pending').length;
-  },
+    // Manual override: send now regardless of backoff, budget or rejection
+    retryNow: async (id: string): Promise<boolean> => {
+      return get().syncReport(id, { force: true });
+    },
+  
+    // Getters
+    getPendingCount: () => {
+      return get().cachedReports.filter(r => r.syncStatus === 'pending').length;
+    },
+  
+    getSyncedCount: () => {
+      return get().cachedReports.filter(r => r.syncStatus === 'synced').length;
+    },
   
-  getSyncedCount: () => {
-    return get().cachedReports.filter(r => r.syncStatus === 'synced').length;
-  },
+    getFailedCount: () => {
+      return get().cachedReports.filter(r => r.syncStatus === 'failed').length;
+    },
   
-  getFailedCount: () => {
-    return get().cachedReports.filter(r => r.syncStatus === 'failed').length;
-  },
-}));
+    getRejectedCount: () => {
+      return get().cachedReports.filter(r => r.syncStatus === 'rejected').length;
+    },
+  };
+});
@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useEnvironmentStore } from '@/utils/environment';
+
+/** How the mock backend (the `mock` environment) should misbehave */
+export type MockFailure =
+  | 'none'
+  | 'offline'      // every request fails as if there were no connection
+  | 'serverError'  // every request but login/refresh answers 500
+  | 'validation';  // report submissions answer 400 with field errors
+
+export interface MockServerSettings {
+  /** Delay before each response; beyond the request timeout it times out */
+  latencyMs: number;
+  failure: MockFailure;
+}
+
+const MOCK_SERVER_KEY = '@mock_server_settings';
+
+const DEFAULT_MOCK_SERVER: MockServerSettings = { latencyMs: 400, failure: 'none' };
+
+interface MockServerState {
+  settings: MockServerSettings;
+  isLoaded: boolean;
+
+  setMockServer: (value: Partial<MockServerSettings>) => Promise<void>;
+  loadMockServer: () => Promise<MockServerSettings>;
+}
+
+export const useMockServerStore = create<MockServerState>((set, get) => ({
+  settings: DEFAULT_MOCK_SERVER,
+  isLoaded: false,
+
+  setMockServer: async (value) => {
+    const settings = { ...get().settings, ...value };
+    set({ settings, isLoaded: true });
+    try {
+      await AsyncStorage.setItem(MOCK_SERVER_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.log('Error saving mock server settings:', error);
+    }
+  },
+
+  loadMockServer: async () => {
+    if (get().isLoaded) return get().settings;
+    try {
+      const saved = await AsyncStorage.getItem(MOCK_SERVER_KEY);
+      if (saved !== null) {
+        set({ settings: { ...DEFAULT_MOCK_SERVER, ...JSON.parse(saved) } });
+      }
+    } catch (error) {
+      console.log('Error loading mock server settings:', error);
+    }
+    set({ isLoaded: true });
+    return get().settings;
+  },
+}));
+
+/**
+ * Connectivity as the mock backend sees it: false while simulating offline,
+ * null when the mock isn't in use (check the real network instead).
+ */
+export function mockConnectivity(): boolean | null {
+  if (useEnvironmentStore.getState().environment.id !== 'mock') return null;
+  return useMockServerStore.getState().settings.failure !== 'offline';
+}
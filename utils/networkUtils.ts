@@ -1,10 +1,15 @@
 import * as Network from 'expo-network';
 import { Alert } from 'react-native';
+import { SyncErrorKind } from '@/services/mobileReport';
+import { mockConnectivity } from '@/utils/mockServerStore';
 
 /**
  * Check if device has internet connection
  */
 export async function checkNetworkConnection(): Promise<boolean> {
+  const mockOnline = mockConnectivity();
+  if (mockOnline !== null) return mockOnline;
+
   try {
     const networkState = await Network.getNetworkStateAsync();
     const isConnected = !!(networkState.isConnected && networkState.isInternetReachable);
@@ -34,22 +39,28 @@ export function showNetworkErrorAlert(customMessage?: string) {
 }
 
 /**
- * Test API server connectivity
+ * Test API server connectivity. Any answer below 500 counts: the base URL
+ * itself usually has no route, but a server is there.
  */
 export async function testApiConnection(baseUrl: string): Promise<boolean> {
+  // fetch has no timeout of its own
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 5000);
   try {
     console.log('[NetworkUtils] Testing connection to:', baseUrl);
     const response = await fetch(baseUrl, {
       method: 'HEAD',
-      timeout: 5000,
-    } as any);
+      signal: controller.signal,
+    });
     
-    const isReachable = response.ok || response.status === 404; // 404 is fine, means server is reachable
+    const isReachable = response.status < 500;
     console.log('[NetworkUtils] API reachable:', isReachable, 'Status:', response.status);
     return isReachable;
   } catch (error) {
     console.error('[NetworkUtils] API not reachable:', error);
     return false;
+  } finally {
+    clearTimeout(timer);
   }
 }
 
@@ -83,3 +94,51 @@ export function getNetworkErrorMessage(error: any): string {
   
   return error.message || 'An unexpected error occurred. Please try again.';
 }
+
+/**
+ * Pull the most useful message out of an API error response.
+ * Handles `{ message }` bodies and ASP.NET validation bodies (`{ title, errors: { Field: [msg] } }`).
+ */
+export function getServerErrorMessage(error: any): string | null {
+  const data = error?.response?.data;
+  if (!data) return null;
+  if (typeof data === 'string') return data;
+
+  if (data.errors && typeof data.errors === 'object') {
+    const messages = Object.values(data.errors).flat().filter(Boolean) as string[];
+    if (messages.length > 0) return messages.join(' ');
+  }
+
+  return data.message || data.title || null;
+}
+
+/**
+ * Classify a report sync error so the outbox knows whether to retry it.
+ * Network, timeout, 401 and 5xx errors are transient; other 4xx responses
+ * (403 included: this account may not submit) mean resending will not help.
+ */
+export function classifySyncError(error: any): { kind: SyncErrorKind; retryable: boolean; message: string } {
+  const status: number | undefined = error?.response?.status;
+
+  if (!error?.response) {
+    const isTimeout = error?.code === 'ECONNABORTED' || /timeout/i.test(error?.message ?? '');
+    return {
+      kind: isTimeout ? 'timeout' : 'network',
+      retryable: true,
+      message: getNetworkErrorMessage(error ?? {}),
+    };
+  }
+
+  const serverMessage = getServerErrorMessage(error);
+
+  if (status === 401) {
+    return { kind: 'auth', retryable: true, message: serverMessage || 'Session expired. Please log in again.' };
+  }
+
+  // 408 Request Timeout and 429 Too Many Requests are worth retrying later
+  if (status === 408 || status === 429 || (status !== undefined && status >= 500)) {
+    return { kind: 'server', retryable: true, message: serverMessage || `Server error (${status}). Please try again later.` };
+  }
+
+  return { kind: 'validation', retryable: false, message: serverMessage || `Report rejected by server (${status}).` };
+}
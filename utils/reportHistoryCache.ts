@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LeakReport, LeakReportCounts } from '@/services/leakReportsService';
+import { encryptField, initializeEncryption, tryDecryptField } from '@/services/customerInterceptor';
+import { scopedKey } from '@/utils/environment';
+
+/**
+ * Last report list fetched from the server, kept so the dashboard, report
+ * history and report details can be browsed offline.
+ */
+
+const HISTORY_KEY = '@leak_report_history';
+
+// Reporter details, stored encrypted like customer names and addresses
+const ENCRYPTED_REPORT_FIELDS = ['reporterName', 'reportedNumber', 'reportedLocation'] as const;
+
+export type ReportHistory = {
+  empId: string;
+  savedAt: string;
+  counts: LeakReportCounts;
+  reports: LeakReport[];
+};
+
+export async function saveReportHistory(empId: string, counts: LeakReportCounts, reports: LeakReport[]): Promise<void> {
+  await initializeEncryption();
+  const history: ReportHistory = {
+    empId,
+    savedAt: new Date().toISOString(),
+    counts,
+    reports: reports.map(report => {
+      const stored = { ...report };
+      for (const field of ENCRYPTED_REPORT_FIELDS) {
+        if (typeof stored[field] === 'string') stored[field] = encryptField(stored[field]);
+      }
+      return stored;
+    }),
+  };
+  await AsyncStorage.setItem(await scopedKey(HISTORY_KEY), JSON.stringify(history));
+}
+
+/** The cached list for `empId`, or null if there is none (or it belongs to another user) */
+export async function loadReportHistory(empId: string): Promise<ReportHistory | null> {
+  const stored = await AsyncStorage.getItem(await scopedKey(HISTORY_KEY));
+  if (!stored) return null;
+
+  const history: ReportHistory = JSON.parse(stored);
+  if (history.empId !== empId) return null;
+
+  await initializeEncryption();
+  const reports: LeakReport[] = [];
+  for (const report of history.reports) {
+    const plain = { ...report };
+    for (const field of ENCRYPTED_REPORT_FIELDS) {
+      const value = tryDecryptField(plain[field]);
+      // Saved under a lost data key: drop the copy rather than show blank reporters
+      if (value === null) {
+        console.warn('[ReportHistory] Cached history could not be decrypted, discarding it');
+        await clearReportHistory();
+        return null;
+      }
+      plain[field] = value;
+    }
+    reports.push(plain);
+  }
+  history.reports = reports;
+  return history;
+}
+
+export async function clearReportHistory(): Promise<void> {
+  await AsyncStorage.removeItem(await scopedKey(HISTORY_KEY));
+}
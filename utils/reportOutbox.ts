@@ -0,0 +1,313 @@
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CachedLeakReport, LeakReportPayload, SyncErrorKind, generateReportUuid } from '@/services/mobileReport';
+import { getStorageScope } from '@/utils/environment';
+
+/**
+ * SQLite-backed outbox for leak reports waiting to be sent.
+ *
+ * Lives in its own database file (not customerdata.db) because clearing the
+ * customer data deletes that whole file, and queued reports must survive it.
+ * Each environment has its own file, so reports only go to the server they were queued for.
+ */
+
+const DB_NAME = 'reportoutbox';
+
+// Legacy AsyncStorage key used before the outbox moved to SQLite
+const LEGACY_CACHE_KEY = 'leak_reports_cache';
+
+export type SyncStatus = CachedLeakReport['syncStatus'];
+
+type OutboxRow = {
+  id: string;
+  clientReportId: string;
+  createdAt: string;
+  syncStatus: SyncStatus;
+  syncError: string | null;
+  serverReferenceNumber: string | null;
+  attemptCount: number;
+  nextRetryAt: string | null;
+  errorKind: SyncErrorKind | null;
+  payload: string;
+};
+
+// Bump when adding a migration to `migrateSchema`
+const SCHEMA_VERSION = 2;
+
+// Singleton database instance and initialization promise
+let dbInstance: SQLite.SQLiteDatabase | null = null;
+let initPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+async function initDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const scope = await getStorageScope();
+  console.log('[ReportOutbox] Opening database...', scope || '(unsuffixed)');
+  const db = await SQLite.openDatabaseAsync(scope ? `${DB_NAME}_${scope}.db` : `${DB_NAME}.db`);
+
+  await db.execAsync(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS report_outbox (
+      id TEXT PRIMARY KEY NOT NULL,
+      createdAt TEXT NOT NULL,
+      syncStatus TEXT NOT NULL,
+      syncError TEXT,
+      serverReferenceNumber TEXT,
+      payload TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_outbox_status ON report_outbox(syncStatus);
+  `);
+
+  await migrateSchema(db);
+  // Reports queued in AsyncStorage predate environments, so they go with the unsuffixed storage
+  if (!scope) await migrateLegacyCache(db);
+
+  // A report left in 'syncing' means the app died mid-request; queue it again
+  await db.runAsync(`UPDATE report_outbox SET syncStatus = 'pending' WHERE syncStatus = 'syncing'`);
+
+  console.log('[ReportOutbox] Database initialized');
+  dbInstance = db;
+  return db;
+}
+
+// Get or initialize the database - ensures only one initialization happens
+function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (dbInstance) {
+    return Promise.resolve(dbInstance);
+  }
+
+  if (initPromise) {
+    return initPromise;
+  }
+
+  initPromise = initDatabase();
+
+  // Handle errors to allow retry on next call
+  initPromise.catch(error => {
+    console.error('[ReportOutbox] Initialization failed:', error?.message);
+    initPromise = null;
+    dbInstance = null;
+  });
+
+  return initPromise;
+}
+
+/**
+ * Close the outbox so the next access opens the active environment's file.
+ * Called when switching environments.
+ */
+export async function closeReportOutbox(): Promise<void> {
+  const db = dbInstance ?? (initPromise ? await initPromise.catch(() => null) : null);
+  dbInstance = null;
+  initPromise = null;
+  if (db) {
+    await db.closeAsync();
+    console.log('[ReportOutbox] Database closed');
+  }
+}
+
+/** Apply column additions tracked by PRAGMA user_version */
+async function migrateSchema(db: SQLite.SQLiteDatabase): Promise<void> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const version = row?.user_version ?? 0;
+  if (version >= SCHEMA_VERSION) return;
+
+  console.log(`[ReportOutbox] Migrating schema v${version} -> v${SCHEMA_VERSION}`);
+  await db.withTransactionAsync(async () => {
+    if (version < 1) {
+      // Retry bookkeeping for backoff
+      await db.execAsync(`
+        ALTER TABLE report_outbox ADD COLUMN attemptCount INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE report_outbox ADD COLUMN nextRetryAt TEXT;
+        ALTER TABLE report_outbox ADD COLUMN errorKind TEXT;
+      `);
+    }
+    if (version < 2) {
+      // Stable submission id; existing rows get one now so their retries dedupe too
+      await db.execAsync(`ALTER TABLE report_outbox ADD COLUMN clientReportId TEXT`);
+      const rows = await db.getAllAsync<{ id: string }>('SELECT id FROM report_outbox');
+      for (const row of rows) {
+        await db.runAsync('UPDATE report_outbox SET clientReportId = ? WHERE id = ?', [generateReportUuid(), row.id]);
+      }
+      await db.execAsync(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_outbox_client_id ON report_outbox(clientReportId)`
+      );
+    }
+    await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+  });
+}
+
+/**
+ * One-time move of reports queued in AsyncStorage into the outbox table.
+ * The legacy key is only removed after the inserts have committed.
+ */
+async function migrateLegacyCache(db: SQLite.SQLiteDatabase): Promise<void> {
+  let legacy: string | null = null;
+  try {
+    legacy = await AsyncStorage.getItem(LEGACY_CACHE_KEY);
+  } catch (error) {
+    console.warn('[ReportOutbox] Could not read legacy cache:', error);
+    return;
+  }
+  if (!legacy) return;
+
+  let reports: CachedLeakReport[] = [];
+  try {
+    reports = JSON.parse(legacy);
+  } catch (error) {
+    console.error('[ReportOutbox] Legacy cache is not valid JSON, leaving it in place:', error);
+    return;
+  }
+
+  await db.withTransactionAsync(async () => {
+    for (const report of reports) {
+      await insertRow(db, {
+        ...report,
+        // Anything mid-sync when the old cache was written never finished
+        syncStatus: report.syncStatus === 'syncing' ? 'pending' : report.syncStatus,
+      }, true);
+    }
+  });
+
+  await AsyncStorage.removeItem(LEGACY_CACHE_KEY);
+  console.log(`[ReportOutbox] Migrated ${reports.length} reports from AsyncStorage`);
+}
+
+/** Split a cached report into its indexed columns and the JSON payload */
+function toRow(report: CachedLeakReport): OutboxRow {
+  const {
+    id, clientReportId, createdAt, syncStatus, syncError, serverReferenceNumber,
+    attemptCount, nextRetryAt, errorKind,
+    ...payload
+  } = report;
+  return {
+    id,
+    // Reports from the legacy AsyncStorage cache predate the client id
+    clientReportId: clientReportId ?? generateReportUuid(),
+    createdAt,
+    syncStatus,
+    syncError: syncError ?? null,
+    serverReferenceNumber: serverReferenceNumber ?? null,
+    attemptCount: attemptCount ?? 0,
+    nextRetryAt: nextRetryAt ?? null,
+    errorKind: errorKind ?? null,
+    payload: JSON.stringify(payload),
+  };
+}
+
+function fromRow(row: OutboxRow): CachedLeakReport {
+  const payload: LeakReportPayload = JSON.parse(row.payload);
+  return {
+    ...payload,
+    id: row.id,
+    clientReportId: row.clientReportId,
+    createdAt: row.createdAt,
+    syncStatus: row.syncStatus,
+    syncError: row.syncError ?? undefined,
+    serverReferenceNumber: row.serverReferenceNumber ?? undefined,
+    attemptCount: row.attemptCount,
+    nextRetryAt: row.nextRetryAt ?? undefined,
+    errorKind: row.errorKind ?? undefined,
+  };
+}
+
+async function insertRow(db: SQLite.SQLiteDatabase, report: CachedLeakReport, ignoreExisting = false): Promise<void> {
+  const row = toRow(report);
+  await db.runAsync(
+    `INSERT ${ignoreExisting ? 'OR IGNORE ' : ''}INTO report_outbox
+       (id, clientReportId, createdAt, syncStatus, syncError, serverReferenceNumber, attemptCount, nextRetryAt, errorKind, payload)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      row.id, row.clientReportId, row.createdAt, row.syncStatus, row.syncError, row.serverReferenceNumber,
+      row.attemptCount, row.nextRetryAt, row.errorKind, row.payload,
+    ]
+  );
+}
+
+/** Open the outbox (runs the legacy migration on first use) */
+export async function initializeOutbox(): Promise<void> {
+  await getDatabase();
+}
+
+/** Load every report in the outbox, oldest first */
+export async function loadOutboxReports(): Promise<CachedLeakReport[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<OutboxRow>('SELECT * FROM report_outbox ORDER BY createdAt ASC');
+  return rows.map(fromRow);
+}
+
+/** Load a single report by id */
+export async function getOutboxReport(id: string): Promise<CachedLeakReport | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<OutboxRow>('SELECT * FROM report_outbox WHERE id = ?', [id]);
+  return row ? fromRow(row) : null;
+}
+
+/** Add a new report to the outbox */
+export async function insertOutboxReport(report: CachedLeakReport): Promise<void> {
+  const db = await getDatabase();
+  await insertRow(db, report);
+}
+
+/**
+ * Atomically move a report into 'syncing'.
+ * Returns false if the report is missing or not in a claimable state, so two
+ * sync passes can never send the same report at the same time.
+ * `includeRejected` lets a manual retry resend a report the server refused.
+ */
+export async function claimOutboxReport(id: string, includeRejected = false): Promise<boolean> {
+  const db = await getDatabase();
+  const statuses = includeRejected ? `('pending', 'failed', 'rejected')` : `('pending', 'failed')`;
+  const result = await db.runAsync(
+    `UPDATE report_outbox SET syncStatus = 'syncing'
+     WHERE id = ? AND syncStatus IN ${statuses}`,
+    [id]
+  );
+  return result.changes > 0;
+}
+
+/** Mark a report as accepted by the server */
+export async function markOutboxSynced(id: string, serverReferenceNumber?: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    `UPDATE report_outbox
+     SET syncStatus = 'synced', syncError = NULL, errorKind = NULL, nextRetryAt = NULL,
+         serverReferenceNumber = ?, attemptCount = attemptCount + 1
+     WHERE id = ?`,
+    [serverReferenceNumber ?? null, id]
+  );
+}
+
+/**
+ * Record a failed attempt. Retryable failures go to 'failed' with a next-retry
+ * time; non-retryable ones go to the terminal 'rejected' state.
+ */
+export async function markOutboxFailed(
+  id: string,
+  failure: {
+    syncStatus: 'failed' | 'rejected';
+    syncError: string;
+    errorKind: SyncErrorKind;
+    attemptCount: number;
+    nextRetryAt: string | null;
+  },
+): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    `UPDATE report_outbox
+     SET syncStatus = ?, syncError = ?, errorKind = ?, attemptCount = ?, nextRetryAt = ?
+     WHERE id = ?`,
+    [failure.syncStatus, failure.syncError, failure.errorKind, failure.attemptCount, failure.nextRetryAt, id]
+  );
+}
+
+/** Remove a report from the outbox */
+export async function deleteOutboxReport(id: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync('DELETE FROM report_outbox WHERE id = ?', [id]);
+}
+
+/** Remove every report the server has already accepted */
+export async function deleteSyncedOutboxReports(): Promise<number> {
+  const db = await getDatabase();
+  const result = await db.runAsync(`DELETE FROM report_outbox WHERE syncStatus = 'synced'`);
+  return result.changes;
+}
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
-import { Meter, getNearestMetersFromCustomers } from '@/hooks/nearestMeter';
-import { loadCustomerData, searchCustomers } from '@/utils/allCustomerData';
+import { Meter, nearbyCustomersToMeters, searchResultsToMeters } from '@/hooks/nearestMeter';
+import { getCustomerCount, queryNearestCustomers, searchCustomers } from '@/utils/allCustomerData';
 import { getCurrentLocation } from '@/hooks/getLocation';
 
 export type LatLng = { lat: number; lng: number };
@@ -16,6 +16,12 @@ interface ReportsState {
   meters: Meter[];
   selectedId: string | null;
   customerCount: number;
+  searchResults: Meter[];  // Candidates from the last search, best match first
+
+  // "Report at location" mode: a dropped pin and the closest meter to it, if any
+  pin: LatLng | null;
+  pinReference: Meter | null;
+  isFindingPinReference: boolean;
   
   // Loading states
   isLoading: boolean;
@@ -33,7 +39,11 @@ interface ReportsState {
   refreshLocation: () => Promise<boolean>;
   findNearestMeters: () => Promise<void>;
   recheckCustomerData: () => Promise<void>; // Add function to recheck data
-  searchMeter: (query: string) => Promise<{ found: boolean; message: string }>; // Search by meter/account number
+  searchMeter: (query: string) => Promise<{ found: boolean; message: string }>; // Search by meter/account/address/name
+  selectSearchResult: (meter: Meter) => void;
+  clearSearchResults: () => void;
+  dropPin: (position: LatLng) => Promise<void>;
+  clearPin: () => void;
   
   // Computed
   getSelectedMeter: () => Meter | null;
@@ -41,6 +51,13 @@ interface ReportsState {
 
 const DEFAULT_CENTER: LatLng = { lat: 7.0731, lng: 125.613 };
 
+// Nearest-meter lookup: how many to show and how far to look
+const NEAREST_METER_COUNT = 3;
+const NEAREST_METER_RADIUS_M = 5000;
+const SEARCH_RESULT_LIMIT = 20;
+// A meter further than this from a dropped pin isn't offered as its reference
+const PIN_REFERENCE_RADIUS_M = 300;
+
 export const useReportsStore = create<ReportsState>((set, get) => ({
   // Initial state
   center: DEFAULT_CENTER,
@@ -48,6 +65,10 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
   meters: [],
   selectedId: null,
   customerCount: 0,
+  searchResults: [],
+  pin: null,
+  pinReference: null,
+  isFindingPinReference: false,
   isLoading: true,
   isFindingMeters: false,
   dataStatus: 'loading',
@@ -66,8 +87,7 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
     
     try {
       // Only check if customer data exists (fast metadata check, no full load)
-      const data = await loadCustomerData();
-      const customerCount = data.length;
+      const customerCount = await getCustomerCount();
       const dataStatus: DataStatus = customerCount > 0 ? 'loaded' : 'empty';
       
       // Get current location
@@ -117,26 +137,24 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
     await new Promise(resolve => setTimeout(resolve, 50));
     
     try {
-      const data = await loadCustomerData();
-      set({ customerCount: data.length });
+      const customerCount = await getCustomerCount();
+      set({ customerCount });
       
-      if (data.length === 0) {
+      if (customerCount === 0) {
         set({ dataStatus: 'empty', isFindingMeters: false });
         return;
       }
       
       set({ dataStatus: 'loaded' });
       
-      // Process the computation in the next frame to keep UI responsive
-      await new Promise<void>((resolve) => {
-        requestAnimationFrame(() => {
-          setTimeout(() => {
-            const nearestMeters = getNearestMetersFromCustomers(userLocation, data, 3);
-            set({ meters: nearestMeters });
-            resolve();
-          }, 0);
-        });
-      });
+      // Spatial index query - only rows in nearby grid cells are read
+      const nearby = await queryNearestCustomers(
+        userLocation.lat,
+        userLocation.lng,
+        NEAREST_METER_COUNT,
+        NEAREST_METER_RADIUS_M
+      );
+      set({ meters: nearbyCustomersToMeters(nearby) });
     } catch (error) {
       console.error('Error finding nearest meters:', error);
       set({ dataStatus: 'empty' });
@@ -149,8 +167,7 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
   recheckCustomerData: async () => {
     set({ isLoading: true });
     try {
-      const data = await loadCustomerData();
-      const customerCount = data.length;
+      const customerCount = await getCustomerCount();
       const dataStatus: DataStatus = customerCount > 0 ? 'loaded' : 'empty';
       
       console.log('[ReportsStore] Rechecked customer data:', { customerCount, dataStatus });
@@ -173,53 +190,73 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
     return meters.find(m => m.id === selectedId) || null;
   },
 
-  // Search for a meter by meter number or account number and select it
+  // Full-text search; a single hit is selected, several are offered in `searchResults`
   searchMeter: async (query: string) => {
     const trimmed = query.trim();
     if (!trimmed) {
-      return { found: false, message: 'Please enter a meter or account number.' };
+      return { found: false, message: 'Please enter a meter number, account number, address or name.' };
     }
 
     try {
-      const results = await searchCustomers(trimmed, 1);
+      const results = await searchCustomers(trimmed, SEARCH_RESULT_LIMIT);
       if (results.length === 0) {
+        set({ searchResults: [] });
         return { found: false, message: `No meter found for "${trimmed}".` };
       }
 
-      const c = results[0];
-
-      // Build a Meter object from the customer record
-      const meter: Meter = {
-        rank: 1,
-        id: c.meterNumber,
-        title: c.name ?? c.address,
-        distance: '',
-        color: '#1f3a8a',
-        account: c.accountNumber,
-        address: c.address,
-        dma: c.dma,
-        wss: c.wssCode ?? 0,
-        lat: c.latitude,
-        lng: c.longitude,
-      };
-
-      // Add to meters list if not already present, then select it
-      const { meters } = get();
-      const exists = meters.some(m => m.id === meter.id);
-      if (!exists) {
-        set({ meters: [meter, ...meters] });
+      const candidates = searchResultsToMeters(results, get().userLocation);
+      if (candidates.length === 1) {
+        get().selectSearchResult(candidates[0]);
+      } else {
+        set({ searchResults: candidates });
       }
 
-      // Center map and select
-      set({
-        selectedId: meter.id,
-        center: { lat: meter.lat, lng: meter.lng },
-      });
-
       return { found: true, message: '' };
     } catch (error) {
       console.error('[ReportsStore] searchMeter error:', error);
       return { found: false, message: 'An error occurred while searching.' };
     }
   },
+
+  // Select a meter picked from the search results
+  selectSearchResult: (meter: Meter) => {
+    // Add to meters list if not already present, then select it
+    const { meters } = get();
+    const exists = meters.some(m => m.id === meter.id);
+    if (!exists) {
+      set({ meters: [{ ...meter, rank: 1 }, ...meters] });
+    }
+
+    // Center map and select
+    set({
+      searchResults: [],
+      selectedId: meter.id,
+      center: { lat: meter.lat, lng: meter.lng },
+    });
+  },
+
+  clearSearchResults: () => set({ searchResults: [] }),
+
+  // Drop (or move) the report pin and look up the closest meter as an optional reference
+  dropPin: async (position: LatLng) => {
+    set({ pin: position, selectedId: null, isFindingPinReference: true });
+
+    let reference: Meter | null = null;
+    try {
+      if ((await getCustomerCount()) > 0) {
+        const nearby = await queryNearestCustomers(position.lat, position.lng, 1, PIN_REFERENCE_RADIUS_M);
+        reference = nearbyCustomersToMeters(nearby)[0] ?? null;
+      }
+    } catch (error) {
+      console.error('[ReportsStore] Pin reference lookup error:', error);
+    }
+
+    // The pin may have been moved or cleared while the lookup ran
+    const { pin } = get();
+    if (pin?.lat === position.lat && pin?.lng === position.lng) {
+      set({ pinReference: reference, isFindingPinReference: false });
+    }
+  },
+
+  clearPin: () => set({ pin: null, pinReference: null, isFindingPinReference: false }),
 }));
@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { fetchAndSaveCustomerData } from '@/hooks/downloadCustomerData';
-import { hasCustomerData, getCustomerCount, clearCustomerData } from '@/utils/allCustomerData';
+import { fetchAndSaveCustomerData, syncCustomerDataChanges, getPendingCustomerImport } from '@/hooks/downloadCustomerData';
+import { hasCustomerData, getCustomerCount, clearCustomerData, getLastCustomerSync } from '@/utils/allCustomerData';
 import { 
   requestNotificationPermissions, 
   showDownloadNotification, 
@@ -12,6 +12,15 @@ import {
 } from '@/services/notificationService';
 
 const OFFLINE_MAP_KEY = '@offline_map_enabled';
+const DUPLICATE_CHECK_KEY = '@duplicate_check_settings';
+
+/** How close and how recent an existing report must be for a new one to be flagged as a possible duplicate */
+export interface DuplicateCheckSettings {
+  radiusMeters: number;
+  windowHours: number;
+}
+
+const DEFAULT_DUPLICATE_CHECK: DuplicateCheckSettings = { radiusMeters: 50, windowHours: 72 };
 
 type CustomerDataStatus = 'checking' | 'not_downloaded' | 'downloaded';
 
@@ -23,29 +32,40 @@ interface DownloadProgress {
 interface SettingsState {
   // Offline maps state
   onlineMaps: boolean;
+  duplicateCheck: DuplicateCheckSettings;
   
   // Customer data state
   customerDataStatus: CustomerDataStatus;
   customerCount: number;
+  lastCustomerSync: string | null;  // ISO time of the last complete download/update
+  pendingImport: DownloadProgress | null;  // Interrupted full download that will resume
   downloading: boolean;
+  updatingCustomers: boolean;
   downloadProgress: DownloadProgress;
   
   // Actions
   setOnlineMaps: (value: boolean) => Promise<void>;
   loadOfflineMapPreference: () => Promise<void>;
+  setDuplicateCheck: (value: Partial<DuplicateCheckSettings>) => Promise<void>;
+  loadDuplicateCheckPreference: () => Promise<void>;
   
   // Async actions
   checkCustomerData: () => Promise<void>;
   downloadCustomerData: () => Promise<{ success: boolean; message: string }>;
+  updateCustomerData: () => Promise<{ success: boolean; message: string }>;
   clearCustomerDataAction: () => Promise<void>;
 }
 
 export const useSettingsStore = create<SettingsState>((set, get) => ({
   // Initial state
   onlineMaps: true,
+  duplicateCheck: DEFAULT_DUPLICATE_CHECK,
   customerDataStatus: 'checking',
   customerCount: 0,
+  lastCustomerSync: null,
+  pendingImport: null,
   downloading: false,
+  updatingCustomers: false,
   downloadProgress: { current: 0, total: 0 },
   
   // Simple setters
@@ -70,18 +90,44 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       console.log('Error loading offline map preference:', error);
     }
   },
+
+  setDuplicateCheck: async (value) => {
+    const duplicateCheck = { ...get().duplicateCheck, ...value };
+    set({ duplicateCheck });
+    try {
+      await AsyncStorage.setItem(DUPLICATE_CHECK_KEY, JSON.stringify(duplicateCheck));
+    } catch (error) {
+      console.log('Error saving duplicate check settings:', error);
+    }
+  },
+
+  loadDuplicateCheckPreference: async () => {
+    try {
+      const saved = await AsyncStorage.getItem(DUPLICATE_CHECK_KEY);
+      if (saved !== null) {
+        set({ duplicateCheck: { ...DEFAULT_DUPLICATE_CHECK, ...JSON.parse(saved) } });
+      }
+    } catch (error) {
+      console.log('Error loading duplicate check settings:', error);
+    }
+  },
   
   // Check if customer data exists
   checkCustomerData: async () => {
     set({ customerDataStatus: 'checking' });
     try {
+      const pending = await getPendingCustomerImport();
+      set({ pendingImport: pending ? { current: pending.received, total: pending.total } : null });
+      
       const exists = await hasCustomerData();
       if (exists) {
         // Use getCustomerCount to avoid loading all data into memory
         const count = await getCustomerCount();
+        const lastCustomerSync = await getLastCustomerSync();
         
         set({ 
           customerCount: count,
+          lastCustomerSync,
           customerDataStatus: 'downloaded',
         });
       } else {
@@ -98,7 +144,7 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     const state = get();
     
     // Prevent multiple simultaneous downloads
-    if (state.downloading) {
+    if (state.downloading || state.updatingCustomers) {
       console.log('[SettingsStore] Download already in progress, ignoring request');
       return { 
         success: false, 
@@ -143,9 +189,13 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
         }
       });
       
+      const pending = await getPendingCustomerImport();
+      set({ pendingImport: pending ? { current: pending.received, total: pending.total } : null });
+      
       if (result.success) {
         set({ 
           customerCount: result.count,
+          lastCustomerSync: await getLastCustomerSync(),
           customerDataStatus: 'downloaded',
         });
         
@@ -201,12 +251,65 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     }
   },
   
+  // Fetch only customers changed since the last download/update
+  updateCustomerData: async () => {
+    const state = get();
+    
+    if (state.downloading || state.updatingCustomers) {
+      console.log('[SettingsStore] Customer data operation in progress, ignoring update request');
+      return { 
+        success: false, 
+        message: 'Download already in progress. Please wait.',
+      };
+    }
+    
+    set({ 
+      updatingCustomers: true,
+      downloadProgress: { current: 0, total: 0 },
+    });
+    
+    try {
+      const result = await syncCustomerDataChanges((current, total) => {
+        set({ downloadProgress: { current, total } });
+      });
+      
+      if (!result.success) {
+        return { 
+          success: false, 
+          message: result.error ?? 'Failed to update customer data.',
+        };
+      }
+      
+      set({ 
+        customerCount: await getCustomerCount(),
+        lastCustomerSync: await getLastCustomerSync(),
+      });
+      
+      if (result.count === 0 && !result.removed) {
+        return { success: true, message: 'Customer data is already up to date.' };
+      }
+      return { 
+        success: true, 
+        message: `Updated ${result.count.toLocaleString()} customer records` +
+          (result.removed ? ` and removed ${result.removed.toLocaleString()} closed accounts.` : '.'),
+      };
+    } catch (error) {
+      console.error('Error updating customer data:', error);
+      return { 
+        success: false, 
+        message: 'An unexpected error occurred while updating.',
+      };
+    } finally {
+      set({ updatingCustomers: false });
+    }
+  },
+  
   // Clear customer data
   clearCustomerDataAction: async () => {
     const state = get();
     
     // Don't allow clearing while downloading
-    if (state.downloading) {
+    if (state.downloading || state.updatingCustomers) {
       throw new Error('Cannot clear while download is in progress. Please wait for the download to finish.');
     }
     
@@ -222,6 +325,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       set({ 
         customerDataStatus: 'not_downloaded',
         customerCount: 0,
+        lastCustomerSync: null,
+        pendingImport: null,
       });
     } catch (error: any) {
       console.error('[SettingsStore] ✗ Error clearing customer data:', error?.message || error);
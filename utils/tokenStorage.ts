@@ -1,15 +1,57 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { scopedKey } from "./environment";
 
 const TOKEN_KEY = "access_token";
+const REFRESH_TOKEN_KEY = "refresh_token";
+const TOKEN_EXPIRY_KEY = "token_expiry";
+
+// Tokens are stored per environment (see `scopedKey`) so one server's token is never sent to another
 
 export const saveToken = async (token: string) => {
-  await AsyncStorage.setItem(TOKEN_KEY, token);
+  await AsyncStorage.setItem(await scopedKey(TOKEN_KEY), token);
 };
 
 export const getToken = async () => {
-  return await AsyncStorage.getItem(TOKEN_KEY);
+  return await AsyncStorage.getItem(await scopedKey(TOKEN_KEY));
 };
 
 export const removeToken = async () => {
-  await AsyncStorage.removeItem(TOKEN_KEY);
-};
\ No newline at end of file
+  await AsyncStorage.removeItem(await scopedKey(TOKEN_KEY));
+};
+
+/**
+ * Persist the full token set returned by login / refresh.
+ * `tokenExpiry` is the server-issued expiry (ISO string); it is stored as epoch ms.
+ */
+export const saveTokens = async (tokens: { token: string; refreshToken?: string | null; tokenExpiry?: string | null }) => {
+  const entries: [string, string][] = [[await scopedKey(TOKEN_KEY), tokens.token]];
+  if (tokens.refreshToken) entries.push([await scopedKey(REFRESH_TOKEN_KEY), tokens.refreshToken]);
+
+  const expiry = tokens.tokenExpiry ? Date.parse(tokens.tokenExpiry) : NaN;
+  if (!isNaN(expiry)) {
+    entries.push([await scopedKey(TOKEN_EXPIRY_KEY), expiry.toString()]);
+  } else {
+    // A stale expiry would make api.ts refresh before every request
+    await AsyncStorage.removeItem(await scopedKey(TOKEN_EXPIRY_KEY));
+  }
+
+  await AsyncStorage.multiSet(entries);
+};
+
+export const getRefreshToken = async () => {
+  return await AsyncStorage.getItem(await scopedKey(REFRESH_TOKEN_KEY));
+};
+
+/** Server token expiry in epoch ms, or null if unknown */
+export const getTokenExpiry = async (): Promise<number | null> => {
+  const value = await AsyncStorage.getItem(await scopedKey(TOKEN_EXPIRY_KEY));
+  if (!value) return null;
+  const expiry = parseInt(value, 10);
+  return isNaN(expiry) ? null : expiry;
+};
+
+/** Remove access token, refresh token and expiry (user data is left alone) */
+export const clearTokens = async () => {
+  const keys = await Promise.all([TOKEN_KEY, REFRESH_TOKEN_KEY, TOKEN_EXPIRY_KEY].map(scopedKey));
+  await AsyncStorage.multiRemove(keys);
+};